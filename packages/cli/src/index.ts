@@ -1,4 +1,4 @@
-import { Command } from "commander";
+import { Command, Option } from "commander";
 import chalk from "chalk";
 import inquirer from "inquirer";
 import {
@@ -7,15 +7,193 @@ import {
   mkdirSync,
   existsSync,
   copyFileSync,
+  readdirSync,
+  statSync,
+  renameSync,
+  appendFileSync,
+  unlinkSync,
+  truncateSync,
+  promises as fsPromises,
 } from "fs";
-import { join, dirname } from "path";
-import { fileURLToPath } from "url";
+import { join, dirname, resolve, basename, extname, sep } from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { createServer, IncomingMessage } from "http";
+import {
+  ApiResponse,
+  DatasetApi,
+  DatasetDiff,
+  DatasetExporter,
+  DatasetFacets,
+  DatasetImporter,
+  DatasetManager,
+  DatasetMerge,
+  DatasetQuery,
+  DatasetValidator,
+  DuplicateCriterion,
+  EnrichResult,
+  GalleryBuilder,
+  ExportFormat,
+  FacetCount,
+  FieldChange,
+  FileStorage,
+  ImageData,
+  ImageDataset,
+  ImageDecoder,
+  ImportConflictPolicy,
+  ImportResult,
+  MigrationRegistry,
+  PreloadResult,
+  VersionHistory,
+  VersionManager,
+} from "@kavehrafie/image-dataset-manager";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 const program = new Command();
 
+/**
+ * Dataset files are read and written through FileStorage, which replaces
+ * them atomically and takes a lock file for each write. The lock does not
+ * span a whole command, so commands that load, change and save a dataset
+ * check with `assertUnchanged` that no other command saved it in between.
+ */
+const storage = new FileStorage(fsPromises);
+
+/**
+ * Read and parse a dataset JSON file
+ */
+async function readDataset(file: string): Promise<ImageDataset> {
+  return (await storage.read(file)) as ImageDataset;
+}
+
+/**
+ * Write a dataset JSON file through FileStorage
+ */
+async function writeDataset(
+  file: string,
+  dataset: ImageDataset
+): Promise<void> {
+  await storage.write(file, dataset);
+}
+
+/**
+ * Modification time of a dataset file, taken before a command loads it
+ */
+async function modifiedTime(file: string): Promise<number> {
+  return (await fsPromises.stat(file)).mtimeMs;
+}
+
+/**
+ * Fail instead of overwriting when another command replaced the file since
+ * it was loaded at `loadedAt`. Call it right before saving: only the save
+ * itself is locked, but this narrows a lost update to a race of one write.
+ */
+async function assertUnchanged(file: string, loadedAt: number): Promise<void> {
+  if ((await modifiedTime(file)) !== loadedAt) {
+    throw new Error(`${file} was changed by another command; run this again`);
+  }
+}
+
+/**
+ * Replace a dataset file for `serve`, whose API answers synchronously and so
+ * cannot wait for FileStorage. It takes the same lock file, failing instead
+ * of waiting while another command holds it, and fails when the file was
+ * changed since it was loaded at `loadedAt`. `beforeReplace` runs just
+ * before the rename; if it throws, the target is left untouched.
+ */
+function replaceDatasetFile(
+  file: string,
+  dataset: ImageDataset,
+  loadedAt: number,
+  beforeReplace: () => void
+): void {
+  const lock = `${file}.lock`;
+  try {
+    writeFileSync(lock, new Date().toISOString(), { flag: "wx" });
+  } catch (error: any) {
+    if (error.code !== "EEXIST") throw error;
+    if (
+      Date.now() - statSync(lock).mtimeMs <=
+      FileStorage.DEFAULT_STALE_LOCK_AGE
+    ) {
+      throw new Error(`${file} is being written by another command`);
+    }
+    // Its writer most likely crashed
+    writeFileSync(lock, new Date().toISOString());
+  }
+
+  const temporary = `${file}.${process.pid}.tmp`;
+  try {
+    if (statSync(file).mtimeMs !== loadedAt) {
+      throw new Error(`${file} was changed by another command`);
+    }
+    writeFileSync(temporary, JSON.stringify(dataset, null, 2) + "\n");
+    beforeReplace();
+    renameSync(temporary, file);
+  } catch (error) {
+    if (existsSync(temporary)) unlinkSync(temporary);
+    throw error;
+  } finally {
+    unlinkSync(lock);
+  }
+}
+
+/**
+ * Version history is kept next to the dataset, e.g. foo.history.json
+ */
+function historyPathFor(file: string): string {
+  return `${file.replace(/\.json$/i, "")}.history.json`;
+}
+
+/**
+ * Changes made through `serve` are logged next to the dataset, one JSON
+ * entry per line, e.g. foo.audit.jsonl
+ */
+function auditPathFor(file: string): string {
+  return `${file.replace(/\.json$/i, "")}.audit.jsonl`;
+}
+
+function loadHistory(file: string): VersionHistory {
+  const historyPath = historyPathFor(file);
+  return existsSync(historyPath)
+    ? VersionHistory.fromJSON(JSON.parse(readFileSync(historyPath, "utf-8")))
+    : new VersionHistory();
+}
+
+function saveHistory(file: string, history: VersionHistory): void {
+  writeFileSync(
+    historyPathFor(file),
+    JSON.stringify(history.toJSON(), null, 2) + "\n"
+  );
+}
+
+/**
+ * Record the dataset file in its history, bumping the version in the file
+ * when it was edited by hand without one
+ */
+async function recordCurrentVersion(
+  file: string,
+  dataset: ImageDataset,
+  history: VersionHistory,
+  message?: string
+): Promise<boolean> {
+  if (!history.hasChanges(dataset)) return false;
+
+  const latest = history.latest();
+  if (
+    latest &&
+    VersionManager.compareVersions(dataset.metadata.version, latest) <= 0
+  ) {
+    dataset.metadata.version = VersionManager.generateVersion(latest);
+    dataset.metadata.updatedAt = new Date().toISOString();
+    await writeDataset(file, dataset);
+  }
+
+  history.record(dataset, message);
+  return true;
+}
+
 program
   .name("image-dataset-manager")
   .description("CLI for managing image datasets")
@@ -173,7 +351,11 @@ program
     writeFileSync(filePath, JSON.stringify(dataset, null, 2));
 
     console.log(chalk.green(`✅ Created dataset: ${filePath}`));
-    console.log(chalk.yellow('💡 Start adding images to the "images" object'));
+    console.log(
+      chalk.yellow(
+        `💡 Add images with "idm import ${filePath} <csv, jsonl or folder>" or edit the "images" object`
+      )
+    );
   });
 
 // List command
@@ -194,29 +376,1289 @@ program
 
 // Validate command
 program
-  .command("validate <file>")
-  .description("Validate a dataset file against the schema")
-  .action(async (file) => {
-    console.log(chalk.blue(`🔍 Validating: ${file}`));
+  .command("validate <files...>")
+  .description("Validate dataset files against the schema")
+  .option("-f, --format <format>", "Output format (text, json)", "text")
+  .action(async (files: string[], options) => {
+    const reports = await Promise.all(
+      files.map(async (file) => {
+        try {
+          const dataset = (await storage.read(
+            file
+          )) as Partial<ImageDataset> | null;
+          const { valid, errors } = DatasetValidator.validate(dataset);
+          return {
+            file,
+            valid,
+            imageCount: Object.keys(dataset?.images || {}).length,
+            version: dataset?.metadata?.version,
+            errors,
+          };
+        } catch (error: any) {
+          return { file, valid: false, error: error.message, errors: [] };
+        }
+      })
+    );
 
-    try {
-      const content = readFileSync(file, "utf-8");
-      const dataset = JSON.parse(content);
+    if (reports.some((report) => !report.valid)) {
+      process.exitCode = 1;
+    }
+
+    if (options.format === "json") {
+      console.log(JSON.stringify(reports, null, 2));
+      return;
+    }
 
-      // Basic validation
-      if (!dataset.metadata) {
-        throw new Error("Missing metadata");
+    reports.forEach((report) => {
+      console.log(chalk.blue(`🔍 Validating: ${report.file}`));
+
+      if ("error" in report) {
+        console.log(chalk.red(`❌ Validation failed: ${report.error}`));
+        return;
       }
-      if (!dataset.images) {
-        throw new Error("Missing images object");
+
+      if (!report.valid) {
+        console.log(
+          chalk.red(
+            `❌ Validation failed with ${report.errors.length} error(s):`
+          )
+        );
+        report.errors.forEach((error) => {
+          console.log(`   - ${DatasetValidator.formatError(error)}`);
+        });
+        return;
       }
 
-      const imageCount = Object.keys(dataset.images).length;
       console.log(chalk.green("✅ Dataset is valid!"));
-      console.log(chalk.blue(`📊 Images: ${imageCount}`));
+      console.log(chalk.blue(`📊 Images: ${report.imageCount}`));
+      console.log(chalk.blue(`📅 Version: ${report.version}`));
+    });
+  });
+
+// History command
+program
+  .command("history <file>")
+  .description("List recorded versions of a dataset file")
+  .option("-r, --record", "Record the current file as a new version")
+  .option("-m, --message <message>", "Message for the recorded version")
+  .option("-f, --format <format>", "Output format (text, json)", "text")
+  .action(async (file, options) => {
+    try {
+      const dataset = await readDataset(file);
+      const history = loadHistory(file);
+
+      if (options.record) {
+        if (
+          await recordCurrentVersion(file, dataset, history, options.message)
+        ) {
+          saveHistory(file, history);
+          if (options.format !== "json") {
+            console.log(
+              chalk.green(`✅ Recorded version ${dataset.metadata.version}`)
+            );
+          }
+        } else if (options.format !== "json") {
+          console.log(chalk.yellow("💡 No changes since the latest version"));
+        }
+      }
+
+      const versions = history.list();
+
+      if (options.format === "json") {
+        console.log(JSON.stringify(versions, null, 2));
+        return;
+      }
+
+      if (!versions.length) {
+        console.log(chalk.yellow("💡 No versions recorded yet"));
+        console.log(`   Run "idm history ${file} --record" to start`);
+        return;
+      }
+
+      console.log(chalk.blue(`📜 History of ${file}:`));
+      versions
+        .slice()
+        .reverse()
+        .forEach((version) => {
+          const current =
+            version.version === dataset.metadata.version
+              ? chalk.green(" (current)")
+              : "";
+          console.log(
+            `   ${chalk.yellow(version.version)}${current}  ${
+              version.imageCount
+            } images${version.message ? `  ${version.message}` : ""}`
+          );
+        });
+
+      if (history.hasChanges(dataset)) {
+        console.log(chalk.yellow("💡 The file has unrecorded changes"));
+      }
+    } catch (error: any) {
+      console.log(chalk.red(`❌ History failed: ${error.message}`));
+      process.exitCode = 1;
+    }
+  });
+
+// Checkout command
+program
+  .command("checkout <file> <version>")
+  .description("Write a past version of a dataset file")
+  .option("-o, --out <path>", "Output file (prints to stdout if omitted)")
+  .action(async (file, version, options) => {
+    try {
+      const past = loadHistory(file).checkout(version).exportDataset();
+
+      if (!options.out) {
+        console.log(JSON.stringify(past, null, 2));
+        return;
+      }
+
+      await writeDataset(options.out, past);
+      console.log(chalk.green(`✅ Checked out ${version} to ${options.out}`));
+    } catch (error: any) {
+      console.log(chalk.red(`❌ Checkout failed: ${error.message}`));
+      process.exitCode = 1;
+    }
+  });
+
+// Rollback command
+program
+  .command("rollback <file> <version>")
+  .description("Restore a past version as the new current version")
+  .option("-m, --message <message>", "Message for the rollback version")
+  .action(async (file, version, options) => {
+    try {
+      const history = loadHistory(file);
+
+      // Keep unrecorded edits so the rollback can itself be undone
+      await recordCurrentVersion(file, await readDataset(file), history);
+
+      const latest = history.latest();
+      const restored = history.rollback(version, options.message);
+      if (history.latest() === latest) {
+        // Only unrecorded edits, if any, need saving
+        saveHistory(file, history);
+        const current = restored.metadata.version;
+        console.log(
+          chalk.yellow(
+            current === version
+              ? `⚠ ${file} is already at ${version}`
+              : `⚠ ${file} is already at ${current}, which matches ${version}`
+          )
+        );
+        return;
+      }
+      await writeDataset(file, restored);
+      saveHistory(file, history);
+
+      console.log(chalk.green(`✅ Rolled back ${file} to ${version}`));
+      console.log(chalk.blue(`📅 New version: ${restored.metadata.version}`));
+    } catch (error: any) {
+      console.log(chalk.red(`❌ Rollback failed: ${error.message}`));
+      process.exitCode = 1;
+    }
+  });
+
+/**
+ * Describe a single field change for the text diff output
+ */
+function formatFieldChange(change: FieldChange): string {
+  const label = change.key ? `${change.field}.${change.key}` : change.field;
+  const show = (value: unknown) => JSON.stringify(value);
+
+  if (Array.isArray(change.before) || Array.isArray(change.after)) {
+    const before = (change.before as unknown[]) || [];
+    const after = (change.after as unknown[]) || [];
+    const added = after.filter((item) => !before.includes(item));
+    const removed = before.filter((item) => !after.includes(item));
+    const parts = [
+      ...added.map((item) => chalk.green(`+${item}`)),
+      ...removed.map((item) => chalk.red(`-${item}`)),
+    ];
+    return `${label}: ${parts.length ? parts.join(" ") : "reordered"}`;
+  }
+
+  if (change.kind === "added") {
+    return `${label}: ${chalk.green(show(change.after))}`;
+  }
+  if (change.kind === "removed") {
+    return `${label}: ${chalk.red(show(change.before))} ${chalk.gray(
+      "(removed)"
+    )}`;
+  }
+  return `${label}: ${chalk.red(show(change.before))} → ${chalk.green(
+    show(change.after)
+  )}`;
+}
+
+// Diff command
+program
+  .command("diff <a> <b>")
+  .description("Show changes between two dataset files")
+  .option("-f, --format <format>", "Output format (text, json, patch)", "text")
+  .option("--exit-code", "Exit with code 1 when the datasets differ")
+  .action(async (a, b, options) => {
+    try {
+      const diff = DatasetDiff.compare(
+        await readDataset(a),
+        await readDataset(b)
+      );
+
+      if (options.exitCode && DatasetDiff.hasChanges(diff)) {
+        process.exitCode = 1;
+      }
+
+      if (options.format === "json") {
+        console.log(JSON.stringify(diff, null, 2));
+        return;
+      }
+      if (options.format === "patch") {
+        console.log(JSON.stringify(DatasetDiff.toJSONPatch(diff), null, 2));
+        return;
+      }
+
+      console.log(
+        chalk.blue(`🔍 Comparing ${a} (${diff.from}) → ${b} (${diff.to})`)
+      );
+
+      if (!DatasetDiff.hasChanges(diff)) {
+        console.log(chalk.green("✅ No differences"));
+        return;
+      }
+
+      if (diff.metadata.length) {
+        console.log(chalk.bold("Metadata:"));
+        diff.metadata.forEach((change) => {
+          console.log(`  ${chalk.yellow("~")} ${formatFieldChange(change)}`);
+        });
+      }
+
+      if (diff.added.length) {
+        console.log(chalk.bold(`Added (${diff.added.length}):`));
+        diff.added.forEach((image) => {
+          console.log(chalk.green(`  + ${image.id}`) + `  ${image.caption}`);
+        });
+      }
+
+      if (diff.removed.length) {
+        console.log(chalk.bold(`Removed (${diff.removed.length}):`));
+        diff.removed.forEach((image) => {
+          console.log(chalk.red(`  - ${image.id}`) + `  ${image.caption}`);
+        });
+      }
+
+      if (diff.modified.length) {
+        console.log(chalk.bold(`Modified (${diff.modified.length}):`));
+        diff.modified.forEach(({ id, changes }) => {
+          console.log(chalk.yellow(`  ~ ${id}`));
+          changes.forEach((change) => {
+            console.log(`      ${formatFieldChange(change)}`);
+          });
+        });
+      }
+
+      console.log(
+        chalk.blue(
+          `📊 ${diff.added.length} added, ${diff.removed.length} removed, ${diff.modified.length} modified`
+        )
+      );
+    } catch (error: any) {
+      console.log(chalk.red(`❌ Diff failed: ${error.message}`));
+      process.exitCode = 2;
+    }
+  });
+
+// Merge command
+program
+  .command("merge <base> <ours> <theirs>")
+  .description(
+    "Three-way merge of dataset files (usable as a git merge driver: %O %A %B)"
+  )
+  .option("-o, --out <file>", "Output file (defaults to <ours>)")
+  .option(
+    "-s, --strategy <side>",
+    "Side kept for conflicting changes (ours, theirs)",
+    "ours"
+  )
+  .option("-f, --format <format>", "Output format (text, json)", "text")
+  .action(async (base, ours, theirs, options) => {
+    try {
+      if (!["ours", "theirs"].includes(options.strategy)) {
+        throw new Error(`Unknown strategy "${options.strategy}"`);
+      }
+
+      const out = options.out || ours;
+      const { dataset, conflicts } = DatasetMerge.merge(
+        await readDataset(base),
+        await readDataset(ours),
+        await readDataset(theirs),
+        { strategy: options.strategy }
+      );
+      await writeDataset(out, dataset);
+
+      const conflictsPath = `${out.replace(/\.json$/i, "")}.conflicts.json`;
+      if (conflicts.length) {
+        writeFileSync(
+          conflictsPath,
+          JSON.stringify(
+            { base, ours, theirs, strategy: options.strategy, conflicts },
+            null,
+            2
+          ) + "\n"
+        );
+        process.exitCode = 1;
+      } else if (existsSync(conflictsPath)) {
+        // Details from an earlier merge no longer apply
+        unlinkSync(conflictsPath);
+      }
+
+      if (options.format === "json") {
+        console.log(JSON.stringify(conflicts, null, 2));
+        return;
+      }
+
+      console.log(chalk.green(`✅ Merged into ${out}`));
       console.log(chalk.blue(`📅 Version: ${dataset.metadata.version}`));
+
+      if (conflicts.length) {
+        console.log(
+          chalk.red(
+            `❌ ${conflicts.length} conflict(s), resolved with "${options.strategy}":`
+          )
+        );
+        conflicts.forEach((conflict) => {
+          console.log(
+            `   ${chalk.yellow(conflict.path)} (${
+              conflict.kind
+            }): ours ${JSON.stringify(conflict.ours)}, theirs ${JSON.stringify(
+              conflict.theirs
+            )}`
+          );
+        });
+        console.log(chalk.yellow(`💡 Conflict details: ${conflictsPath}`));
+      }
+    } catch (error: any) {
+      console.log(chalk.red(`❌ Merge failed: ${error.message}`));
+      process.exitCode = 2;
+    }
+  });
+
+// Migrate command
+program
+  .command("migrate <file>")
+  .description("Upgrade a dataset file to a newer schema version in place")
+  .option("-t, --to <version>", "Target schema version (defaults to latest)")
+  .option("--dry-run", "Show the migrations without writing the file")
+  .option(
+    "-r, --require <module>",
+    "Module that registers additional migrations with MigrationRegistry"
+  )
+  .action(async (file, options) => {
+    try {
+      if (options.require) {
+        await import(pathToFileURL(resolve(options.require)).href);
+      }
+
+      const loadedAt = await modifiedTime(file);
+      const original = await readDataset(file);
+      const to = options.to || MigrationRegistry.getLatestVersion();
+
+      if (!MigrationRegistry.needsMigration(original, { to })) {
+        console.log(
+          chalk.green(
+            `✅ ${file} is already at schema ${MigrationRegistry.getDatasetVersion(
+              original
+            )}`
+          )
+        );
+        return;
+      }
+
+      const { dataset, from, applied } = MigrationRegistry.migrate(original, {
+        to,
+      });
+
+      console.log(chalk.blue(`🔄 Migrating ${file}: schema ${from} → ${to}`));
+      applied.forEach((migration) => {
+        console.log(
+          `   • ${migration.from} → ${migration.to}${
+            migration.description ? `: ${migration.description}` : ""
+          }`
+        );
+      });
+
+      const diff = DatasetDiff.compare(original, dataset);
+      console.log(
+        chalk.blue(
+          `📊 ${diff.metadata.length} metadata change(s), ${diff.modified.length} image(s) modified, ${diff.added.length} added, ${diff.removed.length} removed`
+        )
+      );
+
+      const { valid, errors } = DatasetValidator.validate(dataset);
+      if (!valid) {
+        console.log(
+          chalk.yellow(
+            `⚠️  Migrated dataset has ${errors.length} validation error(s)`
+          )
+        );
+      }
+
+      if (options.dryRun) {
+        console.log(chalk.yellow("💡 Dry run: no files were changed"));
+        return;
+      }
+
+      await assertUnchanged(file, loadedAt);
+      await writeDataset(file, dataset);
+      console.log(chalk.green(`✅ Migrated ${file} to schema ${to}`));
+    } catch (error: any) {
+      console.log(chalk.red(`❌ Migration failed: ${error.message}`));
+      process.exitCode = 1;
+    }
+  });
+
+// Search command
+program
+  .command("search <file> <query>")
+  .description(
+    "Search a dataset, e.g. 'artist:ziapour year:1940..1960 -tag:reference'"
+  )
+  .option(
+    "-s, --sort <field>",
+    'Sort by "relevance" or a field, "-" to reverse'
+  )
+  .option("--offset <n>", "Number of results to skip", "0")
+  .option("-l, --limit <n>", "Maximum number of results")
+  .option("--any", "Match any term instead of all of them")
+  .option("-f, --format <format>", "Output format (text, json, ids)", "text")
+  .option("--explain", "Print the parsed query instead of searching")
+  .action(async (file, query, options) => {
+    try {
+      if (options.explain) {
+        const node = DatasetQuery.parse(query, {
+          operator: options.any ? "or" : "and",
+        });
+        console.log(JSON.stringify(node, null, 2));
+        return;
+      }
+
+      const manager = await DatasetManager.load(file, { storage });
+      const results = manager.search(query, {
+        sort: options.sort,
+        operator: options.any ? "or" : "and",
+      });
+      const offset = parseInt(options.offset, 10) || 0;
+      const page = results.slice(
+        offset,
+        options.limit ? offset + parseInt(options.limit, 10) : undefined
+      );
+
+      if (options.format === "json") {
+        console.log(JSON.stringify(page, null, 2));
+        return;
+      }
+      if (options.format === "ids") {
+        page.forEach((image) => console.log(image.id));
+        return;
+      }
+
+      if (!page.length) {
+        console.log(chalk.yellow(`🔍 No images match "${query}"`));
+        return;
+      }
+
+      page.forEach((image) => {
+        const score = image.score
+          ? chalk.gray(` (${image.score.toFixed(2)})`)
+          : "";
+        console.log(`${chalk.cyan(image.id)}${score}`);
+        console.log(`   ${image.caption}`);
+      });
+      console.log(
+        chalk.blue(
+          `📊 Showing ${offset + 1}–${offset + page.length} of ${
+            results.length
+          } result(s)`
+        )
+      );
+    } catch (error: any) {
+      console.log(chalk.red(`❌ Search failed: ${error.message}`));
+      process.exitCode = 1;
+    }
+  });
+
+// Stats command
+program
+  .command("stats <file>")
+  .description("Summarize image counts, metadata coverage and tag distribution")
+  .option("-t, --top <n>", "Number of values to show per facet", "10")
+  .option("--missing", "List the images missing each metadata field")
+  .option("-f, --format <format>", "Output format (text, json)", "text")
+  .action(async (file, options) => {
+    try {
+      const manager = await DatasetManager.load(file, { storage });
+      const top = parseInt(options.top, 10) || 10;
+      const stats = manager.getStats({ limit: top });
+
+      if (options.format === "json") {
+        console.log(JSON.stringify(stats, null, 2));
+        return;
+      }
+
+      const percent = (count: number) =>
+        stats.imageCount ? Math.round((count / stats.imageCount) * 100) : 0;
+
+      console.log(chalk.blue(`📊 ${file} (${stats.version})`));
+      console.log(`   ${stats.imageCount} image(s)`);
+
+      console.log(chalk.bold("\nMetadata coverage:"));
+      DatasetFacets.COVERAGE_FIELDS.forEach((field) => {
+        const { present, missing } = stats.coverage[field];
+        const color =
+          percent(present) === 100
+            ? chalk.green
+            : percent(present) >= 50
+            ? chalk.yellow
+            : chalk.red;
+        console.log(
+          `   ${field.padEnd(12)} ${color(
+            `${present}/${stats.imageCount} (${percent(present)}%)`
+          )}`
+        );
+        if (options.missing && missing.length) {
+          console.log(chalk.gray(`      missing: ${missing.join(", ")}`));
+        }
+      });
+
+      console.log(chalk.bold("\nTags:"));
+      console.log(
+        `   ${stats.tags.distinct} distinct, ${
+          stats.tags.untagged
+        } untagged image(s), ${stats.tags.averagePerImage.toFixed(
+          1
+        )} per image on average`
+      );
+
+      const printFacet = (title: string, counts: FacetCount[]) => {
+        if (!counts.length) return;
+        console.log(chalk.bold(`\n${title}:`));
+        const width = Math.max(...counts.map((facet) => facet.value.length));
+        counts.forEach((facet) => {
+          console.log(
+            `   ${facet.value.padEnd(width)}  ${chalk.cyan(
+              "█".repeat(Math.ceil((percent(facet.count) / 100) * 20))
+            )} ${facet.count}`
+          );
+        });
+      };
+
+      printFacet("Top tags", stats.facets.tags);
+      printFacet("Artists", stats.facets.artist);
+      printFacet("Media", stats.facets.medium);
+      printFacet("Collections", stats.facets.collection);
+      printFacet("Decades", stats.facets.decade);
+    } catch (error: any) {
+      console.log(chalk.red(`❌ Stats failed: ${error.message}`));
+      process.exitCode = 1;
+    }
+  });
+
+// Check links command
+program
+  .command("check-links <file>")
+  .description("Check that every image src URL is reachable")
+  .option("-c, --concurrency <n>", "Requests in flight at once", "6")
+  .option("-t, --timeout <ms>", "Milliseconds before a request fails", "10000")
+  .option("-r, --retries <n>", "Retries after network and server errors", "1")
+  .option("--get", "Download each image instead of sending HEAD requests")
+  .option("-v, --verbose", "List reachable images too")
+  .option("-f, --format <format>", "Output format (text, json)", "text")
+  .action(async (file, options) => {
+    try {
+      const manager = await DatasetManager.load(file, { storage });
+      const results = await manager.checkLinks({
+        concurrency: parseInt(options.concurrency, 10) || 6,
+        timeout: parseInt(options.timeout, 10) || 10000,
+        retries: parseInt(options.retries, 10) || 0,
+        method: options.get ? "GET" : "HEAD",
+      });
+      const broken = results.filter((result) => !result.ok);
+
+      if (options.format === "json") {
+        console.log(JSON.stringify(results, null, 2));
+      } else {
+        const describe = (result: PreloadResult) =>
+          [
+            result.status,
+            result.contentType,
+            result.bytes !== undefined ? `${result.bytes} bytes` : undefined,
+            `${result.latency} ms`,
+          ]
+            .filter((part) => part !== undefined)
+            .join(", ");
+
+        results.forEach((result) => {
+          if (result.ok) {
+            if (options.verbose) {
+              console.log(
+                chalk.green(`  ✓ ${result.id}`) +
+                  chalk.gray(`  ${describe(result)}`)
+              );
+            }
+            return;
+          }
+          console.log(chalk.red(`  ✗ ${result.id}`) + `  ${result.error}`);
+          console.log(chalk.gray(`      ${result.url}`));
+        });
+
+        console.log(
+          broken.length
+            ? chalk.red(
+                `❌ ${broken.length} of ${results.length} link(s) broken`
+              )
+            : chalk.green(`✅ All ${results.length} link(s) reachable`)
+        );
+      }
+
+      if (broken.length) process.exitCode = 1;
+    } catch (error: any) {
+      console.log(chalk.red(`❌ Link check failed: ${error.message}`));
+      process.exitCode = 1;
+    }
+  });
+
+// Enrich command
+program
+  .command("enrich <file>")
+  .description(
+    "Record pixel size, format, file size and hashes of each image file"
+  )
+  .option("-d, --dir <folder>", "Read images from a folder by src file name")
+  .option("-i, --ids <ids...>", "Only inspect these images")
+  .option("--force", "Inspect images that already have technical metadata")
+  .option("-c, --concurrency <n>", "Images inspected at once", "4")
+  .option("-t, --timeout <ms>", "Milliseconds before a download fails", "30000")
+  .option(
+    "--decoder <module>",
+    "Module whose default export decodes images to pixels for perceptual hashes"
+  )
+  .option("-m, --message <message>", "Change description")
+  .option("--dry-run", "Show the results without writing the file")
+  .action(async (file, options) => {
+    try {
+      const loadedAt = await modifiedTime(file);
+      const manager = await DatasetManager.load(file, { storage });
+
+      // Only PNG is decoded built in; other formats need a decoder module
+      let decode: ImageDecoder | undefined;
+      if (options.decoder) {
+        decode = (await import(pathToFileURL(resolve(options.decoder)).href))
+          .default;
+        if (typeof decode !== "function") {
+          throw new Error(
+            `${options.decoder} has no default export decoder function`
+          );
+        }
+      }
+
+      // file: URLs and --dir are read from disk; everything else is fetched
+      const readLocal = async (image: ImageData) => {
+        if (image.src.startsWith("file:")) {
+          return readFileSync(fileURLToPath(image.src));
+        }
+        if (options.dir) {
+          return readFileSync(
+            join(options.dir, basename(new URL(image.src).pathname))
+          );
+        }
+        return null;
+      };
+
+      const describe = ({ technical }: EnrichResult) => {
+        if (!technical) return "";
+        return [
+          `${technical.width}×${technical.height}`,
+          technical.format,
+          `${(technical.bytes / 1024).toFixed(1)} KB`,
+          technical.perceptualHash
+            ? `phash ${technical.perceptualHash}`
+            : undefined,
+        ]
+          .filter(Boolean)
+          .join(", ");
+      };
+
+      const results = await manager.enrich(
+        {
+          ids: options.ids,
+          force: options.force,
+          concurrency: parseInt(options.concurrency, 10) || 4,
+          timeout: parseInt(options.timeout, 10) || 30000,
+          load: readLocal,
+          decode,
+          onProgress: (result) => {
+            if (!result.ok) {
+              console.log(chalk.red(`  ✗ ${result.id}`) + `  ${result.error}`);
+            } else if (result.inspected) {
+              console.log(
+                chalk.green(`  ✓ ${result.id}`) +
+                  chalk.gray(`  ${describe(result)}`)
+              );
+            }
+          },
+        },
+        options.message
+      );
+
+      const inspected = results.filter((result) => result.inspected);
+      const failed = results.filter((result) => !result.ok);
+      console.log(
+        chalk.blue(
+          `📊 ${inspected.length - failed.length} image(s) enriched, ${
+            results.length - inspected.length
+          } already enriched, ${failed.length} failed`
+        )
+      );
+      if (failed.length) process.exitCode = 1;
+
+      const unhashed = new Set(
+        inspected
+          .filter(({ technical }) => technical && !technical.perceptualHash)
+          .map(({ technical }) => technical?.format)
+      );
+      if (unhashed.size) {
+        console.log(
+          chalk.yellow(
+            `⚠ No perceptual hashes for ${Array.from(unhashed).join(
+              ", "
+            )} images: ${
+              decode
+                ? "the decoder could not read them"
+                : "pass --decoder to decode them"
+            }`
+          )
+        );
+      }
+
+      if (options.dryRun) {
+        console.log(chalk.yellow("💡 Dry run: no files were changed"));
+        return;
+      }
+      if (inspected.length > failed.length) {
+        await assertUnchanged(file, loadedAt);
+        await manager.save();
+        console.log(chalk.green(`✅ Updated ${file}`));
+      }
+    } catch (error: any) {
+      console.log(chalk.red(`❌ Enrichment failed: ${error.message}`));
+      process.exitCode = 1;
+    }
+  });
+
+// Dedupe command
+program
+  .command("dedupe <file>")
+  .description("Find duplicate images and optionally merge them")
+  .option(
+    "-b, --by <criteria...>",
+    "Match on src, publicId, hash and/or perceptual (default all)"
+  )
+  .option(
+    "-t, --threshold <bits>",
+    "Most differing perceptual-hash bits for a match",
+    "6"
+  )
+  .option("--merge", "Merge each group's tags and metadata into one image")
+  .option("-m, --message <message>", "Change description")
+  .option("--dry-run", "Show the merge without writing the file")
+  .option("-f, --format <format>", "Output format (text, json)", "text")
+  .action(async (file, options) => {
+    try {
+      const loadedAt = await modifiedTime(file);
+      const manager = await DatasetManager.load(file, { storage });
+      const groups = manager.findDuplicates({
+        by: options.by as DuplicateCriterion[] | undefined,
+        threshold: parseInt(options.threshold, 10),
+      });
+
+      if (options.format === "json") {
+        console.log(JSON.stringify(groups, null, 2));
+      } else if (!groups.length) {
+        console.log(chalk.green("✅ No duplicates found"));
+      } else {
+        groups.forEach((group) => {
+          const others = group.ids.filter((id) => id !== group.canonical);
+          console.log(
+            `${chalk.cyan(group.canonical)} ${chalk.gray("←")} ${others.join(
+              ", "
+            )}`
+          );
+          group.matches.forEach((match) => {
+            const distance =
+              match.distance !== undefined ? `, ${match.distance} bit(s)` : "";
+            console.log(
+              chalk.gray(
+                `   ${match.a} = ${match.b} (${match.criterion}${distance})`
+              )
+            );
+          });
+        });
+        console.log(
+          chalk.blue(
+            `📊 ${groups.length} group(s), ${groups.reduce(
+              (total, group) => total + group.ids.length - 1,
+              0
+            )} duplicate image(s)`
+          )
+        );
+      }
+
+      if (!options.merge || !groups.length) return;
+
+      const results = manager.mergeDuplicates(groups, options.message);
+      if (options.dryRun) {
+        console.log(chalk.yellow("💡 Dry run: no files were changed"));
+        return;
+      }
+      await assertUnchanged(file, loadedAt);
+      await manager.save();
+      console.log(
+        chalk.green(
+          `✅ Merged ${results.length} group(s) into ${file} (${
+            manager.getMetadata().version
+          })`
+        )
+      );
+    } catch (error: any) {
+      console.log(chalk.red(`❌ Dedupe failed: ${error.message}`));
+      process.exitCode = 1;
+    }
+  });
+
+// Import command
+program
+  .command("import <file> <source>")
+  .description("Add images from a CSV, TSV or JSON Lines file or a folder")
+  .option(
+    "-f, --format <format>",
+    "Source format (csv, tsv, jsonl, dir); detected by default"
+  )
+  .option(
+    "--map <column=field...>",
+    'Map a column to src, caption, tags, id or "metadata.<key>"'
+  )
+  .option("--mapping <file>", "JSON file of column-to-field mappings")
+  .option("--delimiter <char>", "Field delimiter for delimited files")
+  .option("--tag-separator <char>", "Separator within the tags column")
+  .option("--no-extra-metadata", "Ignore columns that are not mapped")
+  .addOption(
+    new Option("--on-conflict <policy>", "What to do with existing IDs")
+      .choices(DatasetImporter.CONFLICT_POLICIES)
+      .default("skip")
+  )
+  .option("--base-url <url>", "URL prefix for images imported from a folder")
+  .option("--slugify", "Turn file names that are not valid IDs into IDs")
+  .option("-m, --message <message>", "Change description")
+  .option("--dry-run", "Show the import without writing the file")
+  .action(async (file, source, options) => {
+    try {
+      const loadedAt = await modifiedTime(file);
+      const manager = await DatasetManager.load(file, { storage });
+      const isDir = statSync(source).isDirectory();
+      const format =
+        options.format ||
+        (isDir
+          ? "dir"
+          : { ".tsv": "tsv", ".jsonl": "jsonl", ".ndjson": "jsonl" }[
+              extname(source).toLowerCase()
+            ] || "csv");
+
+      const mapping: Record<string, string> = options.mapping
+        ? JSON.parse(readFileSync(options.mapping, "utf-8"))
+        : {};
+      (options.map || []).forEach((entry: string) => {
+        const [column, field = ""] = entry.split("=");
+        mapping[column] = field;
+      });
+      const importOptions = {
+        mapping,
+        unmappedAsMetadata: options.extraMetadata,
+        tagSeparator: options.tagSeparator,
+      };
+
+      let result: ImportResult;
+      if (format === "dir") {
+        // Image files become file: URLs unless a base URL is given
+        const files = readdirSync(source)
+          .filter((name) => DatasetImporter.isImageFile(name))
+          .filter((name) => statSync(join(source, name)).isFile())
+          .map((name) => ({
+            name,
+            url: pathToFileURL(resolve(source, name)).href,
+          }));
+        result = DatasetImporter.fromFiles(files, {
+          baseUrl: options.baseUrl,
+          slugify: options.slugify,
+        });
+      } else if (format === "jsonl") {
+        result = DatasetImporter.fromJsonLines(
+          readFileSync(source, "utf-8"),
+          importOptions
+        );
+      } else if (format === "csv" || format === "tsv") {
+        result = DatasetImporter.fromDelimited(readFileSync(source, "utf-8"), {
+          ...importOptions,
+          delimiter: options.delimiter || (format === "tsv" ? "\t" : ","),
+        });
+      } else {
+        throw new Error(`Unknown format "${format}"`);
+      }
+
+      result.issues.forEach((issue) => {
+        console.log(chalk.yellow(`  ⚠ ${issue.source}`) + `  ${issue.reason}`);
+      });
+
+      const summary = manager.importImages(
+        result.images,
+        options.onConflict as ImportConflictPolicy,
+        options.message || `Import images from ${basename(source)}`
+      );
+      Object.entries(summary.renamed).forEach(([from, to]) => {
+        console.log(chalk.gray(`  ${from} → ${to}`));
+      });
+      console.log(
+        chalk.blue(
+          `📊 ${summary.added.length} added, ${summary.updated.length} updated, ${summary.skipped.length} skipped, ${result.issues.length} not imported`
+        )
+      );
+      if (summary.skipped.length) {
+        console.log(
+          chalk.gray(`   Skipped existing: ${summary.skipped.join(", ")}`)
+        );
+      }
+
+      if (options.dryRun) {
+        console.log(chalk.yellow("💡 Dry run: no files were changed"));
+        return;
+      }
+      if (summary.added.length || summary.updated.length) {
+        await assertUnchanged(file, loadedAt);
+        await manager.save();
+        console.log(
+          chalk.green(`✅ Updated ${file} (${manager.getMetadata().version})`)
+        );
+        if (format === "dir" && !options.baseUrl) {
+          console.log(
+            chalk.yellow(
+              `💡 Run "idm enrich ${file}" to record image sizes and hashes`
+            )
+          );
+        }
+      }
+    } catch (error: any) {
+      console.log(chalk.red(`❌ Import failed: ${error.message}`));
+      process.exitCode = 1;
+    }
+  });
+
+// Export command
+program
+  .command("export <file>")
+  .description("Export images as IIIF, CSV, JSON Lines, JSON-LD or BibTeX")
+  .requiredOption(
+    "-f, --format <format>",
+    `Output format (${DatasetExporter.FORMATS.join(", ")})`
+  )
+  .option("-q, --query <query>", "Only export images matching a search")
+  .option("-o, --output <file>", "Write to a file instead of stdout")
+  .option("--base-url <url>", "Base URL of IIIF and JSON-LD IDs")
+  .option("--label <label>", "IIIF manifest label")
+  .option("--language <code>", "Language of captions and labels")
+  .option("--delimiter <char>", "CSV field delimiter")
+  .action(async (file, options) => {
+    try {
+      const format = options.format as ExportFormat;
+      if (!DatasetExporter.FORMATS.includes(format)) {
+        throw new Error(
+          `Unknown format "${format}"; use ${DatasetExporter.FORMATS.join(
+            ", "
+          )}`
+        );
+      }
+
+      const dataset = await readDataset(file);
+      const source = options.query
+        ? DatasetManager.fromJSON(dataset).searchImages(options.query)
+        : dataset;
+      const output = DatasetExporter.export(source, format, {
+        baseUrl: options.baseUrl,
+        label: options.label,
+        language: options.language,
+        delimiter: options.delimiter,
+      });
+
+      if (!options.output) {
+        process.stdout.write(output.endsWith("\n") ? output : `${output}\n`);
+        return;
+      }
+      writeFileSync(options.output, output);
+      const count = Array.isArray(source)
+        ? source.length
+        : Object.keys(source.images).length;
+      console.log(
+        chalk.green(`✅ Exported ${count} image(s) to ${options.output}`)
+      );
+    } catch (error: any) {
+      console.log(chalk.red(`❌ Export failed: ${error.message}`));
+      process.exitCode = 1;
+    }
+  });
+
+// Build gallery command
+program
+  .command("build-gallery <file>")
+  .description("Generate a static HTML gallery for previewing a dataset")
+  .option("-o, --out <dir>", "Output directory", "./gallery")
+  .option("--title <title>", "Site title (default: dataset description)")
+  .option(
+    "--thumbnail-preset <preset>",
+    "Preset for grid thumbnails",
+    "thumbnail"
+  )
+  .option("--detail-preset <preset>", "Preset for detail pages", "hero")
+  .option("--lang <code>", "Language of the pages", "en")
+  .action(async (file, options) => {
+    try {
+      const manager = await DatasetManager.load(file, { storage });
+      const files = GalleryBuilder.build(manager, {
+        title: options.title,
+        thumbnailPreset: options.thumbnailPreset,
+        detailPreset: options.detailPreset,
+        lang: options.lang,
+      });
+
+      const out = resolve(options.out);
+      const targets = files.map(({ path }) => resolve(out, path));
+      const outside = targets.find((target) => !target.startsWith(out + sep));
+      if (outside) {
+        throw new Error(`Refusing to write outside ${out}: ${outside}`);
+      }
+
+      files.forEach(({ content }, i) => {
+        const target = targets[i];
+        mkdirSync(dirname(target), { recursive: true });
+        writeFileSync(target, content);
+      });
+
+      console.log(
+        chalk.green(
+          `✅ Wrote ${files.length} files for ${
+            manager.getAllImages().length
+          } image(s) to ${options.out}`
+        )
+      );
+      console.log(
+        chalk.yellow(`💡 Open ${join(options.out, "index.html")} in a browser`)
+      );
+    } catch (error: any) {
+      console.log(chalk.red(`❌ Gallery build failed: ${error.message}`));
+      process.exitCode = 1;
+    }
+  });
+
+// Serve command
+program
+  .command("serve <dir>")
+  .description("Serve the datasets in a folder (or one file) as a JSON API")
+  .option("-p, --port <port>", "Port to listen on", "3000")
+  .option("-H, --host <host>", "Host to listen on", "127.0.0.1")
+  .option("--cors <origin>", "Access-Control-Allow-Origin value", "*")
+  .option(
+    "--tokens <file>",
+    "JSON file mapping bearer tokens to identities; enables writes"
+  )
+  .action(async (dir, options) => {
+    try {
+      const paths = new Map<string, string>();
+      const modifiedAt = new Map<string, number>();
+      const tokens: Record<string, string> | undefined = options.tokens
+        ? JSON.parse(readFileSync(options.tokens, "utf-8"))
+        : undefined;
+
+      // Writes are saved before they are acknowledged; a failed save is
+      // rolled back by the API
+      const api = new DatasetApi(
+        {},
+        {
+          cors: options.cors,
+          tokens,
+          onChange: ({ name, dataset, audit }) => {
+            const path = paths.get(name) as string;
+            const loadedAt = modifiedAt.get(name) as number;
+            const auditPath = auditPathFor(path);
+            // The audit entry is written before the dataset is replaced and
+            // cut off again if that fails, so no change goes unlogged
+            let auditSize: number | undefined;
+            try {
+              replaceDatasetFile(path, dataset, loadedAt, () => {
+                auditSize = existsSync(auditPath)
+                  ? statSync(auditPath).size
+                  : 0;
+                appendFileSync(auditPath, JSON.stringify(audit) + "\n");
+              });
+            } catch (error) {
+              if (auditSize !== undefined && existsSync(auditPath)) {
+                truncateSync(auditPath, auditSize);
+              }
+              throw error;
+            }
+            modifiedAt.set(name, statSync(path).mtimeMs);
+            console.log(
+              chalk.cyan(
+                `✏️  ${audit.identity} ${audit.action} ${audit.ids.join(
+                  ", "
+                )} → ${audit.version}`
+              )
+            );
+          },
+        }
+      );
+      // History and merge conflict files live beside the datasets
+      const isDirectory = statSync(dir).isDirectory();
+      const datasetFiles = () =>
+        isDirectory
+          ? readdirSync(dir)
+              .filter(
+                (name) =>
+                  name.endsWith(".json") &&
+                  !/\.(history|conflicts)\.json$/.test(name)
+              )
+              .map((name) => join(dir, name))
+          : [dir];
+
+      // Files are reloaded when they change, so edits show up without a restart
+      const refresh = () => {
+        const names = new Set<string>();
+        datasetFiles().forEach((path) => {
+          const name = basename(path, ".json");
+          let modified: number;
+          try {
+            modified = statSync(path).mtimeMs;
+          } catch (error: any) {
+            // Deleted or renamed since the folder was listed; it is dropped
+            // below like any other removed file
+            if (error.code === "ENOENT") return;
+            throw error;
+          }
+          names.add(name);
+          if (modifiedAt.get(name) === modified) return;
+
+          modifiedAt.set(name, modified);
+          paths.set(name, path);
+          try {
+            const data = JSON.parse(readFileSync(path, "utf-8"));
+            if (data?.metadata && data?.images) {
+              api.setDataset(name, DatasetManager.fromJSON(data));
+            } else {
+              api.removeDataset(name);
+            }
+          } catch (error: any) {
+            api.removeDataset(name);
+            console.log(chalk.yellow(`⚠ Skipping ${path}: ${error.message}`));
+          }
+        });
+        Array.from(modifiedAt.keys())
+          .filter((name) => !names.has(name))
+          .forEach((name) => {
+            modifiedAt.delete(name);
+            paths.delete(name);
+            api.removeDataset(name);
+          });
+      };
+
+      const maxBodyBytes = 1024 * 1024;
+      const respond = (
+        req: IncomingMessage,
+        raw: Buffer | null
+      ): ApiResponse => {
+        if (!raw) {
+          return {
+            status: 413,
+            headers: {},
+            body: { error: "Request body is too large" },
+          };
+        }
+
+        const text = raw.toString("utf-8");
+        let body: unknown;
+        try {
+          body = text.trim() ? JSON.parse(text) : undefined;
+        } catch {
+          return {
+            status: 400,
+            headers: {},
+            body: { error: "Request body is not valid JSON" },
+          };
+        }
+
+        refresh();
+        return api.handle({
+          method: req.method || "GET",
+          url: req.url || "/",
+          headers: req.headers,
+          body,
+        });
+      };
+
+      refresh();
+      const server = createServer((req, res) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on("data", (chunk: Buffer) => {
+          size += chunk.length;
+          if (size <= maxBodyBytes) chunks.push(chunk);
+        });
+        req.on("end", () => {
+          const response = respond(
+            req,
+            size > maxBodyBytes ? null : Buffer.concat(chunks)
+          );
+          res.writeHead(response.status, response.headers);
+          res.end(
+            response.body === undefined
+              ? undefined
+              : JSON.stringify(response.body)
+          );
+          console.log(
+            chalk.gray(`${req.method} ${req.url} ${response.status}`)
+          );
+        });
+      });
+
+      server.on("error", (error) => {
+        console.log(chalk.red(`❌ Server failed: ${error.message}`));
+        process.exitCode = 1;
+      });
+      server.listen(parseInt(options.port, 10), options.host, () => {
+        const names = api.getDatasetNames();
+        console.log(
+          chalk.green(
+            `🚀 Serving ${names.length} dataset(s) at http://${options.host}:${options.port}/datasets`
+          )
+        );
+        names.forEach((name) => console.log(chalk.gray(`   ${name}`)));
+        console.log(
+          chalk.gray(
+            tokens
+              ? `   Writes enabled for ${Object.keys(tokens).length} token(s)`
+              : "   Read-only (use --tokens to enable writes)"
+          )
+        );
+      });
     } catch (error: any) {
-      console.log(chalk.red(`❌ Validation failed: ${error.message}`));
+      console.log(chalk.red(`❌ Server failed: ${error.message}`));
+      process.exitCode = 1;
     }
   });
 
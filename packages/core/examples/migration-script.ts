@@ -0,0 +1,50 @@
+/**
+ * Schema migration example
+ *
+ * Registers a migration for a hypothetical 1.1.0 schema that moves a
+ * free-text `credit` field into structured metadata, then loads an older
+ * dataset, which is migrated automatically by DatasetManager.fromJSON.
+ *
+ * The same module can be passed to the CLI:
+ *   idm migrate ./data/my-dataset.json --require ./migrations.js
+ */
+
+import { DatasetManager, MigrationRegistry, VersionManager } from "../src";
+
+MigrationRegistry.register({
+  from: "1.0.0",
+  to: "1.1.0",
+  description: "Move image credit lines into metadata.credit",
+  migrate: (dataset) => {
+    Object.values<any>(dataset.images).forEach((image) => {
+      if (image.credit) {
+        image.metadata = { ...image.metadata, credit: image.credit };
+        delete image.credit;
+      }
+    });
+    return dataset;
+  },
+});
+
+const legacyDataset = {
+  metadata: {
+    version: "v2025-08-17T00-00-00-000Z",
+    createdAt: "2025-08-17T00:00:00.000Z",
+    updatedAt: "2025-08-17T00:00:00.000Z",
+    schemaVersion: "1.0.0",
+  },
+  images: {
+    ziapour_giveh: {
+      src: "https://res.cloudinary.com/image-solar/image/upload/v1743141424/ziapour/ziapour_w_giveh_he78dy.png",
+      caption: "Ziapour in professional attire and giveh, 1952",
+      credit: "From the artist's family album",
+    },
+  },
+};
+
+console.log("Current schema:", VersionManager.getSchemaVersion());
+console.log("Compatible with 1.0.0:", VersionManager.isCompatible("1.0.0"));
+
+const manager = DatasetManager.fromJSON(legacyDataset);
+console.log("Loaded schema:", manager.getMetadata().schemaVersion);
+console.log("Credit:", manager.getImage("ziapour_giveh")?.metadata?.credit);
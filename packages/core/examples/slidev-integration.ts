@@ -0,0 +1,49 @@
+/**
+ * Slidev integration example
+ *
+ * Generates one slide per image for a slides.md file, using the
+ * dataset-image layout from @kavehrafie/slidev-addon-image-dataset when it
+ * is installed and plain Markdown otherwise.
+ */
+
+import { DatasetManager, ImageDataset } from "../src";
+
+const dataset: ImageDataset = {
+  metadata: {
+    version: "v2025-08-17T00-00-00-000Z",
+    createdAt: "2025-08-17T00:00:00.000Z",
+    updatedAt: "2025-08-17T00:00:00.000Z",
+    presets: {
+      slide: { extends: "hero", aspectRatio: "16:9" },
+    },
+  },
+  images: {
+    ziapour_giveh: {
+      src: "https://res.cloudinary.com/image-solar/image/upload/v1743141424/ziapour/ziapour_w_giveh_he78dy.png",
+      caption: "Ziapour in professional attire and giveh",
+      tags: ["portrait", "1950s"],
+      metadata: { artist: "Jalil Ziapour", year: 1952 },
+    },
+  },
+};
+
+const manager = new DatasetManager(dataset);
+const useAddon = process.argv.includes("--addon");
+
+const slides = manager
+  .getImagesByTag("1950s")
+  .map((image) =>
+    useAddon
+      ? [
+          "---",
+          "layout: dataset-image",
+          `image: ${image.id}`,
+          "preset: slide",
+          "---",
+          "",
+          `# ${image.caption}`,
+        ].join("\n")
+      : ["---", "", manager.renderImage(image.id, "slide")].join("\n")
+  );
+
+console.log(slides.join("\n\n"));
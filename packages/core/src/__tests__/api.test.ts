@@ -0,0 +1,373 @@
+import { DatasetApi } from "../api";
+import { DatasetManager } from "../dataset";
+import { MemoryStorage } from "../storage";
+import { ApiChange, ApiRequest, ImageDataset } from "../types";
+import { FIXTURE_VERSION, fixtureDataset } from "./fixtures";
+
+const base = "https://res.cloudinary.com/image-solar/image/upload";
+
+const sampleImages: ImageDataset["images"] = {
+  ziapour_khorus_jangi: {
+    src: `${base}/v1743152775/ziapour/Khorous_Jangi_1_nx7omy.png`,
+    caption: "Khorus Jangi magazine cover",
+    metadata: { artist: "Jalil Ziapour", year: 1949 },
+    tags: ["magazine", "1940s"],
+  },
+  ziapour_giveh: {
+    src: `${base}/v1743141424/ziapour/ziapour_w_giveh_he78dy.png`,
+    caption: "Ziapour in giveh",
+    metadata: { artist: "Jalil Ziapour", year: 1952 },
+    tags: ["portrait"],
+  },
+  picasso_rooster: {
+    src: "https://example.com/rooster.png",
+    caption: "A Rooster",
+    metadata: { artist: "Pablo Picasso", year: 1948 },
+    tags: ["rooster", "1940s"],
+  },
+};
+
+const sampleMetadata = { description: "Iranian Modern Art" };
+
+describe("DatasetApi", () => {
+  let manager: DatasetManager;
+  let api: DatasetApi;
+  const get = (url: string, headers: ApiRequest["headers"] = {}) =>
+    api.handle({ method: "GET", url, headers });
+
+  beforeEach(() => {
+    manager = new DatasetManager(fixtureDataset(sampleImages, sampleMetadata));
+    api = new DatasetApi({ art: manager });
+  });
+
+  test("should list datasets and get images by ID", () => {
+    expect(get("/datasets").body).toEqual({
+      datasets: [
+        {
+          name: "art",
+          version: FIXTURE_VERSION,
+          updatedAt: "2025-08-17T00:00:00.000Z",
+          description: "Iranian Modern Art",
+          imageCount: 3,
+        },
+      ],
+    });
+
+    const response = get("/datasets/art/images/picasso_rooster/");
+    expect(response.status).toBe(200);
+    expect(response.headers).toMatchObject({
+      "Content-Type": "application/json; charset=utf-8",
+      ETag: `"art@${FIXTURE_VERSION}"`,
+      "Access-Control-Allow-Origin": "*",
+    });
+    expect(response.body).toMatchObject({
+      id: "picasso_rooster",
+      caption: "A Rooster",
+    });
+
+    expect(get("/datasets/art/tags").body).toEqual({
+      tags: ["1940s", "magazine", "portrait", "rooster"],
+    });
+    expect(get("/datasets/art/artists").body).toEqual({
+      artists: ["Jalil Ziapour", "Pablo Picasso"],
+    });
+  });
+
+  test("should search with filters and pagination", () => {
+    const response = get(
+      "/datasets/art/search?q=magazine%20OR%20rooster&tags=1940s&sort=year&limit=1&offset=1"
+    );
+
+    expect(response.body).toMatchObject({
+      query: "magazine OR rooster",
+      total: 2,
+      offset: 1,
+      limit: 1,
+      results: [{ id: "ziapour_khorus_jangi" }],
+    });
+
+    const page = get("/datasets/art/images?limit=2").body as {
+      total: number;
+      results: object[];
+    };
+    expect(page.total).toBe(3);
+    expect(page.results).toHaveLength(2);
+    expect(page.results[0]).not.toHaveProperty("score");
+
+    expect(get("/datasets/art/images?limit=500").body).toMatchObject({
+      limit: DatasetApi.MAX_LIMIT,
+    });
+  });
+
+  test("should redirect to the transformed image URL", () => {
+    const response = get("/datasets/art/images/ziapour_giveh/src?preset=hero");
+
+    expect(response.status).toBe(302);
+    expect(response.headers.Location).toBe(
+      manager.getSlideImage("ziapour_giveh", { preset: "hero" })
+    );
+    expect(response.headers.Location).toContain("w_1200");
+
+    const unknown = get("/datasets/art/images/ziapour_giveh/src?preset=huge");
+    expect(unknown.status).toBe(400);
+    expect(unknown.body).toEqual({ error: 'Unknown preset "huge"' });
+  });
+
+  test("should reject malformed paths", () => {
+    const response = get("/datasets/art/images/%E0%A4%A");
+
+    expect(response.status).toBe(400);
+    expect(response.body).toEqual({
+      error: "Malformed path /datasets/art/images/%E0%A4%A",
+    });
+  });
+
+  test("should answer 304 while the dataset version is unchanged", () => {
+    const { headers } = get("/datasets/art/images/ziapour_giveh");
+
+    const cached = get("/datasets/art/images/ziapour_giveh", {
+      "If-None-Match": `W/"other", ${headers.ETag}`,
+    });
+    expect(cached.status).toBe(304);
+    expect(cached.body).toBeUndefined();
+
+    manager.addImages({
+      pezeshkniya_kark: { src: "https://example.com/kark.png", caption: "" },
+    });
+    const changed = get("/datasets/art/images/ziapour_giveh", {
+      "if-none-match": headers.ETag,
+    });
+    expect(changed.status).toBe(200);
+    expect(changed.headers.ETag).not.toBe(headers.ETag);
+  });
+
+  test("should report errors as JSON", () => {
+    expect(get("/datasets/missing/tags")).toMatchObject({
+      status: 404,
+      body: { error: 'Dataset "missing" not found' },
+    });
+    expect(get("/datasets/art/images/missing").status).toBe(404);
+    expect(get("/nothing").status).toBe(404);
+    expect(get("/datasets/art/search?q=(magazine").status).toBe(400);
+    expect(get("/datasets/art/images?limit=-1").body).toEqual({
+      error: "limit must be a non-negative integer",
+    });
+    expect(api.handle({ method: "DELETE", url: "/datasets/art" }).status).toBe(
+      405
+    );
+
+    const head = api.handle({ method: "HEAD", url: "/datasets/art" });
+    expect(head.status).toBe(200);
+    expect(head.body).toBeUndefined();
+  });
+});
+
+describe("DatasetApi writes", () => {
+  const token = { Authorization: "Bearer secret" };
+  let manager: DatasetManager;
+  let api: DatasetApi;
+  let changes: ApiChange[];
+
+  const write = (
+    method: string,
+    url: string,
+    body?: unknown,
+    headers: ApiRequest["headers"] = {}
+  ) =>
+    api.handle({
+      method,
+      url,
+      body,
+      headers: {
+        ...token,
+        "If-Match": `"art@${manager.getMetadata().version}"`,
+        ...headers,
+      },
+    });
+
+  beforeEach(() => {
+    manager = new DatasetManager(fixtureDataset(sampleImages, sampleMetadata));
+    changes = [];
+    api = new DatasetApi(
+      { art: manager },
+      {
+        tokens: { secret: "editor@example.com" },
+        onChange: (change) => changes.push(change),
+      }
+    );
+  });
+
+  test("should require a bearer token and a current If-Match", () => {
+    const image = { id: "kark", src: "https://example.com/kark.png" };
+
+    expect(
+      new DatasetApi({ art: manager }).handle({
+        method: "POST",
+        url: "/datasets/art/images",
+        body: image,
+      }).status
+    ).toBe(403);
+
+    const anonymous = write("POST", "/datasets/art/images", image, {
+      Authorization: "Bearer wrong",
+    });
+    expect(anonymous.status).toBe(401);
+    expect(anonymous.headers["WWW-Authenticate"]).toBe("Bearer");
+
+    expect(
+      api.handle({
+        method: "POST",
+        url: "/datasets/art/images",
+        body: image,
+        headers: token,
+      }).status
+    ).toBe(428);
+    expect(
+      write("POST", "/datasets/art/images", image, {
+        "If-Match": '"art@v2020-01-01T00-00-00-000Z"',
+      })
+    ).toMatchObject({
+      status: 412,
+      body: { details: { version: FIXTURE_VERSION } },
+    });
+
+    expect(manager.getImage("kark")).toBeNull();
+    expect(changes).toEqual([]);
+  });
+
+  test("should create, update and delete images with audited changes", () => {
+    const created = write("POST", "/datasets/art/images", {
+      id: "kark",
+      src: "https://example.com/kark.png",
+      caption: "Kark",
+      metadata: { artist: "Bahman Mohasses", year: 1960 },
+      message: "Add Kark",
+    });
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ id: "kark", caption: "Kark" });
+    expect(created.headers.ETag).toBe(`"art@${manager.getMetadata().version}"`);
+    expect(manager.getMetadata().version).not.toBe(FIXTURE_VERSION);
+    expect(changes[0].audit).toMatchObject({
+      identity: "editor@example.com",
+      dataset: "art",
+      action: "create",
+      ids: ["kark"],
+      previousVersion: FIXTURE_VERSION,
+      version: manager.getMetadata().version,
+      message: "Add Kark",
+    });
+    expect(changes[0].dataset.images.kark).toBeDefined();
+
+    expect(
+      write("POST", "/datasets/art/images", { id: "kark", src: "x" }).status
+    ).toBe(409);
+
+    const patched = write("PATCH", "/datasets/art/images/kark", {
+      caption: "Kark (rooster)",
+      metadata: { year: null, medium: "oil" },
+    });
+    expect(patched.body).toMatchObject({
+      caption: "Kark (rooster)",
+      metadata: { artist: "Bahman Mohasses", medium: "oil" },
+    });
+    expect(manager.getImage("kark")?.metadata).not.toHaveProperty("year");
+
+    const replaced = write("PUT", "/datasets/art/images/kark", {
+      src: "https://example.com/kark-2.png",
+      caption: "Kark",
+    });
+    expect(replaced.status).toBe(200);
+    expect(manager.getImage("kark")?.metadata?.artist).toBeUndefined();
+
+    expect(write("DELETE", "/datasets/art/images/kark").body).toEqual({
+      deleted: "kark",
+    });
+    expect(manager.getImage("kark")).toBeNull();
+    expect(changes.map((change) => change.audit.action)).toEqual([
+      "create",
+      "update",
+      "update",
+      "delete",
+    ]);
+  });
+
+  test("should reject invalid images", () => {
+    const response = write("PATCH", "/datasets/art/images/ziapour_giveh", {
+      src: 42,
+    });
+
+    expect(response.status).toBe(422);
+    expect((response.body as { details: object[] }).details).not.toEqual([]);
+    expect(write("POST", "/datasets/art/images", "text").status).toBe(400);
+    expect(write("DELETE", "/datasets/art/images/missing").status).toBe(404);
+    expect(changes).toEqual([]);
+  });
+
+  test("should add and remove tags in bulk", () => {
+    const response = write("POST", "/datasets/art/tags", {
+      query: "ziapour",
+      add: ["Ziapour"],
+      remove: ["MAGAZINE"],
+    });
+
+    expect((response.body as { updated: string[] }).updated.sort()).toEqual([
+      "ziapour_giveh",
+      "ziapour_khorus_jangi",
+    ]);
+    expect(manager.getImage("ziapour_khorus_jangi")?.tags).toEqual([
+      "1940s",
+      "Ziapour",
+    ]);
+    expect(changes).toHaveLength(1);
+    expect(changes[0].audit.ids).toHaveLength(2);
+
+    // Nothing changes, so nothing is committed
+    const version = manager.getMetadata().version;
+    write("POST", "/datasets/art/tags", {
+      ids: ["ziapour_giveh"],
+      add: ["ziapour"],
+    });
+    expect(manager.getMetadata().version).toBe(version);
+    expect(changes).toHaveLength(1);
+
+    expect(
+      write("POST", "/datasets/art/tags", { ids: ["missing"], add: ["x"] })
+        .status
+    ).toBe(400);
+  });
+
+  test("should roll back when the change cannot be saved", () => {
+    const storage = new MemoryStorage();
+    manager = new DatasetManager(fixtureDataset(sampleImages, sampleMetadata), {
+      storage,
+      datasetPath: "art.json",
+    });
+    api = new DatasetApi(
+      { art: manager },
+      {
+        tokens: { secret: "editor@example.com" },
+        onChange: () => {
+          throw new Error("disk full");
+        },
+      }
+    );
+    const setDataset = jest.spyOn(api, "setDataset");
+
+    const response = write("DELETE", "/datasets/art/images/ziapour_giveh");
+    expect(response).toMatchObject({
+      status: 500,
+      body: { error: "Change was not saved: disk full" },
+    });
+    expect(
+      api.handle({ method: "GET", url: "/datasets/art/images/ziapour_giveh" })
+        .headers.ETag
+    ).toBe(`"art@${FIXTURE_VERSION}"`);
+
+    // The restored manager still saves where the original did
+    const [[, restored]] = setDataset.mock.calls;
+    expect(restored.getOptions()).toMatchObject({
+      storage,
+      datasetPath: "art.json",
+    });
+  });
+});
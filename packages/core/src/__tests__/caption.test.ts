@@ -0,0 +1,164 @@
+import { CaptionFormatter } from "../caption";
+import { DatasetManager } from "../dataset";
+import { ImageDataset } from "../types";
+import iranianArt from "../../../iranian-art-dataset/iranian-modern-art-v1.json";
+
+describe("CaptionFormatter", () => {
+  test("should render inline Markdown to HTML", () => {
+    expect(
+      CaptionFormatter.toHtml(
+        "Pablo Picasso, *A Rooster*, 1948, **pastel** and ~~oil~~ `paper`"
+      )
+    ).toBe(
+      "Pablo Picasso, <em>A Rooster</em>, 1948, <strong>pastel</strong> and <del>oil</del> <code>paper</code>"
+    );
+    expect(CaptionFormatter.toHtml("_Rooster_ from cultural_documents")).toBe(
+      "<em>Rooster</em> from cultural_documents"
+    );
+    expect(CaptionFormatter.toHtml("2 \\* 3 and 4 * 5")).toBe(
+      "2 * 3 and 4 * 5"
+    );
+    expect(CaptionFormatter.toHtml("Line one\nline two")).toBe(
+      "Line one<br>line two"
+    );
+  });
+
+  test("should render emphasis nested in other emphasis", () => {
+    expect(CaptionFormatter.toHtml("**a *b* c** and *d **e** f*")).toBe(
+      "<strong>a <em>b</em> c</strong> and <em>d <strong>e</strong> f</em>"
+    );
+    expect(CaptionFormatter.toHtml("~~__old__ _title_~~")).toBe(
+      "<del><strong>old</strong> <em>title</em></del>"
+    );
+    expect(CaptionFormatter.toPlainText("**a *b* c**")).toBe("a b c");
+  });
+
+  test("should escape HTML and drop unsafe links", () => {
+    expect(
+      CaptionFormatter.toHtml(
+        '<img src=x onerror="alert(1)"> [*museum*](https://example.com/?a=1&b=2)'
+      )
+    ).toBe(
+      '&lt;img src=x onerror=&quot;alert(1)&quot;&gt; <a href="https://example.com/?a=1&amp;b=2"><em>museum</em></a>'
+    );
+    expect(CaptionFormatter.toHtml("[click](javascript:alert`1`)")).toBe(
+      "click"
+    );
+    expect(CaptionFormatter.toHtml("[x](javascript:alert(1)) end")).toBe(
+      "x end"
+    );
+    expect(
+      CaptionFormatter.toHtml(
+        "[bath](https://en.wikipedia.org/wiki/Bath_(1949))"
+      )
+    ).toBe('<a href="https://en.wikipedia.org/wiki/Bath_(1949)">bath</a>');
+  });
+
+  test("should keep inline HTML emphasis", () => {
+    const { caption } = iranianArt.images.ziapour_public_bath;
+
+    expect(CaptionFormatter.toHtml(caption)).toBe(
+      "Jalil Ziāpour, <em>Public Bath (Hamām-i Umūmī)</em>, 1949, oil on canvas, TMoCA"
+    );
+    expect(CaptionFormatter.toPlainText(caption)).toBe(
+      "Jalil Ziāpour, Public Bath (Hamām-i Umūmī), 1949, oil on canvas, TMoCA"
+    );
+    expect(CaptionFormatter.toHtml("<B>bold</B> and `<i>code</i>`")).toBe(
+      "<strong>bold</strong> and <code>&lt;i&gt;code&lt;/i&gt;</code>"
+    );
+    expect(CaptionFormatter.toHtml('<i class="x">a</i> <b>open')).toBe(
+      "&lt;i class=&quot;x&quot;&gt;a&lt;/i&gt; &lt;b&gt;open"
+    );
+    expect(
+      CaptionFormatter.toPlainText('<span class="x">Gilaki</span> <b>Girl')
+    ).toBe("Gilaki Girl");
+  });
+
+  test("should extract plain text", () => {
+    expect(
+      CaptionFormatter.toPlainText(
+        "Hūshang Pezeshkniya, *Rooster*,\n  the late 1960s, [source](https://example.com)"
+      )
+    ).toBe("Hūshang Pezeshkniya, Rooster, the late 1960s, source");
+    expect(CaptionFormatter.toPlainText("A \\*literal\\* star")).toBe(
+      "A *literal* star"
+    );
+  });
+
+  test("should format credit lines", () => {
+    const metadata = {
+      artist: "Pablo Picasso",
+      title: "A Rooster",
+      year: 1948,
+      medium: "pastel and paper",
+      dimensions: "77.5 × 54 cm",
+      collection: "",
+    };
+
+    expect(CaptionFormatter.formatCredits(metadata)).toBe(
+      "Pablo Picasso, A Rooster, 1948, pastel and paper, 77.5 × 54 cm"
+    );
+    expect(
+      CaptionFormatter.formatCredits(metadata, {
+        fields: ["artist", "title", "collection"],
+        format: "html",
+      })
+    ).toBe("Pablo Picasso, <em>A Rooster</em>");
+    expect(
+      CaptionFormatter.formatCredits(
+        { artist: "Jalil_Ziapour", title: "Khorus Jangi" },
+        { format: "markdown", separator: " · " }
+      )
+    ).toBe("Jalil\\_Ziapour · *Khorus Jangi*");
+  });
+});
+
+describe("DatasetManager captions", () => {
+  const dataset: ImageDataset = {
+    metadata: {
+      version: "v2025-08-17T00-00-00-000Z",
+      createdAt: "2025-08-17T00:00:00.000Z",
+      updatedAt: "2025-08-17T00:00:00.000Z",
+    },
+    images: {
+      picasso_rooster: {
+        src: "https://example.com/rooster.png",
+        caption: "Pablo Picasso, *A Rooster*, 1948",
+        metadata: { artist: "Pablo Picasso" },
+      },
+    },
+  };
+
+  test("should return HTML and plain-text captions", () => {
+    const image = new DatasetManager(dataset).getImageWithCaption(
+      "picasso_rooster"
+    );
+
+    expect(image?.caption).toBe("Pablo Picasso, *A Rooster*, 1948");
+    expect(image?.captionHtml).toBe("Pablo Picasso, <em>A Rooster</em>, 1948");
+    expect(image?.captionText).toBe("Pablo Picasso, A Rooster, 1948");
+  });
+
+  test("should render Markdown captions in figures", () => {
+    const html = new DatasetManager(dataset).renderImage("picasso_rooster");
+
+    expect(html).toContain('alt="Pablo Picasso, A Rooster, 1948"');
+    expect(html).toContain(
+      "<figcaption>Pablo Picasso, <em>A Rooster</em>, 1948"
+    );
+  });
+
+  test("should search captions without their markup", () => {
+    const manager = new DatasetManager(dataset);
+
+    const caption = manager
+      .search("rooster")[0]
+      .matches.find((match) => match.field === "caption");
+
+    expect(caption?.highlight).toBe(
+      "Pablo Picasso, A <mark>Rooster</mark>, 1948"
+    );
+    expect(manager.searchImages('caption:"A Rooster"')).toHaveLength(1);
+    expect(manager.searchImages('"*A Rooster*"')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,211 @@
+import { CloudinaryUrl } from "../cloudinary";
+import { TransformOptions } from "../types";
+import { ImageUtils, TransformValidationError } from "../utils";
+
+const datasetUrl =
+  "https://res.cloudinary.com/image-solar/image/upload/c_scale,f_auto,h_1441/v1743152775/ziapour/khorus_jangi.png";
+
+describe("CloudinaryUrl", () => {
+  test("should parse URLs with transformations, version and folders", () => {
+    expect(CloudinaryUrl.parse(datasetUrl)).toEqual({
+      origin: "https://res.cloudinary.com",
+      cloudName: "image-solar",
+      resourceType: "image",
+      deliveryType: "upload",
+      transformations: [{ c: "scale", f: "auto", h: "1441" }],
+      version: "1743152775",
+      publicId: "ziapour/khorus_jangi",
+      format: "png",
+    });
+  });
+
+  test("should parse chained transformations and signatures", () => {
+    const parts = CloudinaryUrl.parse(
+      "https://res.cloudinary.com/demo/image/authenticated/s--abc123--/c_crop,w_500/e_sepia/my_folder/sample.jpg?_a=1"
+    );
+
+    expect(parts).toMatchObject({
+      deliveryType: "authenticated",
+      signature: "s--abc123--",
+      transformations: [{ c: "crop", w: "500" }, { e: "sepia" }],
+      publicId: "my_folder/sample",
+      query: "?_a=1",
+    });
+    expect(parts?.version).toBeUndefined();
+  });
+
+  test("should read the cloud name from private CDN hosts", () => {
+    const url = "https://demo-res.cloudinary.com/image/upload/v1/sample.jpg";
+
+    expect(CloudinaryUrl.parse(url)?.cloudName).toBe("demo");
+    expect(CloudinaryUrl.transform(url, "w_300")).toBe(
+      "https://demo-res.cloudinary.com/image/upload/w_300/v1/sample.jpg"
+    );
+  });
+
+  test("should keep the extension of fetched URLs", () => {
+    const parts = CloudinaryUrl.parse(
+      "https://res.cloudinary.com/demo/image/fetch/w_200/https://example.com/a.jpg"
+    );
+
+    expect(parts?.transformations).toEqual([{ w: "200" }]);
+    expect(parts?.publicId).toBe("https://example.com/a.jpg");
+    expect(parts?.format).toBeUndefined();
+  });
+
+  test("should reject URLs that are not Cloudinary delivery URLs", () => {
+    expect(CloudinaryUrl.parse("https://example.com/a.jpg")).toBeNull();
+    expect(
+      CloudinaryUrl.parse("https://res.cloudinary.com/demo/image/upload/")
+    ).toBeNull();
+    expect(CloudinaryUrl.parse("not a url")).toBeNull();
+  });
+
+  test("should rebuild parsed URLs unchanged", () => {
+    [
+      datasetUrl,
+      "https://res.cloudinary.com/demo/video/upload/so_2,du_5/dog.mp4",
+      "https://res.cloudinary.com/demo/image/upload/sample",
+    ].forEach((url) => {
+      expect(CloudinaryUrl.build(CloudinaryUrl.parse(url)!)).toBe(url);
+    });
+  });
+
+  test("should merge transformations with override semantics", () => {
+    expect(CloudinaryUrl.transform(datasetUrl, "w_800,f_auto,q_auto")).toBe(
+      "https://res.cloudinary.com/image-solar/image/upload/c_scale,f_auto,h_1441,w_800,q_auto/v1743152775/ziapour/khorus_jangi.png"
+    );
+    expect(
+      CloudinaryUrl.transform(
+        "https://res.cloudinary.com/demo/image/upload/c_crop,w_500/e_sepia/sample.jpg",
+        "e_grayscale/r_max"
+      )
+    ).toBe(
+      "https://res.cloudinary.com/demo/image/upload/c_crop,w_500/e_grayscale/r_max/sample.jpg"
+    );
+  });
+
+  test("should drop signatures when transforming", () => {
+    expect(
+      CloudinaryUrl.transform(
+        "https://res.cloudinary.com/demo/image/upload/s--abc123--/v1/sample.jpg",
+        "w_100"
+      )
+    ).toBe("https://res.cloudinary.com/demo/image/upload/w_100/v1/sample.jpg");
+  });
+
+  test("should apply transforms through ImageUtils", () => {
+    expect(
+      ImageUtils.applyTransform(datasetUrl, {
+        width: 300,
+        height: 200,
+        crop: "fill",
+      })
+    ).toBe(
+      "https://res.cloudinary.com/image-solar/image/upload/c_fill,f_auto,h_200,w_300/v1743152775/ziapour/khorus_jangi.png"
+    );
+  });
+
+  test("should extract the full public ID", () => {
+    expect(ImageUtils.extractImageId(datasetUrl)).toBe("ziapour/khorus_jangi");
+    expect(
+      ImageUtils.extractImageId(
+        "https://res.cloudinary.com/demo/image/upload/v1/sample.jpg"
+      )
+    ).toBe("sample");
+    expect(ImageUtils.extractImageId("https://example.com/a.jpg")).toBeNull();
+  });
+});
+
+describe("Cloudinary transform options", () => {
+  const url = "https://res.cloudinary.com/demo/image/upload/v1/sample.jpg";
+
+  test("should serialize extended options", () => {
+    expect(
+      ImageUtils.buildTransformString({
+        width: 800,
+        crop: "fill",
+        format: "avif",
+        aspectRatio: "16:9",
+        dpr: 2,
+        radius: "max",
+        background: "#1a2b3c",
+        rotate: -10,
+      })
+    ).toBe("w_800,c_fill,f_avif,ar_16:9,dpr_2.0,r_max,b_rgb:1a2b3c,a_-10");
+  });
+
+  test("should chain effects and overlays as separate steps", () => {
+    expect(
+      ImageUtils.buildTransformString({
+        width: 600,
+        effects: { grayscale: true, blur: 300, sharpen: true },
+        overlays: [
+          {
+            text: "Khorus Jangi, 1950",
+            fontSize: 24,
+            fontWeight: "bold",
+            color: "white",
+            gravity: "south",
+            y: 20,
+          },
+          { image: "logos/watermark", width: 80, opacity: 50 },
+        ],
+      })
+    ).toBe(
+      [
+        "w_600",
+        "e_grayscale",
+        "e_blur:300",
+        "e_sharpen",
+        "l_text:Arial_24_bold:Khorus%20Jangi%252C%201950,co_white",
+        "fl_layer_apply,g_south,y_20",
+        "l_logos:watermark,w_80,o_50",
+        "fl_layer_apply",
+      ].join("/")
+    );
+  });
+
+  test("should append overlays instead of merging them", () => {
+    expect(
+      ImageUtils.applyTransform(url, {
+        overlays: [{ text: "Hi", gravity: "north_west" }],
+      })
+    ).toBe(
+      "https://res.cloudinary.com/demo/image/upload/l_text:Arial_32:Hi/fl_layer_apply,g_north_west/v1/sample.jpg"
+    );
+    expect(
+      CloudinaryUrl.transform(
+        "https://res.cloudinary.com/demo/image/upload/w_300/l_logo/fl_layer_apply/sample.jpg",
+        "w_200"
+      )
+    ).toBe(
+      "https://res.cloudinary.com/demo/image/upload/w_300/l_logo/fl_layer_apply/w_200/sample.jpg"
+    );
+  });
+
+  test("should reject invalid options", () => {
+    const invalid: [TransformOptions, string][] = [
+      [{ dpr: 8 }, 'Invalid transform option "dpr"'],
+      [{ quality: 0 }, 'Invalid transform option "quality"'],
+      [{ aspectRatio: "wide" }, 'Invalid transform option "aspectRatio"'],
+      [{ background: "rgb(0,0,0)" }, 'Invalid transform option "background"'],
+      [{ effects: { sepia: 500 } }, 'Invalid transform option "effects.sepia"'],
+      [
+        { overlays: [{ text: " " }] },
+        'Invalid transform option "overlays[0].text"',
+      ],
+      [
+        { format: "gif" } as unknown as TransformOptions,
+        'Invalid transform option "format"',
+      ],
+    ];
+
+    invalid.forEach(([options, message]) => {
+      expect(() => ImageUtils.buildTransformString(options)).toThrow(message);
+      expect(() => ImageUtils.applyTransform(url, options)).toThrow(
+        TransformValidationError
+      );
+    });
+  });
+});
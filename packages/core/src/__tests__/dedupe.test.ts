@@ -0,0 +1,170 @@
+import { DatasetManager } from "../dataset";
+import { DuplicateDetector } from "../dedupe";
+import { ImageDataset, TechnicalMetadata } from "../types";
+import { FIXTURE_VERSION, fixtureDataset } from "./fixtures";
+
+const base = "https://res.cloudinary.com/image-solar/image/upload";
+
+function technical(
+  perceptualHash: string,
+  hash = `sha256:${perceptualHash.padEnd(64, "0")}`,
+  width = 1000
+): TechnicalMetadata {
+  return {
+    width,
+    height: 800,
+    aspectRatio: width / 800,
+    format: "png",
+    bytes: 1000,
+    hash,
+    perceptualHash,
+    inspectedAt: "2025-08-17T00:00:00.000Z",
+  };
+}
+
+const sampleImages: ImageDataset["images"] = {
+  ziapour_khorus_jangi: {
+    src: `${base}/c_scale,h_1441/v1743152775/ziapour/Khorous_Jangi_1_nx7omy.png`,
+    caption: "Khorus Jangi cover",
+    metadata: { artist: "Jalil Ziapour", year: 1949 },
+    tags: ["ziapour", "magazine"],
+    technical: technical("f0f0f0f0f0f0f0f0"),
+  },
+  khorus_jangi_crop: {
+    src: `${base}/c_crop,w_800/v1743152775/ziapour/Khorous_Jangi_1_nx7omy.png`,
+    caption: "",
+    metadata: { collection: "cultural_documents", year: "" },
+    tags: ["Magazine", "1940s"],
+    cloudinaryTransforms: { hero: "c_fill,w_1600" },
+  },
+  az_shar_e_sobh: {
+    src: `${base}/v1743152775/ziapour/Khorous_Jangi_2_qklcre.png`,
+    caption: "From the City of Morning",
+    technical: technical("f0f0f0f0f0f0f0f3", undefined, 2000),
+  },
+  picasso_rooster: {
+    src: "https://example.com/rooster.png",
+    caption: "A Rooster",
+  },
+  picasso_rooster_copy: {
+    src: "http://EXAMPLE.com/rooster.png/#detail",
+    caption: "A Rooster (copy)",
+  },
+  ziapour_giveh: {
+    src: `${base}/v1743141424/ziapour/ziapour_w_giveh_he78dy.png`,
+    caption: "Giveh",
+    technical: technical("0f0f0f0f0f0f0f0f"),
+  },
+};
+
+describe("DuplicateDetector", () => {
+  test("should normalize sources and count differing bits", () => {
+    expect(
+      DuplicateDetector.normalizeSrc("HTTPS://Example.com:443/a/b.png/#x")
+    ).toBe("example.com/a/b.png");
+    expect(DuplicateDetector.normalizeSrc("not a url ")).toBe("not a url");
+    expect(DuplicateDetector.hammingDistance("ff00", "0f01")).toBe(5);
+  });
+
+  test("should group images by src, public ID and perceptual hash", () => {
+    const groups = DuplicateDetector.find(fixtureDataset(sampleImages).images);
+
+    expect(groups).toEqual([
+      {
+        canonical: "ziapour_khorus_jangi",
+        ids: ["ziapour_khorus_jangi", "khorus_jangi_crop", "az_shar_e_sobh"],
+        matches: [
+          {
+            a: "ziapour_khorus_jangi",
+            b: "khorus_jangi_crop",
+            criterion: "publicId",
+          },
+          {
+            a: "ziapour_khorus_jangi",
+            b: "az_shar_e_sobh",
+            criterion: "perceptual",
+            distance: 2,
+          },
+        ],
+      },
+      {
+        canonical: "picasso_rooster",
+        ids: ["picasso_rooster", "picasso_rooster_copy"],
+        matches: [
+          { a: "picasso_rooster", b: "picasso_rooster_copy", criterion: "src" },
+        ],
+      },
+    ]);
+  });
+
+  test("should honour criteria and the perceptual threshold", () => {
+    const { images } = fixtureDataset(sampleImages);
+
+    expect(
+      DuplicateDetector.find(images, { by: ["perceptual"], threshold: 1 })
+    ).toEqual([]);
+    expect(
+      DuplicateDetector.find(images, { by: ["perceptual"] }).map(
+        (group) => group.ids
+      )
+    ).toEqual([["ziapour_khorus_jangi", "az_shar_e_sobh"]]);
+
+    // Identical files under different URLs
+    images.ziapour_giveh.technical = technical(
+      "0f0f0f0f0f0f0f0f",
+      images.ziapour_khorus_jangi.technical?.hash
+    );
+    expect(DuplicateDetector.find(images, { by: ["hash"] })[0].matches).toEqual(
+      [{ a: "ziapour_khorus_jangi", b: "ziapour_giveh", criterion: "hash" }]
+    );
+  });
+
+  test("should prefer the image with the most metadata, then pixels", () => {
+    const { images } = fixtureDataset(sampleImages);
+    delete images.ziapour_khorus_jangi.metadata;
+    delete images.ziapour_khorus_jangi.tags;
+
+    const [group] = DuplicateDetector.find(images, { by: ["perceptual"] });
+    expect(group.canonical).toBe("az_shar_e_sobh");
+  });
+});
+
+describe("DatasetManager duplicates", () => {
+  test("should merge tags and metadata into the canonical image", () => {
+    const manager = new DatasetManager(fixtureDataset(sampleImages));
+    const results = manager.mergeDuplicates(
+      manager.findDuplicates({ by: ["publicId"] }),
+      "Merge Khorus Jangi crops"
+    );
+
+    expect(results).toEqual([
+      { canonical: "ziapour_khorus_jangi", removed: ["khorus_jangi_crop"] },
+    ]);
+    expect(manager.getImage("khorus_jangi_crop")).toBeNull();
+
+    const merged = manager.getImage("ziapour_khorus_jangi");
+    expect(merged?.caption).toBe("Khorus Jangi cover");
+    expect(merged?.metadata).toEqual({
+      artist: "Jalil Ziapour",
+      year: 1949,
+      collection: "cultural_documents",
+    });
+    expect(merged?.tags).toEqual(["ziapour", "magazine", "1940s"]);
+    expect(merged?.cloudinaryTransforms).toEqual({ hero: "c_fill,w_1600" });
+    expect(merged?.technical?.perceptualHash).toBe("f0f0f0f0f0f0f0f0");
+    expect(manager.searchImages("cultural_documents")).toHaveLength(1);
+    expect(manager.getMetadata().version).not.toBe(FIXTURE_VERSION);
+  });
+
+  test("should merge every group by default", () => {
+    const manager = new DatasetManager(fixtureDataset(sampleImages));
+    manager.mergeDuplicates();
+
+    expect(Object.keys(manager.exportDataset().images)).toEqual([
+      "ziapour_khorus_jangi",
+      "picasso_rooster",
+      "ziapour_giveh",
+    ]);
+    expect(manager.findDuplicates()).toEqual([]);
+  });
+});
@@ -0,0 +1,132 @@
+import { DatasetDiff } from "../diff";
+import { ImageDataset } from "../types";
+import { fixtureDataset } from "./fixtures";
+
+const sampleImages: ImageDataset["images"] = {
+  picasso_rooster: {
+    src: "https://example.com/rooster.png",
+    caption: "Pablo Picasso, *A Rooster*, 1948",
+    metadata: { artist: "Pablo Picasso", year: 1948 },
+    tags: ["picasso", "1940s"],
+    cloudinaryTransforms: { slide: "w_800" },
+  },
+  ziapour_giveh: {
+    src: "https://example.com/giveh.png",
+    caption: "Jalil Ziapour, Giveh",
+  },
+};
+
+describe("DatasetDiff", () => {
+  test("should report no changes for equal datasets", () => {
+    const diff = DatasetDiff.compare(
+      fixtureDataset(sampleImages),
+      fixtureDataset(sampleImages)
+    );
+    expect(DatasetDiff.hasChanges(diff)).toBe(false);
+  });
+
+  test("should treat missing and empty containers as equal", () => {
+    const after = fixtureDataset(sampleImages);
+    after.images.ziapour_giveh.metadata = {};
+    after.images.ziapour_giveh.tags = [];
+
+    const diff = DatasetDiff.compare(fixtureDataset(sampleImages), after);
+    expect(DatasetDiff.hasChanges(diff)).toBe(false);
+  });
+
+  test("should report added, removed and modified images", () => {
+    const before = fixtureDataset(sampleImages);
+    const after = fixtureDataset(sampleImages);
+    delete after.images.ziapour_giveh;
+    after.images.new_image = {
+      src: "https://example.com/new.png",
+      caption: "New",
+    };
+    after.images.picasso_rooster.caption = "Pablo Picasso, A Rooster, 1948";
+    after.images.picasso_rooster.metadata = {
+      artist: "Pablo Picasso",
+      year: 1948,
+      medium: "pastel and paper",
+    };
+    after.images.picasso_rooster.tags = ["picasso", "1940s", "reference"];
+    after.images.picasso_rooster.cloudinaryTransforms = {};
+
+    const diff = DatasetDiff.compare(before, after);
+
+    expect(diff.added.map((image) => image.id)).toEqual(["new_image"]);
+    expect(diff.removed.map((image) => image.id)).toEqual(["ziapour_giveh"]);
+    expect(diff.modified).toHaveLength(1);
+    expect(
+      diff.modified[0].changes.map(({ path, field, key, kind }) => ({
+        path,
+        field,
+        key,
+        kind,
+      }))
+    ).toEqual([
+      {
+        path: "/images/picasso_rooster/caption",
+        field: "caption",
+        key: undefined,
+        kind: "changed",
+      },
+      {
+        path: "/images/picasso_rooster/metadata/medium",
+        field: "metadata",
+        key: "medium",
+        kind: "added",
+      },
+      {
+        path: "/images/picasso_rooster/tags",
+        field: "tags",
+        key: undefined,
+        kind: "changed",
+      },
+      {
+        path: "/images/picasso_rooster/cloudinaryTransforms/slide",
+        field: "cloudinaryTransforms",
+        key: "slide",
+        kind: "removed",
+      },
+    ]);
+  });
+
+  test("should report dataset metadata changes", () => {
+    const after = fixtureDataset(sampleImages);
+    after.metadata.version = "v2025-08-18T00-00-00-000Z";
+    after.metadata.description = "Updated";
+
+    const diff = DatasetDiff.compare(fixtureDataset(sampleImages), after);
+    expect(diff.to).toBe("v2025-08-18T00-00-00-000Z");
+    expect(diff.metadata.map((change) => change.path)).toEqual([
+      "/metadata/version",
+      "/metadata/description",
+    ]);
+  });
+
+  test("should produce a JSON Patch that reproduces the target", () => {
+    const before = fixtureDataset(sampleImages);
+    const after = fixtureDataset(sampleImages);
+    after.metadata.version = "v2025-08-18T00-00-00-000Z";
+    delete after.images.picasso_rooster.metadata;
+    after.images.ziapour_giveh.metadata = { artist: "Jalil Ziapour" };
+    after.images.ziapour_giveh.tags = ["ziapour"];
+    after.images["a/b"] = { src: "https://example.com/ab.png", caption: "AB" };
+
+    const patch = DatasetDiff.toJSONPatch(DatasetDiff.compare(before, after));
+
+    expect(patch).toContainEqual({
+      op: "add",
+      path: "/images/a~1b",
+      value: after.images["a/b"],
+    });
+    expect(DatasetDiff.applyPatch(before, patch)).toEqual(after);
+  });
+
+  test("should compare values regardless of key order", () => {
+    expect(DatasetDiff.isEqual({ a: 1, b: [1, 2] }, { b: [1, 2], a: 1 })).toBe(
+      true
+    );
+    expect(DatasetDiff.isEqual([1, 2], [2, 1])).toBe(false);
+  });
+});
@@ -0,0 +1,242 @@
+import { DatasetExporter } from "../export";
+import { DatasetImporter } from "../import";
+import { DatasetManager } from "../dataset";
+import { ImageDataset } from "../types";
+import { fixtureDataset } from "./fixtures";
+
+const sampleImages: ImageDataset["images"] = {
+  picasso_rooster: {
+    src: "https://example.com/rooster.png",
+    caption: "Pablo Picasso, *A Rooster*",
+    metadata: {
+      artist: "Pablo Picasso",
+      title: "A Rooster",
+      year: 1948,
+      medium: "pastel & paper",
+      src: "gift",
+    },
+    tags: ["rooster", "1940s"],
+    technical: {
+      width: 1200,
+      height: 1600,
+      aspectRatio: 0.75,
+      format: "png",
+      bytes: 1000,
+      hash: "sha256:00",
+      inspectedAt: "2025-08-17T00:00:00.000Z",
+    },
+  },
+  ziapour_giveh: {
+    src: "https://example.com/giveh.jpg?w=800",
+    caption: 'Jalil Ziapour in "giveh", Tehran',
+  },
+};
+
+const sampleMetadata = { description: "Iranian modern art" };
+
+describe("DatasetExporter", () => {
+  test("should build a IIIF Presentation 3.0 manifest", () => {
+    const manifest = DatasetExporter.toIIIF(
+      fixtureDataset(sampleImages, sampleMetadata),
+      {
+        baseUrl: "https://iiif.example.org/iranian-art/",
+        language: "en",
+      }
+    );
+
+    expect(manifest).toMatchObject({
+      "@context": "http://iiif.io/api/presentation/3/context.json",
+      id: "https://iiif.example.org/iranian-art/manifest.json",
+      type: "Manifest",
+      label: { en: ["Iranian modern art"] },
+    });
+    expect(manifest.items).toHaveLength(2);
+
+    const [rooster, giveh] = manifest.items;
+    expect(rooster).toMatchObject({
+      id: "https://iiif.example.org/iranian-art/canvas/picasso_rooster",
+      label: { en: ["A Rooster"] },
+      summary: { en: ["Pablo Picasso, A Rooster"] },
+      width: 1200,
+      height: 1600,
+    });
+    expect(rooster.metadata).toContainEqual({
+      label: { en: ["tags"] },
+      value: { none: ["rooster", "1940s"] },
+    });
+    expect(rooster.items[0].items[0]).toEqual({
+      id: "https://iiif.example.org/iranian-art/canvas/picasso_rooster/page/image",
+      type: "Annotation",
+      motivation: "painting",
+      body: {
+        id: "https://example.com/rooster.png",
+        type: "Image",
+        format: "image/png",
+        width: 1200,
+        height: 1600,
+      },
+      target: "https://iiif.example.org/iranian-art/canvas/picasso_rooster",
+    });
+    expect(giveh.width).toBe(DatasetExporter.DEFAULT_CANVAS_SIZE);
+    expect(giveh.items[0].items[0].body).toEqual({
+      id: "https://example.com/giveh.jpg?w=800",
+      type: "Image",
+      format: "image/jpeg",
+    });
+
+    expect(() =>
+      DatasetExporter.toIIIF(fixtureDataset(sampleImages, sampleMetadata))
+    ).toThrow("base URL");
+  });
+
+  test("should write CSV that imports back to the same images", () => {
+    const csv = DatasetExporter.toCSV(
+      fixtureDataset(sampleImages, sampleMetadata)
+    );
+
+    expect(csv.split("\n")[0]).toBe(
+      "id,src,caption,tags,artist,title,year,medium,metadata.src"
+    );
+    expect(csv).toContain('"Jalil Ziapour in ""giveh"", Tehran"');
+
+    const { images, issues } = DatasetImporter.fromDelimited(csv);
+    expect(issues).toEqual([]);
+    expect(images.picasso_rooster).toEqual({
+      src: "https://example.com/rooster.png",
+      caption: "Pablo Picasso, *A Rooster*",
+      metadata: fixtureDataset(sampleImages, sampleMetadata).images
+        .picasso_rooster.metadata,
+      tags: ["rooster", "1940s"],
+    });
+    expect(images.ziapour_giveh.caption).toBe(
+      'Jalil Ziapour in "giveh", Tehran'
+    );
+
+    expect(
+      DatasetExporter.toCSV(fixtureDataset(sampleImages, sampleMetadata), {
+        delimiter: "\t",
+      }).split("\n")[2]
+    ).toBe(
+      "ziapour_giveh\thttps://example.com/giveh.jpg?w=800\t" +
+        '"Jalil Ziapour in ""giveh"", Tehran"\t\t\t\t\t\t'
+    );
+
+    // Tags containing separators survive as a JSON list
+    const dataset = fixtureDataset(sampleImages, sampleMetadata);
+    const tags = ["Hamām, Tehran", "1950s; 1960s", "portrait"];
+    dataset.images.ziapour_giveh.tags = tags;
+    [",", "\t"].forEach((delimiter) => {
+      const exported = DatasetExporter.toCSV(dataset, { delimiter });
+      expect(
+        DatasetImporter.fromDelimited(exported, { delimiter }).images
+          .ziapour_giveh.tags
+      ).toEqual(tags);
+    });
+  });
+
+  test("should write JSON Lines and export search results", () => {
+    const manager = new DatasetManager(
+      fixtureDataset(sampleImages, sampleMetadata)
+    );
+    const jsonl = DatasetExporter.toJsonLines(manager.searchImages("rooster"));
+
+    expect(jsonl.trim().split("\n")).toHaveLength(1);
+    expect(JSON.parse(jsonl)).toMatchObject({
+      id: "picasso_rooster",
+      src: "https://example.com/rooster.png",
+    });
+    expect(
+      DatasetImporter.fromJsonLines(jsonl).images.picasso_rooster.tags
+    ).toEqual(["rooster", "1940s"]);
+  });
+
+  test("should describe images as schema.org VisualArtwork", () => {
+    const document = DatasetExporter.toJsonLd(
+      fixtureDataset(sampleImages, sampleMetadata),
+      {
+        baseUrl: "https://example.org/art",
+      }
+    );
+
+    expect(document["@context"]).toEqual({
+      "@vocab": "https://schema.org/",
+      dc: "http://purl.org/dc/terms/",
+    });
+    expect(document["@graph"][0]).toEqual({
+      "@id": "https://example.org/art/picasso_rooster",
+      "@type": "VisualArtwork",
+      identifier: "picasso_rooster",
+      name: "A Rooster",
+      description: "Pablo Picasso, A Rooster",
+      image: {
+        "@type": "ImageObject",
+        contentUrl: "https://example.com/rooster.png",
+        encodingFormat: "image/png",
+        width: 1200,
+        height: 1600,
+      },
+      creator: { "@type": "Person", name: "Pablo Picasso" },
+      dateCreated: "1948",
+      artMedium: "pastel & paper",
+      keywords: ["rooster", "1940s"],
+      "dc:identifier": "picasso_rooster",
+      "dc:title": "A Rooster",
+      "dc:creator": "Pablo Picasso",
+      "dc:date": "1948",
+      "dc:subject": ["rooster", "1940s"],
+      "dc:type": "StillImage",
+    });
+    expect(
+      DatasetExporter.toJsonLd(fixtureDataset(sampleImages, sampleMetadata), {
+        language: "en",
+      })["@graph"][1].name
+    ).toEqual({
+      "@value": 'Jalil Ziapour in "giveh", Tehran',
+      "@language": "en",
+    });
+  });
+
+  test("should write escaped BibTeX entries", () => {
+    expect(
+      DatasetExporter.toBibTeX(fixtureDataset(sampleImages, sampleMetadata))
+    ).toBe(
+      [
+        "@misc{picasso_rooster,",
+        "  author = {Pablo Picasso},",
+        "  title = {A Rooster},",
+        "  year = {1948},",
+        "  howpublished = {\\url{https://example.com/rooster.png}},",
+        "  note = {pastel \\& paper},",
+        "  keywords = {rooster, 1940s}",
+        "}",
+        "",
+        "@misc{ziapour_giveh,",
+        '  title = {Jalil Ziapour in "giveh", Tehran},',
+        "  howpublished = {\\url{https://example.com/giveh.jpg?w=800}}",
+        "}",
+        "",
+      ].join("\n")
+    );
+    expect(DatasetExporter.escapeTeX("50% of $5 {a_b}")).toBe(
+      "50\\% of \\$5 \\{a\\_b\\}"
+    );
+  });
+
+  test("should dispatch on the format name", () => {
+    const dataset = fixtureDataset(sampleImages, sampleMetadata);
+
+    expect(DatasetExporter.export(dataset, "jsonl")).toBe(
+      DatasetExporter.toJsonLines(dataset)
+    );
+    expect(
+      JSON.parse(
+        DatasetExporter.export(dataset, "iiif", {
+          baseUrl: "https://example.org",
+        })
+      ).type
+    ).toBe("Manifest");
+    expect(() => DatasetExporter.export(dataset, "xml" as never)).toThrow(
+      'Unknown export format "xml"'
+    );
+  });
+});
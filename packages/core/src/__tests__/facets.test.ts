@@ -0,0 +1,122 @@
+import { DatasetManager } from "../dataset";
+import { DatasetFacets } from "../facets";
+import { ImageDataset } from "../types";
+import { fixtureDataset } from "./fixtures";
+
+const sampleImages: ImageDataset["images"] = {
+  khorus_jangi: {
+    src: "https://example.com/khorus.png",
+    caption: "Jalil Ziapour, Khorus Jangi magazine cover",
+    metadata: { artist: "Jalil Ziapour", year: 1949, medium: "print" },
+    tags: ["ziapour", "magazine"],
+  },
+  public_bath: {
+    src: "https://example.com/bath.png",
+    caption: "Jalil Ziāpour, Public Bath",
+    metadata: {
+      artist: "Jalil Ziāpour",
+      year: 1949,
+      medium: "oil on canvas",
+      collection: "TMoCA",
+    },
+    tags: ["Ziāpour", "painting"],
+  },
+  rooster: {
+    src: "https://example.com/rooster.png",
+    caption: "Hushang Pezeshkniya, Rooster",
+    metadata: {
+      artist: "Hushang Pezeshkniya",
+      year: "late 1960s",
+      medium: "Oil on canvas",
+    },
+    tags: ["painting"],
+  },
+  tile: {
+    src: "https://example.com/tile.png",
+    caption: "Qajar tile",
+  },
+};
+
+describe("DatasetFacets", () => {
+  test("should count values per facet, merging equivalent spellings", () => {
+    const manager = new DatasetManager(fixtureDataset(sampleImages));
+    const facets = DatasetFacets.compute(manager.getAllImages());
+
+    expect(facets.tags).toEqual([
+      { value: "painting", count: 2 },
+      { value: "ziapour", count: 2 },
+      { value: "magazine", count: 1 },
+    ]);
+    expect(facets.artist).toEqual([
+      { value: "Jalil Ziapour", count: 2 },
+      { value: "Hushang Pezeshkniya", count: 1 },
+    ]);
+    expect(facets.medium[0]).toEqual({ value: "oil on canvas", count: 2 });
+    expect(facets.collection).toEqual([{ value: "TMoCA", count: 1 }]);
+    expect(facets.decade).toEqual([
+      { value: "1940s", count: 2 },
+      { value: "1960s", count: 1 },
+    ]);
+  });
+
+  test("should honor fields, limit and minCount", () => {
+    const images = new DatasetManager(
+      fixtureDataset(sampleImages)
+    ).getAllImages();
+
+    const facets = DatasetFacets.compute(images, {
+      fields: ["tags"],
+      limit: 1,
+    });
+    expect(facets.tags).toEqual([{ value: "painting", count: 2 }]);
+    expect(facets.artist).toEqual([]);
+
+    expect(
+      DatasetFacets.compute(images, { minCount: 2 }).tags.map(
+        (facet) => facet.value
+      )
+    ).toEqual(["painting", "ziapour"]);
+  });
+
+  test("should derive decades from loose years", () => {
+    expect(DatasetFacets.getDecade(1949)).toBe("1940s");
+    expect(DatasetFacets.getDecade("c. 1880")).toBe("1880s");
+    expect(DatasetFacets.getDecade("۱۳۲۸")).toBe("1320s");
+    expect(DatasetFacets.getDecade("undated")).toBeNull();
+  });
+});
+
+describe("DatasetManager facets and stats", () => {
+  test("should compute facets for a search result set", () => {
+    const manager = new DatasetManager(fixtureDataset(sampleImages));
+    const facets = manager.getFacets("tag:painting", { limit: 1 });
+
+    expect(facets.artist).toEqual([
+      { value: "Hushang Pezeshkniya", count: 1 },
+      { value: "Jalil Ziāpour", count: 1 },
+    ]);
+    expect(facets.decade.map((facet) => facet.value)).toEqual([
+      "1940s",
+      "1960s",
+    ]);
+  });
+
+  test("should summarize coverage and tag distribution", () => {
+    const stats = new DatasetManager(fixtureDataset(sampleImages)).getStats();
+
+    expect(stats.imageCount).toBe(4);
+    expect(stats.coverage.artist).toEqual({ present: 3, missing: ["tile"] });
+    expect(stats.coverage.dimensions.present).toBe(0);
+    expect(stats.coverage.collection.missing).toEqual([
+      "khorus_jangi",
+      "rooster",
+      "tile",
+    ]);
+    expect(stats.tags).toEqual({
+      distinct: 3,
+      untagged: 1,
+      averagePerImage: 1.25,
+    });
+    expect(stats.facets.tags).toHaveLength(3);
+  });
+});
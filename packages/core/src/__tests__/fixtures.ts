@@ -0,0 +1,23 @@
+import { DatasetMetadata, ImageDataset } from "../types";
+
+/** Version of every fixture dataset, so ETags and histories are stable */
+export const FIXTURE_VERSION = "v2025-08-17T00-00-00-000Z";
+
+/**
+ * A dataset with fixed version and dates around a copy of the given images,
+ * so tests can share one set of images and change each dataset freely
+ */
+export function fixtureDataset(
+  images: ImageDataset["images"],
+  metadata: Partial<DatasetMetadata> = {}
+): ImageDataset {
+  return {
+    metadata: {
+      version: FIXTURE_VERSION,
+      createdAt: "2025-08-17T00:00:00.000Z",
+      updatedAt: "2025-08-17T00:00:00.000Z",
+      ...metadata,
+    },
+    images: JSON.parse(JSON.stringify(images)),
+  };
+}
@@ -0,0 +1,175 @@
+import { runInNewContext } from "vm";
+import { DatasetManager } from "../dataset";
+import { GalleryBuilder } from "../gallery";
+import { GalleryFile, ImageDataset } from "../types";
+import { fixtureDataset } from "./fixtures";
+
+const base = "https://res.cloudinary.com/image-solar/image/upload";
+
+const sampleImages: ImageDataset["images"] = {
+  ziapour_khorus_jangi: {
+    src: `${base}/v1743152775/ziapour/Khorous_Jangi_1_nx7omy.png`,
+    caption: "Jalil Ziapour, *Khorus Jangi* cover",
+    metadata: { artist: "Jalil Ziapour", year: 1949, medium: "print" },
+    tags: ["magazine", "Ziapour"],
+  },
+  ziapour_giveh: {
+    src: `${base}/v1743141424/ziapour/ziapour_w_giveh_he78dy.png`,
+    caption: "Ziāpour in giveh <script>",
+    metadata: { artist: "jalil ziapour", year: "late 1950s" },
+    tags: ["ziapour", "نقاشی"],
+  },
+  picasso_rooster: {
+    src: "https://example.com/rooster.png",
+    caption: "",
+    metadata: { title: "A Rooster" },
+  },
+};
+
+const sampleMetadata = { description: "Iranian Modern Art" };
+
+function findFile(files: GalleryFile[], path: string): string {
+  const file = files.find((candidate) => candidate.path === path);
+  if (!file) throw new Error(`${path} was not generated`);
+  return file.content;
+}
+
+describe("GalleryBuilder", () => {
+  const files = GalleryBuilder.build(
+    new DatasetManager(fixtureDataset(sampleImages, sampleMetadata))
+  );
+
+  test("should generate index, detail and browse pages", () => {
+    expect(files.map((file) => file.path)).toEqual([
+      "style.css",
+      "search.js",
+      "search-index.js",
+      "index.html",
+      "images/ziapour_khorus_jangi.html",
+      "images/ziapour_giveh.html",
+      "images/picasso_rooster.html",
+      "tags/index.html",
+      "tags/ziapour.html",
+      "tags/magazine.html",
+      "tags/نقاشی.html",
+      "artists/index.html",
+      "artists/jalil-ziapour.html",
+      "decades/index.html",
+      "decades/1940s.html",
+      "decades/1950s.html",
+    ]);
+  });
+
+  test("should show thumbnails from the thumbnail preset on the index", () => {
+    const index = findFile(files, "index.html");
+
+    expect(index).toContain("<title>Iranian Modern Art</title>");
+    expect(index).toContain(
+      '<li class="card" data-id="ziapour_giveh"><a href="images/ziapour_giveh.html">'
+    );
+    expect(index).toContain("/w_300,h_200,c_fill,q_auto,f_auto/");
+    expect(index).toContain('<script src="search-index.js"></script>');
+  });
+
+  test("should render captions, metadata and links on detail pages", () => {
+    const giveh = findFile(files, "images/ziapour_giveh.html");
+
+    expect(giveh).toContain(
+      "<title>Ziāpour in giveh · Iranian Modern Art</title>"
+    );
+    expect(giveh).not.toContain("<script>");
+    expect(giveh).toContain("<figure");
+    expect(giveh).toContain(
+      '<dt>artist</dt><dd dir="auto"><a href="../artists/jalil-ziapour.html">jalil ziapour</a></dd>'
+    );
+    expect(giveh).toContain('(<a href="../decades/1950s.html">1950s</a>)');
+    expect(giveh).toContain(
+      `<a href="../tags/${encodeURIComponent("نقاشی")}.html">نقاشی</a>`
+    );
+    expect(giveh).toContain('rel="prev"');
+    expect(giveh).toContain('<a href="picasso_rooster.html" rel="next">');
+
+    expect(findFile(files, "images/picasso_rooster.html")).toContain(
+      '<h1 dir="auto">A Rooster</h1>'
+    );
+  });
+
+  test("should group spellings that normalize alike", () => {
+    const artist = findFile(files, "artists/jalil-ziapour.html");
+
+    expect(artist).toContain("<h1>Jalil Ziapour</h1>");
+    expect(artist).toContain("2 image(s)");
+    expect(findFile(files, "tags/index.html")).toContain(
+      '<a href="ziapour.html">Ziapour</a> (2)'
+    );
+  });
+
+  test("should filter cards with the prebuilt search index", () => {
+    const index = GalleryBuilder.buildSearchIndex(
+      new DatasetManager(
+        fixtureDataset(sampleImages, sampleMetadata)
+      ).getAllImages()
+    );
+    expect(index.ids).toEqual([
+      "ziapour_khorus_jangi",
+      "ziapour_giveh",
+      "picasso_rooster",
+    ]);
+    expect(index.tokens.ziapour).toEqual([0, 1]);
+    expect(index.tokens.rooster).toEqual([2]);
+
+    const cards = index.ids.map((id) => ({
+      hidden: false,
+      getAttribute: () => id,
+    }));
+    const input = {
+      value: "",
+      listener: () => undefined as void,
+      addEventListener(_: string, listener: () => void) {
+        this.listener = listener;
+      },
+    };
+    const status = { textContent: "" };
+    const window = {
+      GALLERY_SEARCH: index,
+      location: { search: "?q=Zia" },
+    };
+
+    runInNewContext(findFile(files, "search.js"), {
+      window,
+      URLSearchParams,
+      document: {
+        getElementById: (id: string) => (id === "search" ? input : status),
+        querySelectorAll: () => cards,
+      },
+    });
+    expect(cards.map((card) => card.hidden)).toEqual([false, false, true]);
+    expect(status.textContent).toBe("2 of 3 images");
+
+    // Diacritics are folded and every term must match
+    input.value = "ZIĀPOUR giv";
+    input.listener();
+    expect(cards.map((card) => card.hidden)).toEqual([true, false, true]);
+
+    input.value = " ";
+    input.listener();
+    expect(cards.map((card) => card.hidden)).toEqual([false, false, false]);
+    expect(status.textContent).toBe("");
+  });
+
+  test("should reject IDs that cannot be used as file names", () => {
+    const manager = new DatasetManager(
+      fixtureDataset({
+        "../../evil": { src: "https://example.com/evil.png", caption: "" },
+        'x" onclick="alert(1)': {
+          src: "https://example.com/x.png",
+          caption: "",
+        },
+      })
+    );
+
+    expect(() => GalleryBuilder.build(manager)).toThrow(
+      'Image IDs can only contain letters, digits, "_" and "-": "../../evil", "x\\" onclick=\\"alert(1)"'
+    );
+  });
+});
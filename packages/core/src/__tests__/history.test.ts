@@ -0,0 +1,160 @@
+import { DatasetManager } from "../dataset";
+import { VersionHistory } from "../history";
+import { VersionManager } from "../version";
+import { ImageDataset } from "../types";
+import { fixtureDataset } from "./fixtures";
+
+const sampleImages: ImageDataset["images"] = {
+  test_image_1: {
+    src: "https://example.com/one.jpg",
+    caption: "Test Image 1",
+    tags: ["test"],
+  },
+};
+
+const sampleMetadata = { schemaVersion: "1.0.0" };
+
+describe("VersionManager.generateVersion", () => {
+  test("should generate a version newer than the given one", () => {
+    const future = "v2999-01-01T00-00-00-000Z";
+    const next = VersionManager.generateVersion(future);
+
+    expect(next).toBe("v2999-01-01T00-00-00-001Z");
+    expect(VersionManager.compareVersions(next, future)).toBeGreaterThan(0);
+  });
+});
+
+describe("VersionHistory", () => {
+  test("should bump the version on every mutation", () => {
+    const manager = new DatasetManager(
+      fixtureDataset(sampleImages, sampleMetadata)
+    );
+    const before = manager.getMetadata().version;
+
+    manager.addImages({
+      new_image: { src: "https://example.com/new.jpg", caption: "New" },
+    });
+    const afterAdd = manager.getMetadata().version;
+    manager.removeImage("new_image");
+    const afterRemove = manager.getMetadata().version;
+
+    expect(VersionManager.compareVersions(afterAdd, before)).toBeGreaterThan(0);
+    expect(
+      VersionManager.compareVersions(afterRemove, afterAdd)
+    ).toBeGreaterThan(0);
+  });
+
+  test("should record every change made through a manager", () => {
+    const history = new VersionHistory();
+    const manager = new DatasetManager(
+      fixtureDataset(sampleImages, sampleMetadata),
+      { history }
+    );
+
+    manager.addImages(
+      { new_image: { src: "https://example.com/new.jpg", caption: "New" } },
+      "Add new image"
+    );
+    manager.removeImage("test_image_1");
+
+    const versions = history.list();
+    expect(versions).toHaveLength(3);
+    expect(versions.map((version) => version.kind)).toEqual([
+      "snapshot",
+      "changes",
+      "changes",
+    ]);
+    expect(versions.map((version) => version.imageCount)).toEqual([1, 2, 1]);
+    expect(versions[1].message).toBe("Add new image");
+    expect(history.latest()).toBe(manager.getMetadata().version);
+  });
+
+  test("should check out past versions", () => {
+    const history = new VersionHistory();
+    const manager = new DatasetManager(
+      fixtureDataset(sampleImages, sampleMetadata),
+      { history }
+    );
+    const [initial] = history.list();
+
+    manager.updateDataset({
+      images: {
+        test_image_1: { src: "https://example.com/one.jpg", caption: "Edited" },
+      },
+    });
+
+    const past = history.checkout(initial.version);
+    expect(past.getImage("test_image_1")?.caption).toBe("Test Image 1");
+    expect(manager.getImage("test_image_1")?.caption).toBe("Edited");
+  });
+
+  test("should roll back as a new version", () => {
+    const history = new VersionHistory();
+    const manager = new DatasetManager(
+      fixtureDataset(sampleImages, sampleMetadata),
+      { history }
+    );
+    const [initial] = history.list();
+    manager.removeImage("test_image_1");
+
+    const restored = history.rollback(initial.version);
+
+    expect(restored.images.test_image_1.caption).toBe("Test Image 1");
+    expect(history.latest()).toBe(restored.metadata.version);
+    expect(history.list()).toHaveLength(3);
+    expect(history.list()[2].message).toBe(`Rollback to ${initial.version}`);
+
+    // Rolling back to the same content again records nothing
+    const again = history.rollback(initial.version);
+    expect(again.metadata.version).toBe(restored.metadata.version);
+    expect(history.list()).toHaveLength(3);
+  });
+
+  test("should skip unchanged datasets and reject stale versions", () => {
+    const history = new VersionHistory();
+    const dataset = fixtureDataset(sampleImages, sampleMetadata);
+
+    expect(history.record(dataset)).not.toBeNull();
+    expect(
+      history.record(fixtureDataset(sampleImages, sampleMetadata))
+    ).toBeNull();
+
+    dataset.images.test_image_1.caption = "Changed";
+    expect(() => history.record(dataset)).toThrow(/must be newer/);
+  });
+
+  test("should store periodic snapshots and survive serialization", () => {
+    const history = new VersionHistory(
+      { entries: [] },
+      { snapshotInterval: 2 }
+    );
+    const manager = new DatasetManager(
+      fixtureDataset(sampleImages, sampleMetadata),
+      { history }
+    );
+    for (let i = 0; i < 4; i++) {
+      manager.addImages({
+        [`image_${i}`]: {
+          src: `https://example.com/${i}.jpg`,
+          caption: `${i}`,
+        },
+      });
+    }
+
+    const restored = VersionHistory.fromJSON(
+      JSON.parse(JSON.stringify(history.toJSON()))
+    );
+    const kinds = restored.list().map((version) => version.kind);
+
+    expect(kinds).toEqual([
+      "snapshot",
+      "changes",
+      "snapshot",
+      "changes",
+      "snapshot",
+    ]);
+    expect(restored.getDataset(restored.latest() as string)).toEqual(
+      manager.exportDataset()
+    );
+  });
+});
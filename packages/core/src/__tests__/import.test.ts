@@ -0,0 +1,217 @@
+import { DatasetManager } from "../dataset";
+import { DatasetImporter, ImportConflictError } from "../import";
+import { ImageDataset, ImportConflictPolicy } from "../types";
+import { FIXTURE_VERSION, fixtureDataset } from "./fixtures";
+
+const sampleImages: ImageDataset["images"] = {
+  ziapour_giveh: {
+    src: "https://example.com/giveh.png",
+    caption: "Ziapour in giveh",
+    metadata: { artist: "Jalil Ziapour", year: 1952 },
+    tags: ["portrait"],
+  },
+};
+
+describe("DatasetImporter", () => {
+  test("should parse quoted CSV fields", () => {
+    expect(
+      DatasetImporter.parseDelimited(
+        '﻿id,caption\r\na,"Picasso, ""A Rooster""\nline two"\n\nb,plain\n'
+      )
+    ).toEqual([
+      ["id", "caption"],
+      ["a", 'Picasso, "A Rooster"\nline two'],
+      ["b", "plain"],
+    ]);
+    expect(DatasetImporter.parseDelimited("a\tb,c", "\t")).toEqual([
+      ["a", "b,c"],
+    ]);
+  });
+
+  test("should map CSV columns to image fields", () => {
+    const csv = [
+      "ID,Image URL,Caption,Artist,Year,Tags,Publisher,Notes",
+      'picasso_rooster,https://example.com/rooster.png,"Pablo Picasso, *A Rooster*",Pablo Picasso,1948,"rooster; 1940s",,keep',
+      ",https://example.com/Khorus%20Jangi%20(1).png,Khorus Jangi,,1949,magazine,Khorus Jangi society,",
+      "bad,,No source,,,,,",
+      "picasso_rooster,https://example.com/again.png,Again,,,,,",
+      "too,many,fields,,,,,,,",
+      ",https://example.com/100%.png,Broken,,,,,",
+    ].join("\n");
+
+    const { images, issues } = DatasetImporter.fromDelimited(csv, {
+      mapping: {
+        "Image URL": "src",
+        Publisher: "metadata.publisher",
+        Notes: "",
+      },
+    });
+
+    expect(images).toEqual({
+      picasso_rooster: {
+        src: "https://example.com/rooster.png",
+        caption: "Pablo Picasso, *A Rooster*",
+        metadata: { artist: "Pablo Picasso", year: 1948 },
+        tags: ["rooster", "1940s"],
+      },
+      Khorus_Jangi_1: {
+        src: "https://example.com/Khorus%20Jangi%20(1).png",
+        caption: "Khorus Jangi",
+        metadata: { year: 1949, publisher: "Khorus Jangi society" },
+        tags: ["magazine"],
+      },
+    });
+    expect(issues).toEqual([
+      { source: "row 5", reason: "Expected 8 fields, found 10" },
+      { source: "row 3", reason: "Missing src" },
+      { source: "row 4", reason: 'Duplicate image ID "picasso_rooster"' },
+      {
+        source: "row 6",
+        reason: 'Malformed URL "https://example.com/100%.png"',
+      },
+    ]);
+  });
+
+  test("should read JSON Lines in the dataset's image shape", () => {
+    const jsonl = [
+      JSON.stringify({
+        id: "ziapour_sepahsalar",
+        src: "https://example.com/sepahsalar.jpg",
+        caption: "Sepahsalar Mosque",
+        metadata: { artist: "Jalil Ziapour", medium: "oil" },
+        tags: ["ziapour", "mosque"],
+        cloudinaryTransforms: { hero: "c_fill,w_1600" },
+      }),
+      "",
+      "[1, 2]",
+      "{not json",
+    ].join("\n");
+
+    const { images, issues } = DatasetImporter.fromJsonLines(jsonl);
+
+    expect(images.ziapour_sepahsalar).toEqual({
+      src: "https://example.com/sepahsalar.jpg",
+      caption: "Sepahsalar Mosque",
+      metadata: { artist: "Jalil Ziapour", medium: "oil" },
+      tags: ["ziapour", "mosque"],
+      cloudinaryTransforms: { hero: "c_fill,w_1600" },
+    });
+    expect(issues.map((issue) => issue.source)).toEqual(["line 3", "line 4"]);
+    expect(issues[0].reason).toBe("Expected a JSON object");
+  });
+
+  test("should derive IDs from image file names", () => {
+    const files = [
+      { name: "ziapour_public_bath.jpg" },
+      { name: "Sheybani untitled.png" },
+      { name: "notes.txt" },
+    ];
+
+    const strict = DatasetImporter.fromFiles(files, {
+      baseUrl: "https://cdn.example.com/art",
+    });
+    expect(strict.images).toEqual({
+      ziapour_public_bath: {
+        src: "https://cdn.example.com/art/ziapour_public_bath.jpg",
+        caption: "",
+      },
+    });
+    expect(strict.issues).toEqual([
+      {
+        source: "Sheybani untitled.png",
+        reason: '"Sheybani untitled" is not a valid image ID',
+      },
+      { source: "notes.txt", reason: "Not a supported image file" },
+    ]);
+
+    const slugified = DatasetImporter.fromFiles(
+      [{ name: "Sheybani untitled.png", url: "file:///art/Sheybani.png" }],
+      { slugify: true }
+    );
+    expect(slugified.images).toEqual({
+      Sheybani_untitled: { src: "file:///art/Sheybani.png", caption: "" },
+    });
+  });
+});
+
+describe("DatasetManager import", () => {
+  const incoming = {
+    ziapour_giveh: {
+      src: "https://example.com/giveh-large.png",
+      caption: "",
+      metadata: { medium: "photograph" },
+      tags: ["1950s", "Portrait"],
+    },
+    sheybani_untitled: {
+      src: "https://example.com/sheybani.png",
+      caption: "Manouchehr Sheybani, untitled",
+    },
+  };
+
+  test("should skip existing IDs by default", () => {
+    const manager = new DatasetManager(fixtureDataset(sampleImages));
+    const summary = manager.importImages(incoming);
+
+    expect(summary).toEqual({
+      added: ["sheybani_untitled"],
+      updated: [],
+      skipped: ["ziapour_giveh"],
+      renamed: {},
+    });
+    expect(manager.getImage("ziapour_giveh")?.src).toBe(
+      "https://example.com/giveh.png"
+    );
+    expect(manager.searchImages("sheybani")).toHaveLength(1);
+  });
+
+  test("should merge, overwrite or rename existing IDs", () => {
+    const merged = new DatasetManager(fixtureDataset(sampleImages));
+    merged.importImages(incoming, "merge");
+    expect(merged.getImage("ziapour_giveh")).toEqual({
+      src: "https://example.com/giveh-large.png",
+      caption: "Ziapour in giveh",
+      metadata: { artist: "Jalil Ziapour", year: 1952, medium: "photograph" },
+      tags: ["portrait", "1950s"],
+      cloudinaryTransforms: {},
+    });
+
+    const overwritten = new DatasetManager(fixtureDataset(sampleImages));
+    expect(overwritten.importImages(incoming, "overwrite").updated).toEqual([
+      "ziapour_giveh",
+    ]);
+    expect(overwritten.getImage("ziapour_giveh")?.metadata).toEqual({
+      medium: "photograph",
+    });
+
+    const renamed = new DatasetManager(fixtureDataset(sampleImages));
+    expect(renamed.importImages(incoming, "rename").renamed).toEqual({
+      ziapour_giveh: "ziapour_giveh_2",
+    });
+    expect(renamed.getImage("ziapour_giveh_2")?.tags).toEqual([
+      "1950s",
+      "Portrait",
+    ]);
+  });
+
+  test("should reject the whole import on conflicts with the error policy", () => {
+    const manager = new DatasetManager(fixtureDataset(sampleImages));
+
+    expect(() => manager.importImages(incoming, "error")).toThrow(
+      ImportConflictError
+    );
+    expect(() => manager.importImages(incoming, "error")).toThrow(
+      "Images already exist: ziapour_giveh"
+    );
+    expect(manager.getImage("sheybani_untitled")).toBeNull();
+    expect(manager.getMetadata().version).toBe(FIXTURE_VERSION);
+  });
+
+  test("should reject unknown conflict policies", () => {
+    const manager = new DatasetManager(fixtureDataset(sampleImages));
+
+    expect(() =>
+      manager.importImages(incoming, "replace" as ImportConflictPolicy)
+    ).toThrow('Unknown conflict policy "replace"');
+    expect(manager.getImage("sheybani_untitled")).toBeNull();
+  });
+});
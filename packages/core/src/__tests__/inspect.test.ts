@@ -0,0 +1,292 @@
+import { createHash } from "crypto";
+import { deflateSync } from "zlib";
+import { DatasetManager } from "../dataset";
+import { DatasetValidator } from "../validation";
+import { ImageInspector } from "../inspect";
+import { ImageDataset } from "../types";
+import { FIXTURE_VERSION, fixtureDataset } from "./fixtures";
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  // The inspector does not verify CRCs
+  return Buffer.concat([length, Buffer.from(type), data, Buffer.alloc(4)]);
+}
+
+/**
+ * Grayscale PNG whose brightness is given per pixel, using a different
+ * filter on every row
+ */
+function createPng(
+  width: number,
+  height: number,
+  shade: (x: number, y: number) => number
+): Uint8Array {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 0; // grayscale
+
+  const rows: number[] = [];
+  for (let y = 0; y < height; y++) {
+    // Sub filter on odd rows, none on even ones
+    const filter = y % 2;
+    rows.push(filter);
+    for (let x = 0; x < width; x++) {
+      const value = shade(x, y);
+      const left = x > 0 ? shade(x - 1, y) : 0;
+      rows.push(filter === 1 ? (value - left) & 0xff : value);
+    }
+  }
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", header),
+    chunk("IDAT", deflateSync(Buffer.from(rows))),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+function createJpeg(width: number, height: number, orientation = 1) {
+  const exif = Buffer.from([
+    ...Buffer.from("Exif\0\0", "binary"),
+    ...[0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08],
+    ...[0x00, 0x01],
+    ...[0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01],
+    ...[0x00, orientation, 0x00, 0x00],
+  ]);
+  return new Uint8Array([
+    ...[0xff, 0xd8],
+    ...[0xff, 0xe1, 0x00, exif.length + 2],
+    ...exif,
+    ...[0xff, 0xc0, 0x00, 0x11, 0x08],
+    ...[height >> 8, height & 0xff, width >> 8, width & 0xff],
+    ...new Array(12).fill(0),
+  ]);
+}
+
+function box(type: string, data: number[]): number[] {
+  const size = 8 + data.length;
+  return [0, 0, size >> 8, size & 0xff, ...Buffer.from(type), ...data];
+}
+
+function u32(value: number): number[] {
+  return [
+    value >>> 24,
+    (value >> 16) & 0xff,
+    (value >> 8) & 0xff,
+    value & 0xff,
+  ];
+}
+
+describe("ImageInspector", () => {
+  test("should read the format and size of each supported format", () => {
+    const riff = (chunkType: string, data: number[]) =>
+      new Uint8Array([
+        ...Buffer.from("RIFF\0\0\0\0WEBP"),
+        ...Buffer.from(chunkType),
+        ...new Array(4).fill(0),
+        ...data,
+      ]);
+
+    expect(ImageInspector.readHeader(createPng(32, 16, () => 0))).toEqual({
+      format: "png",
+      width: 32,
+      height: 16,
+    });
+    expect(ImageInspector.readHeader(createJpeg(400, 300))).toEqual({
+      format: "jpeg",
+      width: 400,
+      height: 300,
+    });
+    expect(
+      ImageInspector.readHeader(
+        new Uint8Array([...Buffer.from("GIF89a"), 0x80, 0x02, 0xe0, 0x01])
+      )
+    ).toEqual({ format: "gif", width: 640, height: 480 });
+    expect(
+      ImageInspector.readHeader(
+        riff("VP8 ", [0, 0, 0, 0x9d, 0x01, 0x2a, 0x20, 0x03, 0x58, 0x02])
+      )
+    ).toEqual({ format: "webp", width: 800, height: 600 });
+    // 14-bit width - 1 and height - 1, little-endian
+    const lossless = (799 | (599 << 14)) >>> 0;
+    expect(
+      ImageInspector.readHeader(
+        riff("VP8L", [
+          0x2f,
+          lossless & 0xff,
+          (lossless >> 8) & 0xff,
+          (lossless >> 16) & 0xff,
+          lossless >>> 24,
+        ])
+      )
+    ).toEqual({ format: "webp", width: 800, height: 600 });
+    expect(
+      ImageInspector.readHeader(
+        riff("VP8X", [0, 0, 0, 0, 0x7f, 0x07, 0x00, 0x37, 0x04, 0x00])
+      )
+    ).toEqual({ format: "webp", width: 1920, height: 1080 });
+
+    const avif = new Uint8Array([
+      ...box("ftyp", [
+        ...Buffer.from("avif"),
+        0,
+        0,
+        0,
+        0,
+        ...Buffer.from("mif1"),
+      ]),
+      ...box("ispe", [0, 0, 0, 0, ...u32(160), ...u32(90)]),
+      ...box("ispe", [0, 0, 0, 0, ...u32(3840), ...u32(2160)]),
+    ]);
+    expect(ImageInspector.readHeader(avif)).toEqual({
+      format: "avif",
+      width: 3840,
+      height: 2160,
+    });
+
+    expect(ImageInspector.readHeader(new Uint8Array([1, 2, 3]))).toBeNull();
+  });
+
+  test("should swap JPEG dimensions for rotated EXIF orientations", () => {
+    expect(ImageInspector.readHeader(createJpeg(400, 300, 6))).toMatchObject({
+      width: 300,
+      height: 400,
+    });
+    expect(ImageInspector.readHeader(createJpeg(400, 300, 3))).toMatchObject({
+      width: 400,
+      height: 300,
+    });
+  });
+
+  test("should decode PNGs and compute perceptual hashes", async () => {
+    const gradient = (width: number) => (x: number) =>
+      Math.round((x / (width - 1)) * 255);
+
+    const decode = async (png: Uint8Array) => {
+      const pixels = await ImageInspector.decodePng(png);
+      if (!pixels) throw new Error("PNG was not decoded");
+      return pixels;
+    };
+
+    const small = await decode(createPng(36, 16, gradient(36)));
+    expect(small.width).toBe(36);
+    expect(Array.from(small.data.subarray(4, 8))).toEqual([7, 7, 7, 255]);
+
+    const large = await decode(createPng(180, 80, gradient(180)));
+    const reversed = await decode(
+      createPng(180, 80, (x) => 255 - gradient(180)(x))
+    );
+
+    expect(ImageInspector.perceptualHash(small)).toBe("ffffffffffffffff");
+    expect(ImageInspector.perceptualHash(large)).toBe(
+      ImageInspector.perceptualHash(small)
+    );
+    expect(ImageInspector.perceptualHash(reversed)).toBe("0000000000000000");
+  });
+
+  test("should inspect an image file", async () => {
+    const png = createPng(300, 200, (x, y) => (x * y) & 0xff);
+    const technical = await ImageInspector.inspect(png);
+
+    expect(technical).toMatchObject({
+      width: 300,
+      height: 200,
+      aspectRatio: 1.5,
+      format: "png",
+      bytes: png.length,
+      hash: `sha256:${createHash("sha256").update(png).digest("hex")}`,
+    });
+    expect(technical.perceptualHash).toMatch(/^[0-9a-f]{16}$/);
+
+    const jpeg = await ImageInspector.inspect(createJpeg(400, 300));
+    expect(jpeg.perceptualHash).toBeUndefined();
+    const decoded = await ImageInspector.inspect(createJpeg(400, 300), {
+      decode: (_, header) => ({
+        width: header.width,
+        height: header.height,
+        data: new Uint8Array(header.width * header.height * 4).fill(255),
+      }),
+    });
+    expect(decoded.perceptualHash).toBe("0000000000000000");
+
+    await expect(
+      ImageInspector.inspect(new Uint8Array([1, 2, 3]))
+    ).rejects.toThrow("Unrecognized image format");
+  });
+});
+
+describe("DatasetManager enrichment", () => {
+  const files: Record<string, Uint8Array> = {
+    "khorus.png": createPng(120, 80, (x) => x * 2),
+    "giveh.jpg": createJpeg(1024, 768),
+    "broken.png": new Uint8Array([0, 1, 2]),
+  };
+
+  const sampleImages: ImageDataset["images"] = {
+    ziapour_khorus_jangi: {
+      src: "https://example.com/khorus.png",
+      caption: "Khorus Jangi",
+    },
+    ziapour_giveh: {
+      src: "https://example.com/giveh.jpg",
+      caption: "Giveh",
+    },
+    ziapour_public_bath: {
+      src: "https://example.com/broken.png",
+      caption: "Public Bath",
+    },
+  };
+
+  test("should record technical metadata and bump the version", async () => {
+    const manager = new DatasetManager(fixtureDataset(sampleImages));
+    const load = jest.fn(
+      async (image: { src: string }) =>
+        files[image.src.slice(image.src.lastIndexOf("/") + 1)]
+    );
+
+    const results = await manager.enrich({ load });
+
+    expect(results.map((result) => [result.id, result.ok])).toEqual([
+      ["ziapour_khorus_jangi", true],
+      ["ziapour_giveh", true],
+      ["ziapour_public_bath", false],
+    ]);
+    expect(results[2].error).toBe("Unrecognized image format");
+    expect(manager.getImage("ziapour_giveh")?.technical).toMatchObject({
+      width: 1024,
+      height: 768,
+      aspectRatio: 1.3333,
+      format: "jpeg",
+    });
+    expect(manager.getMetadata().version).not.toBe(FIXTURE_VERSION);
+    expect(DatasetValidator.validate(manager.exportDataset()).valid).toBe(true);
+
+    // Already inspected images are skipped unless forced
+    load.mockClear();
+    const again = await manager.enrich({ load });
+    expect(again.filter((result) => result.inspected)).toHaveLength(1);
+    expect(load).toHaveBeenCalledTimes(1);
+
+    await manager.enrich({ load, force: true, ids: ["ziapour_giveh"] });
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  test("should keep technical metadata when a dataset is loaded", async () => {
+    const manager = new DatasetManager(fixtureDataset(sampleImages));
+    await manager.enrich({
+      load: async (image) =>
+        files[image.src.slice(image.src.lastIndexOf("/") + 1)],
+      ids: ["ziapour_khorus_jangi"],
+    });
+
+    const reloaded = DatasetManager.fromJSON(
+      JSON.parse(JSON.stringify(manager.exportDataset()))
+    );
+    expect(reloaded.getImage("ziapour_khorus_jangi")?.technical?.format).toBe(
+      "png"
+    );
+  });
+});
@@ -0,0 +1,151 @@
+import { DatasetMerge } from "../merge";
+import { ImageDataset } from "../types";
+import { VersionManager } from "../version";
+
+function createBase(): ImageDataset {
+  return {
+    metadata: {
+      version: "v2025-08-17T00-00-00-000Z",
+      createdAt: "2025-08-17T00:00:00.000Z",
+      updatedAt: "2025-08-17T00:00:00.000Z",
+      description: "Base",
+      tags: ["art"],
+    },
+    images: {
+      picasso_rooster: {
+        src: "https://example.com/rooster.png",
+        caption: "Pablo Picasso, A Rooster, 1948",
+        metadata: { artist: "Pablo Picasso", year: 1948 },
+        tags: ["picasso", "1940s"],
+      },
+      ziapour_giveh: {
+        src: "https://example.com/giveh.png",
+        caption: "Jalil Ziapour, Giveh",
+        tags: ["ziapour"],
+      },
+    },
+  };
+}
+
+function clone(dataset: ImageDataset): ImageDataset {
+  return JSON.parse(JSON.stringify(dataset));
+}
+
+describe("DatasetMerge", () => {
+  test("should merge non-overlapping edits per field", () => {
+    const base = createBase();
+    const ours = clone(base);
+    const theirs = clone(base);
+    ours.metadata.version = "v2025-08-18T00-00-00-000Z";
+    ours.images.picasso_rooster.caption = "Pablo Picasso, *A Rooster*, 1948";
+    theirs.metadata.version = "v2025-08-19T00-00-00-000Z";
+    theirs.images.picasso_rooster.metadata = {
+      artist: "Pablo Picasso",
+      year: 1948,
+      medium: "pastel and paper",
+    };
+    theirs.metadata.description = "Theirs";
+
+    const { dataset, conflicts } = DatasetMerge.merge(base, ours, theirs);
+
+    expect(conflicts).toEqual([]);
+    expect(dataset.images.picasso_rooster.caption).toBe(
+      "Pablo Picasso, *A Rooster*, 1948"
+    );
+    expect(dataset.images.picasso_rooster.metadata?.medium).toBe(
+      "pastel and paper"
+    );
+    expect(dataset.metadata.description).toBe("Theirs");
+    expect(
+      VersionManager.compareVersions(
+        dataset.metadata.version,
+        theirs.metadata.version
+      )
+    ).toBeGreaterThan(0);
+  });
+
+  test("should union tags while honoring removals", () => {
+    expect(
+      DatasetMerge.mergeTags(
+        ["picasso", "1940s"],
+        ["picasso", "1940s", "reference"],
+        ["1940s", "pastel"]
+      )
+    ).toEqual(["1940s", "reference", "pastel"]);
+  });
+
+  test("should take images added or removed on one side", () => {
+    const base = createBase();
+    const ours = clone(base);
+    const theirs = clone(base);
+    delete ours.images.ziapour_giveh;
+    theirs.images.new_image = {
+      src: "https://example.com/new.png",
+      caption: "New",
+    };
+
+    const { dataset, conflicts } = DatasetMerge.merge(base, ours, theirs);
+
+    expect(conflicts).toEqual([]);
+    expect(Object.keys(dataset.images).sort()).toEqual([
+      "new_image",
+      "picasso_rooster",
+    ]);
+  });
+
+  test("should report conflicting edits and resolve by strategy", () => {
+    const base = createBase();
+    const ours = clone(base);
+    const theirs = clone(base);
+    ours.images.picasso_rooster.metadata = { artist: "Picasso", year: 1948 };
+    theirs.images.picasso_rooster.metadata = {
+      artist: "P. Picasso",
+      year: 1948,
+    };
+
+    const merged = DatasetMerge.merge(base, ours, theirs);
+    expect(merged.conflicts).toEqual([
+      {
+        path: "/images/picasso_rooster/metadata/artist",
+        imageId: "picasso_rooster",
+        kind: "modify",
+        base: "Pablo Picasso",
+        ours: "Picasso",
+        theirs: "P. Picasso",
+        resolved: "Picasso",
+      },
+    ]);
+    expect(merged.dataset.images.picasso_rooster.metadata?.artist).toBe(
+      "Picasso"
+    );
+
+    const theirsWins = DatasetMerge.merge(base, ours, theirs, {
+      strategy: "theirs",
+    });
+    expect(theirsWins.dataset.images.picasso_rooster.metadata?.artist).toBe(
+      "P. Picasso"
+    );
+  });
+
+  test("should report delete/modify conflicts", () => {
+    const base = createBase();
+    const ours = clone(base);
+    const theirs = clone(base);
+    delete ours.images.ziapour_giveh;
+    theirs.images.ziapour_giveh.caption = "Jalil Ziapour in a giveh, 1952";
+
+    const { dataset, conflicts } = DatasetMerge.merge(base, ours, theirs);
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({
+      path: "/images/ziapour_giveh",
+      kind: "delete",
+    });
+    expect(dataset.images.ziapour_giveh).toBeUndefined();
+
+    const kept = DatasetMerge.merge(base, ours, theirs, { strategy: "theirs" });
+    expect(kept.dataset.images.ziapour_giveh.caption).toBe(
+      "Jalil Ziapour in a giveh, 1952"
+    );
+  });
+});
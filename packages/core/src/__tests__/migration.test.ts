@@ -0,0 +1,104 @@
+import { DatasetManager } from "../dataset";
+import { MigrationRegistry } from "../migration";
+import { VersionManager } from "../version";
+
+const legacyDataset = {
+  metadata: {
+    version: "v2025-08-17T00-00-00-000Z",
+    createdAt: "2025-08-17T00:00:00.000Z",
+    updatedAt: "2025-08-17T00:00:00.000Z",
+  },
+  images: {
+    test_image_1: {
+      src: "https://example.com/one.jpg",
+      caption: "Test Image 1",
+      metadata: { artist: "Test Artist" },
+    },
+  },
+};
+
+describe("MigrationRegistry", () => {
+  afterEach(() => {
+    MigrationRegistry.unregister("1.0.0");
+    MigrationRegistry.unregister("1.1.0");
+  });
+
+  test("should compare schema versions numerically", () => {
+    expect(MigrationRegistry.compare("1.10.0", "1.9.0")).toBeGreaterThan(0);
+    expect(MigrationRegistry.compare("1.0", "1.0.0")).toBe(0);
+  });
+
+  test("should stamp legacy datasets with the base schema version", () => {
+    const result = MigrationRegistry.migrate(legacyDataset);
+
+    expect(result.from).toBe("0.0.0");
+    expect(result.to).toBe("1.0.0");
+    expect(result.dataset.metadata.schemaVersion).toBe("1.0.0");
+    expect(legacyDataset.metadata).not.toHaveProperty("schemaVersion");
+  });
+
+  test("should apply registered migrations in order", () => {
+    MigrationRegistry.register({
+      from: "1.1.0",
+      to: "2.0.0",
+      migrate: (dataset) => {
+        Object.values<any>(dataset.images).forEach((image) => {
+          image.credit = image.metadata?.artist;
+        });
+        return dataset;
+      },
+    });
+    MigrationRegistry.register({
+      from: "1.0.0",
+      to: "1.1.0",
+      migrate: (dataset) => ({ ...dataset, presets: {} }),
+    });
+
+    expect(VersionManager.getSchemaVersion()).toBe("2.0.0");
+
+    const result = MigrationRegistry.migrate(legacyDataset);
+    expect(result.applied.map((migration) => migration.to)).toEqual([
+      "1.0.0",
+      "1.1.0",
+      "2.0.0",
+    ]);
+    expect(result.dataset.presets).toEqual({});
+    expect(result.dataset.images.test_image_1.credit).toBe("Test Artist");
+
+    const partial = MigrationRegistry.migrate(legacyDataset, { to: "1.1.0" });
+    expect(partial.dataset.metadata.schemaVersion).toBe("1.1.0");
+  });
+
+  test("should reject invalid and duplicate migrations", () => {
+    const migrate = (dataset: any) => dataset;
+    expect(() =>
+      MigrationRegistry.register({ from: "1.1.0", to: "1.0.0", migrate })
+    ).toThrow(/target must be newer/);
+    expect(() =>
+      MigrationRegistry.register({ from: "0.0.0", to: "1.0.0", migrate })
+    ).toThrow(/already registered/);
+  });
+
+  test("should report compatibility", () => {
+    expect(VersionManager.isCompatible("1.0.0")).toBe(true);
+    expect(VersionManager.isCompatible("0.0.0")).toBe(true);
+    expect(VersionManager.isCompatible("2.0.0")).toBe(false);
+    expect(() =>
+      MigrationRegistry.migrate(legacyDataset, { to: "3.0.0" })
+    ).toThrow(/No migration path/);
+  });
+
+  test("should migrate when loading JSON", () => {
+    const manager = DatasetManager.fromJSON(
+      JSON.parse(JSON.stringify(legacyDataset))
+    );
+    expect(manager.getMetadata().schemaVersion).toBe("1.0.0");
+
+    expect(() =>
+      DatasetManager.fromJSON({
+        ...legacyDataset,
+        metadata: { ...legacyDataset.metadata, schemaVersion: "9.0.0" },
+      })
+    ).toThrow(/Unsupported schema version 9.0.0/);
+  });
+});
@@ -0,0 +1,131 @@
+import { DatasetManager } from "../dataset";
+import { TextNormalizer } from "../normalize";
+import { SearchIndex } from "../search";
+import { ImageDataset } from "../types";
+import { fixtureDataset } from "./fixtures";
+
+const sampleImages: ImageDataset["images"] = {
+  khorus_jangi: {
+    src: "https://example.com/khorus.png",
+    caption: "Jalil Ziapour, Khorus Jangi magazine cover, 1949",
+    metadata: { artist: "Jalil Ziapour", year: 1949 },
+    tags: ["ziapour", "مجله"],
+  },
+  ziapour_portrait: {
+    src: "https://example.com/portrait.png",
+    caption: "Jalil Ziāpour, portrait",
+    metadata: { artist: "Jalil Ziāpour" },
+    tags: ["Ziāpour"],
+  },
+  naghashi_khat: {
+    src: "https://example.com/naghashi-khat.png",
+    caption: "نقاشی‌خط، كار زنده‌رودي، ۱۳۴۱",
+    metadata: { artist: "حسين زنده‌رودي", collection: "مكتب سقاخانه" },
+    tags: ["نقاشیخط"],
+  },
+};
+
+describe("TextNormalizer", () => {
+  test("should fold Latin and Arabic diacritics", () => {
+    expect(TextNormalizer.normalize("Ziāpour")).toBe("ziapour");
+    expect(TextNormalizer.normalize("Ṣādeq Hedāyat")).toBe("sadeq hedayat");
+    expect(TextNormalizer.normalize("مُحَمَّد")).toBe("محمد");
+    expect(TextNormalizer.normalize("آینه")).toBe("اینه");
+  });
+
+  test("should unify Arabic and Persian letters", () => {
+    expect(TextNormalizer.normalize("علي")).toBe(
+      TextNormalizer.normalize("علی")
+    );
+    expect(TextNormalizer.normalize("كاشي")).toBe("کاشی");
+    expect(TextNormalizer.normalize("نقــاشی")).toBe("نقاشی");
+  });
+
+  test("should handle zero-width non-joiners", () => {
+    expect(TextNormalizer.normalize("زنده‌رودی")).toBe("زندهرودی");
+    expect(TextNormalizer.create({ zwnj: "space" })("زنده‌رودی")).toBe(
+      "زنده رودی"
+    );
+    expect(TextNormalizer.create({ zwnj: "keep" })("زنده‌رودی")).toBe(
+      "زنده‌رودی"
+    );
+  });
+
+  test("should fold Persian and Arabic-Indic digits", () => {
+    expect(TextNormalizer.normalize("۱۳۲۸")).toBe("1328");
+    expect(TextNormalizer.normalize("١٩٤٩")).toBe("1949");
+  });
+
+  test("should allow steps to be disabled", () => {
+    const normalize = TextNormalizer.create({
+      lowercase: false,
+      diacritics: false,
+      persian: false,
+      digits: false,
+    });
+
+    expect(normalize("  Ziāpour   ۱۳۲۸ علي ")).toBe("Ziāpour ۱۳۲۸ علي");
+  });
+
+  test("should deduplicate equivalent spellings", () => {
+    expect(
+      TextNormalizer.dedupe(["Ziapour", "Ziāpour", "ZIAPOUR", "Pezeshkniya"])
+    ).toEqual(["Ziapour", "Pezeshkniya"]);
+  });
+});
+
+describe("normalized search", () => {
+  test("should match equivalent spellings in full-text search", () => {
+    const manager = new DatasetManager(fixtureDataset(sampleImages));
+
+    expect(
+      manager
+        .searchImages("ziāpour")
+        .map((image) => image.id)
+        .sort()
+    ).toEqual(["khorus_jangi", "ziapour_portrait"]);
+    expect(manager.searchImages("زنده‌رودی").map((image) => image.id)).toEqual([
+      "naghashi_khat",
+    ]);
+    expect(manager.searchImages("1341").map((image) => image.id)).toEqual([
+      "naghashi_khat",
+    ]);
+  });
+
+  test("should normalize structured filters", () => {
+    const manager = new DatasetManager(fixtureDataset(sampleImages));
+
+    expect(manager.searchImages("", { artist: "زنده‌رودی" })).toHaveLength(1);
+    expect(manager.searchImages("", { collection: "مکتب" })).toHaveLength(1);
+    expect(manager.searchImages("", { tags: ["نقاشی‌خط"] })).toHaveLength(1);
+    expect(manager.searchImages("", { tags: ["ziapour"] })).toHaveLength(2);
+  });
+
+  test("should deduplicate artists and tags", () => {
+    const manager = new DatasetManager(fixtureDataset(sampleImages));
+
+    expect(manager.getAllArtists()).toEqual([
+      "Jalil Ziapour",
+      "حسين زنده‌رودي",
+    ]);
+    expect(manager.getAllTags()).toEqual(["ziapour", "مجله", "نقاشیخط"]);
+  });
+
+  test("should highlight the original spelling", () => {
+    const index = SearchIndex.fromImages(fixtureDataset(sampleImages).images);
+    const [hit] = index.search("زندهرودی");
+
+    expect(
+      hit.matches.find((match) => match.field === "caption")?.highlight
+    ).toBe("نقاشی‌خط، كار <mark>زنده‌رودي</mark>، ۱۳۴۱");
+  });
+
+  test("should accept a custom normalizer", () => {
+    const manager = new DatasetManager(fixtureDataset(sampleImages), {
+      normalizer: (text) => text.toLowerCase(),
+    });
+
+    expect(manager.searchImages("ziāpour", { fuzzy: false })).toHaveLength(1);
+    expect(manager.getAllArtists()).toHaveLength(3);
+  });
+});
@@ -0,0 +1,210 @@
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { DatasetManager } from "../dataset";
+import { ImagePreloader } from "../preload";
+import { ImageDataset } from "../types";
+
+const PNG = Buffer.from("89504e470d0a1a0a", "hex");
+
+describe("ImagePreloader", () => {
+  let server: Server;
+  let base: string;
+  let flakyRequests = 0;
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      switch (request.url) {
+        case "/rooster.png":
+          response.writeHead(200, { "Content-Type": "image/png" });
+          response.end(request.method === "HEAD" ? undefined : PNG);
+          break;
+        case "/no-head.png":
+          if (request.method === "HEAD") {
+            response.writeHead(405).end();
+          } else {
+            response.writeHead(200, { "Content-Type": "image/png" });
+            response.end(PNG);
+          }
+          break;
+        case "/page.html":
+          response.writeHead(200, { "Content-Type": "text/html" });
+          response.end("<html></html>");
+          break;
+        case "/flaky.png":
+          if (++flakyRequests === 1) {
+            response.writeHead(503).end();
+          } else {
+            response.writeHead(200, { "Content-Type": "image/png" });
+            response.end(PNG);
+          }
+          break;
+        case "/slow.png":
+          setTimeout(() => response.writeHead(200).end(), 500);
+          break;
+        default:
+          response.writeHead(404, "Not Found").end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test("should report status, content type, size and latency per URL", async () => {
+    const results = await ImagePreloader.load([
+      `${base}/rooster.png`,
+      { id: "missing", url: `${base}/missing.png` },
+      `${base}/page.html`,
+    ]);
+
+    expect(results[0]).toMatchObject({
+      url: `${base}/rooster.png`,
+      ok: true,
+      status: 200,
+      contentType: "image/png",
+      bytes: 8,
+      attempts: 1,
+    });
+    expect(results[0].latency).toBeGreaterThanOrEqual(0);
+    expect(results[1]).toMatchObject({
+      id: "missing",
+      ok: false,
+      status: 404,
+      error: "HTTP 404 Not Found",
+      attempts: 1,
+    });
+    expect(results[2]).toMatchObject({
+      ok: false,
+      status: 200,
+      error: 'Unexpected content type "text/html"',
+    });
+  });
+
+  test("should retry server errors and time out slow responses", async () => {
+    const [flaky, slow] = await ImagePreloader.load(
+      [`${base}/flaky.png`, `${base}/slow.png`],
+      { timeout: 100, retries: 1, retryDelay: 10 }
+    );
+
+    expect(flaky).toMatchObject({ ok: true, status: 200, attempts: 2 });
+    expect(slow).toMatchObject({
+      ok: false,
+      error: "Timed out after 100 ms",
+      attempts: 2,
+    });
+  });
+
+  test("should limit concurrency and report progress", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const progress: number[] = [];
+    const fetchImpl = (async (url: string, init?: RequestInit) => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      try {
+        return await fetch(url, init);
+      } finally {
+        inFlight--;
+      }
+    }) as typeof fetch;
+
+    const results = await ImagePreloader.load(
+      Array.from({ length: 5 }, () => `${base}/rooster.png`),
+      {
+        concurrency: 2,
+        fetch: fetchImpl,
+        onProgress: (_, done) => progress.push(done),
+      }
+    );
+
+    expect(results.every((result) => result.ok)).toBe(true);
+    expect(maxInFlight).toBe(2);
+    expect(progress).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  test("should check dataset links and preload slide images", async () => {
+    const dataset: ImageDataset = {
+      metadata: {
+        version: "v2025-08-17T00-00-00-000Z",
+        createdAt: "2025-08-17T00:00:00.000Z",
+        updatedAt: "2025-08-17T00:00:00.000Z",
+      },
+      images: {
+        picasso_rooster: { src: `${base}/rooster.png`, caption: "Rooster" },
+        ziapour_giveh: { src: `${base}/no-head.png`, caption: "Giveh" },
+        ziapour_public_bath: { src: `${base}/gone.png`, caption: "Bath" },
+      },
+    };
+    const manager = new DatasetManager(dataset);
+
+    const links = await manager.checkLinks();
+    expect(links.map((result) => [result.id, result.ok])).toEqual([
+      ["picasso_rooster", true],
+      ["ziapour_giveh", true],
+      ["ziapour_public_bath", false],
+    ]);
+    expect(links[0].bytes).toBeUndefined();
+
+    const preloaded = await manager.preloadImages([
+      "picasso_rooster",
+      "unknown",
+    ]);
+    expect(preloaded).toHaveLength(1);
+    expect(preloaded[0]).toMatchObject({
+      id: "picasso_rooster",
+      ok: true,
+      bytes: 8,
+    });
+  });
+
+  test("should preload with Image elements in browsers", async () => {
+    // Loads the URL with Node's fetch and reports like an <img> would
+    class FakeImage {
+      onload: (() => void) | null = null;
+      onerror: (() => void) | null = null;
+
+      set src(url: string) {
+        if (!url) return;
+        fetch(url).then(
+          (response) => (response.ok ? this.onload : this.onerror)?.(),
+          () => this.onerror?.()
+        );
+      }
+    }
+    const global = globalThis as { Image?: unknown };
+    global.Image = FakeImage;
+
+    try {
+      const [rooster, missing, slow] = await ImagePreloader.load(
+        [`${base}/rooster.png`, `${base}/missing.png`, `${base}/slow.png`],
+        { timeout: 100, retries: 0 }
+      );
+
+      expect(rooster).toEqual({
+        url: `${base}/rooster.png`,
+        ok: true,
+        latency: expect.any(Number),
+        attempts: 1,
+      });
+      expect(missing).toMatchObject({
+        ok: false,
+        error: "Failed to load image",
+      });
+      expect(slow).toMatchObject({
+        ok: false,
+        error: "Timed out after 100 ms",
+      });
+
+      // HEAD checks still go through fetch
+      const [head] = await ImagePreloader.load([`${base}/rooster.png`], {
+        method: "HEAD",
+      });
+      expect(head).toMatchObject({ ok: true, status: 200 });
+    } finally {
+      delete global.Image;
+    }
+  });
+});
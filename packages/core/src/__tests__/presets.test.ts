@@ -0,0 +1,139 @@
+import { DatasetManager } from "../dataset";
+import { ImageDataset } from "../types";
+import { ImageUtils } from "../utils";
+import { DatasetValidator } from "../validation";
+import { fixtureDataset } from "./fixtures";
+
+const base = "https://res.cloudinary.com/demo/image/upload";
+
+const sampleImages: ImageDataset["images"] = {
+  rooster: {
+    src: `${base}/v1/rooster.jpg`,
+    caption: "Rooster",
+    cloudinaryTransforms: { hero: "c_crop,g_north,w_1000,h_400" },
+  },
+  bath: {
+    src: `${base}/v1/bath.jpg`,
+    caption: "Public Bath",
+  },
+};
+
+const sampleMetadata = {
+  presets: {
+    hero: { height: 500 },
+    poster: { extends: "medium", effects: { sepia: 40 } },
+    faded: { extends: "poster", effects: { blur: 200 }, quality: 60 },
+  },
+};
+
+describe("ImageUtils presets", () => {
+  afterEach(() => {
+    ImageUtils.unregisterPreset("card");
+    ImageUtils.unregisterPreset("thumbnail");
+  });
+
+  test("should register presets that inherit built-ins", () => {
+    ImageUtils.registerPreset("card", { extends: "thumbnail", width: 400 });
+    ImageUtils.registerPreset("thumbnail", { format: "avif" });
+
+    expect(ImageUtils.resolvePreset("card")).toEqual({
+      width: 400,
+      height: 200,
+      crop: "fill",
+      quality: "auto",
+      format: "avif",
+    });
+    expect(ImageUtils.listPresets({ poster: {} })).toEqual([
+      "thumbnail",
+      "hero",
+      "fullscreen",
+      "medium",
+      "card",
+      "poster",
+    ]);
+
+    expect(ImageUtils.unregisterPreset("thumbnail")).toBe(true);
+    expect(ImageUtils.resolvePreset("thumbnail")?.format).toBe("auto");
+  });
+
+  test("should validate registered presets", () => {
+    expect(() => ImageUtils.registerPreset("card", { dpr: 10 })).toThrow(
+      'Invalid transform option "dpr"'
+    );
+  });
+
+  test("should report unknown and circular parents", () => {
+    expect(ImageUtils.resolvePreset("missing")).toBeNull();
+    expect(() =>
+      ImageUtils.resolvePreset("a", { a: { extends: "nope" } })
+    ).toThrow('Preset "a" extends unknown preset "nope"');
+    expect(() =>
+      ImageUtils.resolvePreset("a", {
+        a: { extends: "b" },
+        b: { extends: "a" },
+      })
+    ).toThrow('Preset "a" has a circular "extends" chain');
+  });
+});
+
+describe("DatasetManager presets", () => {
+  test("should resolve dataset presets over built-ins", () => {
+    const manager = new DatasetManager(
+      fixtureDataset(sampleImages, sampleMetadata)
+    );
+
+    expect(manager.getSlideImage("bath", "hero")).toBe(
+      `${base}/w_1200,h_500,c_fill,q_auto,f_auto/v1/bath.jpg`
+    );
+    expect(manager.getSlideImage("bath", "faded")).toBe(
+      `${base}/w_800,h_600,c_fit,q_60,f_auto/e_sepia:40/e_blur:200/v1/bath.jpg`
+    );
+    expect(
+      manager.getSlideImage("bath", { preset: "poster", width: 640 })
+    ).toBe(`${base}/w_640,h_600,c_fit,q_auto,f_auto/e_sepia:40/v1/bath.jpg`);
+  });
+
+  test("should prefer per-image transforms and keep explicit options", () => {
+    const manager = new DatasetManager(
+      fixtureDataset(sampleImages, sampleMetadata)
+    );
+
+    expect(manager.getSlideImage("rooster", "hero")).toBe(
+      `${base}/c_crop,g_north,w_1000,h_400/v1/rooster.jpg`
+    );
+    expect(
+      manager.getSlideImage("rooster", { preset: "hero", format: "webp" })
+    ).toBe(`${base}/c_crop,g_north,w_1000,h_400,f_webp/v1/rooster.jpg`);
+  });
+
+  test("should apply defaultTransforms when an image has none", () => {
+    const manager = new DatasetManager(
+      fixtureDataset(sampleImages, sampleMetadata),
+      {
+        defaultTransforms: { hero: "w_1600,c_fill", print: "q_100" },
+      }
+    );
+
+    expect(manager.getSlideImage("bath", "hero")).toBe(
+      `${base}/w_1600,c_fill/v1/bath.jpg`
+    );
+    expect(manager.getSlideImage("bath", "print")).toBe(
+      `${base}/q_100/v1/bath.jpg`
+    );
+    expect(manager.getSlideImage("rooster", "hero")).toBe(
+      `${base}/c_crop,g_north,w_1000,h_400/v1/rooster.jpg`
+    );
+  });
+
+  test("should accept presets in the dataset schema", () => {
+    const dataset = fixtureDataset(sampleImages, sampleMetadata);
+
+    expect(DatasetValidator.validate(dataset).valid).toBe(true);
+    expect(
+      DatasetValidator.validate({
+        ...dataset,
+        metadata: { ...dataset.metadata, presets: { "bad name": {} } },
+      }).valid
+    ).toBe(false);
+  });
+});
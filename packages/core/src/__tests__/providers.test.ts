@@ -0,0 +1,290 @@
+import { DatasetManager } from "../dataset";
+import { ProviderRegistry } from "../providers";
+import { ImageDataset, ImageProvider } from "../types";
+import { ImageUtils } from "../utils";
+
+const thumbnail = {
+  width: 300,
+  height: 200,
+  crop: "fill" as const,
+  gravity: "face" as const,
+  quality: 80,
+  format: "webp" as const,
+};
+
+describe("ProviderRegistry", () => {
+  test("should detect providers from URLs", () => {
+    const detect = (url: string) => ImageUtils.detectProvider(url);
+
+    expect(
+      detect("https://res.cloudinary.com/demo/image/upload/v1/sample.jpg")
+    ).toBe("cloudinary");
+    expect(detect("https://assets.imgix.net/art/rooster.jpg")).toBe("imgix");
+    expect(detect("https://ik.imagekit.io/demo/rooster.jpg")).toBe("imagekit");
+    expect(
+      detect("https://thumbor.example.com/unsafe/https://example.com/a.jpg")
+    ).toBe("thumbor");
+    expect(
+      detect("https://imgproxy.example.com/insecure/plain/s3://bucket/a.jpg")
+    ).toBe("imgproxy");
+    expect(detect("https://example.com/rooster.jpg")).toBeNull();
+    expect(detect("https://example.com/archive/unsafe/a.jpg")).toBeNull();
+    expect(detect("https://example.com/docs/insecure/a.jpg")).toBeNull();
+  });
+
+  test("should keep the Cloudinary behavior", () => {
+    const url = "https://res.cloudinary.com/demo/image/upload/v1/sample.jpg";
+
+    expect(ImageUtils.applyTransform(url, { width: 300 })).toBe(
+      "https://res.cloudinary.com/demo/image/upload/w_300/v1/sample.jpg"
+    );
+    expect(ImageUtils.applyTransform(url, "e_grayscale", "cloudinary")).toBe(
+      "https://res.cloudinary.com/demo/image/upload/e_grayscale/v1/sample.jpg"
+    );
+  });
+
+  test("should build imgix URLs", () => {
+    expect(
+      ImageUtils.applyTransform(
+        "https://assets.imgix.net/rooster.jpg?w=100&dpr=2",
+        { ...thumbnail, quality: "auto", format: "auto" }
+      )
+    ).toBe(
+      "https://assets.imgix.net/rooster.jpg?w=300&dpr=2&h=200&fit=crop&crop=faces&auto=compress,format"
+    );
+    expect(
+      ImageUtils.applyTransform("https://assets.imgix.net/rooster.jpg", {
+        width: 300,
+        crop: "crop",
+        aspectRatio: "16:9",
+        dpr: 2,
+        rotate: -90,
+        effects: { grayscale: true, sepia: true, blur: 20 },
+      })
+    ).toBe(
+      "https://assets.imgix.net/rooster.jpg?w=300&fit=crop&ar=16:9&dpr=2&rot=270&sat=-100&sepia=80&blur=20"
+    );
+    expect(() =>
+      ImageUtils.buildTransformString({ radius: 10 }, "imgix")
+    ).toThrow('Invalid transform option "radius": not supported by imgix');
+    expect(() =>
+      ImageUtils.buildTransformString({ dpr: "auto" }, "imgix")
+    ).toThrow(
+      'Invalid transform option "dpr": not supported by imgix; expected a number'
+    );
+  });
+
+  test("should build ImageKit URLs", () => {
+    expect(
+      ImageUtils.applyTransform(
+        "https://ik.imagekit.io/demo/rooster.jpg",
+        thumbnail
+      )
+    ).toBe(
+      "https://ik.imagekit.io/demo/rooster.jpg?tr=w-300,h-200,c-maintain_ratio,fo-face,q-80,f-webp"
+    );
+    expect(
+      ImageUtils.applyTransform(
+        "https://ik.imagekit.io/demo/tr:w-100,bl-5/a.jpg",
+        {
+          width: 300,
+        }
+      )
+    ).toBe("https://ik.imagekit.io/demo/tr:w-300,bl-5/a.jpg");
+    expect(
+      ImageUtils.applyTransform("https://ik.imagekit.io/demo/rooster.jpg", {
+        width: 300,
+        aspectRatio: 1.5,
+        dpr: "auto",
+        radius: "max",
+        background: "#ffffff",
+        rotate: 90,
+        effects: { grayscale: true, blur: true },
+      })
+    ).toBe(
+      "https://ik.imagekit.io/demo/rooster.jpg?tr=w-300,ar-1.5-1,dpr-auto,r-max,bg-ffffff,rt-90,e-grayscale,bl-10"
+    );
+    expect(() =>
+      ImageUtils.buildTransformString({ effects: { sepia: true } }, "imagekit")
+    ).toThrow(
+      'Invalid transform option "effects.sepia": not supported by imagekit'
+    );
+  });
+
+  test("should build Thumbor URLs and merge existing options", () => {
+    const source = "https://example.com/rooster.jpg";
+
+    expect(
+      ImageUtils.applyTransform(
+        `https://thumbor.example.com/unsafe/${source}`,
+        thumbnail
+      )
+    ).toBe(
+      `https://thumbor.example.com/unsafe/300x200/smart/filters:quality(80):format(webp)/${source}`
+    );
+    expect(
+      ImageUtils.applyTransform(
+        `https://thumbor.example.com/unsafe/fit-in/100x100/filters:quality(50):grayscale()/${source}`,
+        { width: 600, height: 400, quality: 90 }
+      )
+    ).toBe(
+      `https://thumbor.example.com/unsafe/fit-in/600x400/filters:quality(90):grayscale()/${source}`
+    );
+    expect(
+      ImageUtils.applyTransform(
+        `https://thumbor.example.com/unsafe/${source}`,
+        {
+          width: 300,
+          background: "#fff",
+          rotate: 90,
+          effects: { grayscale: true, blur: 3 },
+        }
+      )
+    ).toBe(
+      `https://thumbor.example.com/unsafe/300x0/filters:fill(fff):rotate(270):grayscale():blur(3)/${source}`
+    );
+    expect(() =>
+      ImageUtils.buildTransformString({ rotate: 45 }, "thumbor")
+    ).toThrow(
+      'Invalid transform option "rotate": not supported by thumbor; expected a multiple of 90'
+    );
+    expect(() =>
+      ImageUtils.buildTransformString({ dpr: 2 }, "thumbor")
+    ).toThrow('Invalid transform option "dpr": not supported by thumbor');
+  });
+
+  test("should build imgproxy URLs and merge existing options", () => {
+    expect(
+      ImageUtils.applyTransform(
+        "https://imgproxy.example.com/insecure/q:50/plain/https://example.com/a.jpg",
+        thumbnail
+      )
+    ).toBe(
+      "https://imgproxy.example.com/insecure/q:80/rt:fill/w:300/h:200/g:sm/f:webp/plain/https://example.com/a.jpg"
+    );
+    expect(
+      ImageUtils.applyTransform(
+        "https://imgproxy.example.com/insecure/plain/https://example.com/a.jpg",
+        {
+          width: 300,
+          dpr: 2,
+          background: "#abc",
+          rotate: -90,
+          effects: { blur: true },
+        }
+      )
+    ).toBe(
+      "https://imgproxy.example.com/insecure/w:300/dpr:2/bg:aabbcc/rot:270/bl:5/plain/https://example.com/a.jpg"
+    );
+    expect(() =>
+      ImageUtils.buildTransformString({ background: "red" }, "imgproxy")
+    ).toThrow(
+      'Invalid transform option "background": not supported by imgproxy; expected "#rrggbb"'
+    );
+    expect(() =>
+      ImageUtils.buildTransformString(
+        { effects: { grayscale: true } },
+        "imgproxy"
+      )
+    ).toThrow(
+      'Invalid transform option "effects.grayscale": not supported by imgproxy'
+    );
+  });
+
+  test("should route other URLs through a configured proxy", () => {
+    const thumbor = ProviderRegistry.thumbor({
+      baseUrl: "https://thumbor.example.com/",
+    });
+    const imgproxy = ProviderRegistry.imgproxy({
+      baseUrl: "https://imgproxy.example.com",
+    });
+    const source = "https://example.com/a.jpg";
+
+    expect(ImageUtils.applyTransform(source, { width: 300 }, thumbor)).toBe(
+      `https://thumbor.example.com/unsafe/300x0/${source}`
+    );
+    // Other servers' "/unsafe/" paths are source images, not Thumbor URLs
+    expect(thumbor.matches("https://example.com/unsafe/a.jpg")).toBe(false);
+    expect(
+      ImageUtils.applyTransform(
+        "https://example.com/unsafe/a.jpg",
+        { width: 300 },
+        thumbor
+      )
+    ).toBe(
+      "https://thumbor.example.com/unsafe/300x0/https://example.com/unsafe/a.jpg"
+    );
+    expect(
+      ImageUtils.applyTransform(source, { width: 300, crop: "fit" }, imgproxy)
+    ).toBe(
+      `https://imgproxy.example.com/insecure/rt:fit/w:300/plain/${source}`
+    );
+  });
+
+  test("should register custom providers", () => {
+    const provider: ImageProvider = {
+      name: "static-resizer",
+      matches: (url) => url.startsWith("https://img.example.com/"),
+      buildTransformString: (options) => `${options.width || 0}`,
+      applyTransform: (url, transform) =>
+        url.replace("/img/", `/${transform}/`),
+    };
+
+    ProviderRegistry.register(provider);
+    try {
+      expect(() => ProviderRegistry.register(provider)).toThrow(
+        'An image provider named "static-resizer" is already registered'
+      );
+      expect(
+        ImageUtils.applyTransform("https://img.example.com/img/a.jpg", {
+          width: 640,
+        })
+      ).toBe("https://img.example.com/640/a.jpg");
+    } finally {
+      ProviderRegistry.unregister("static-resizer");
+    }
+
+    expect(() => ProviderRegistry.get("static-resizer")).toThrow(
+      'Unknown image provider "static-resizer"'
+    );
+  });
+});
+
+describe("DatasetManager providers", () => {
+  const dataset: ImageDataset = {
+    metadata: {
+      version: "v2025-08-17T00-00-00-000Z",
+      createdAt: "2025-08-17T00:00:00.000Z",
+      updatedAt: "2025-08-17T00:00:00.000Z",
+    },
+    images: {
+      rooster: {
+        src: "https://images.example.com/rooster.jpg",
+        caption: "Rooster",
+      },
+      bath: {
+        src: "https://assets.imgix.net/bath.jpg",
+        caption: "Public Bath",
+      },
+    },
+  };
+
+  test("should apply presets to detected providers", () => {
+    const manager = new DatasetManager(dataset);
+
+    expect(manager.getSlideImage("bath", "thumbnail")).toBe(
+      "https://assets.imgix.net/bath.jpg?w=300&h=200&fit=crop&auto=compress,format"
+    );
+    expect(manager.getSlideImage("rooster", "thumbnail")).toBe(
+      "https://images.example.com/rooster.jpg"
+    );
+  });
+
+  test("should use the provider set in options", () => {
+    const manager = new DatasetManager(dataset, { provider: "imgix" });
+
+    expect(manager.getSlideImage("rooster", { width: 800 })).toBe(
+      "https://images.example.com/rooster.jpg?w=800"
+    );
+  });
+});
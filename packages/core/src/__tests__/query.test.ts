@@ -0,0 +1,242 @@
+import { DatasetManager } from "../dataset";
+import { DatasetQuery, QuerySyntaxError } from "../query";
+import { ImageDataset } from "../types";
+import { fixtureDataset } from "./fixtures";
+
+const sampleImages: ImageDataset["images"] = {
+  khorus_jangi: {
+    src: "https://example.com/khorus.png",
+    caption: "Jalil Ziapour, Khorus Jangi magazine cover",
+    metadata: {
+      artist: "Jalil Ziapour",
+      year: 1949,
+      medium: "print",
+      publisher: "Khorus Jangi Society",
+    },
+    tags: ["ziapour", "magazine"],
+  },
+  ziapour_painting: {
+    src: "https://example.com/painting.png",
+    caption: "Jalil Ziapour, Gilaki Girl",
+    metadata: {
+      artist: "Jalil Ziapour",
+      year: 1962,
+      medium: "oil on canvas",
+    },
+    tags: ["ziapour", "painting"],
+  },
+  picasso_rooster: {
+    src: "https://example.com/rooster.png",
+    caption: "Pablo Picasso, A Rooster",
+    metadata: {
+      artist: "Pablo Picasso",
+      year: 1938,
+      medium: "oil on canvas",
+    },
+    tags: ["picasso", "rooster", "reference"],
+  },
+  anonymous_tile: {
+    src: "https://example.com/tile.png",
+    caption: "Qajar tile, c. 1880",
+    metadata: { year: "c. 1880" },
+    tags: ["tile", "reference"],
+  },
+};
+
+describe("DatasetQuery.parse", () => {
+  test("should parse fields, ranges, negation and phrases", () => {
+    expect(
+      DatasetQuery.parse(
+        'artist:ziapour year:1940..1960 tag:magazine -tag:reference medium:"oil on canvas"'
+      )
+    ).toEqual({
+      type: "and",
+      children: [
+        { type: "term", field: "metadata.artist", value: "ziapour" },
+        { type: "range", field: "metadata.year", min: 1940, max: 1960 },
+        { type: "term", field: "tags", value: "magazine" },
+        {
+          type: "not",
+          child: { type: "term", field: "tags", value: "reference" },
+        },
+        {
+          type: "term",
+          field: "metadata.medium",
+          value: "oil on canvas",
+          phrase: true,
+        },
+      ],
+    });
+  });
+
+  test("should give AND precedence over OR and honor parentheses", () => {
+    expect(DatasetQuery.parse("a b OR c")).toEqual({
+      type: "or",
+      children: [
+        {
+          type: "and",
+          children: [
+            { type: "term", value: "a" },
+            { type: "term", value: "b" },
+          ],
+        },
+        { type: "term", value: "c" },
+      ],
+    });
+    expect(DatasetQuery.parse("a AND (b OR NOT c)")).toEqual({
+      type: "and",
+      children: [
+        { type: "term", value: "a" },
+        {
+          type: "or",
+          children: [
+            { type: "term", value: "b" },
+            { type: "not", child: { type: "term", value: "c" } },
+          ],
+        },
+      ],
+    });
+    expect(DatasetQuery.parse("a b", { operator: "or" })).toEqual({
+      type: "or",
+      children: [
+        { type: "term", value: "a" },
+        { type: "term", value: "b" },
+      ],
+    });
+  });
+
+  test("should parse comparisons, lists and presence checks", () => {
+    expect(DatasetQuery.parse("year:>1950")).toEqual({
+      type: "range",
+      field: "metadata.year",
+      min: 1950,
+      minExclusive: true,
+    });
+    expect(DatasetQuery.parse("year:..۱۹۵۰")).toEqual({
+      type: "range",
+      field: "metadata.year",
+      max: 1950,
+    });
+    expect(DatasetQuery.parse("tag:a,b")).toEqual({
+      type: "or",
+      children: [
+        { type: "term", field: "tags", value: "a" },
+        { type: "term", field: "tags", value: "b" },
+      ],
+    });
+    expect(DatasetQuery.parse("metadata.publisher:*")).toEqual({
+      type: "exists",
+      field: "metadata.publisher",
+    });
+  });
+
+  test("should treat unknown fields and URLs as text", () => {
+    expect(DatasetQuery.parse("https://example.com")).toEqual({
+      type: "term",
+      value: "https://example.com",
+    });
+    expect(DatasetQuery.parse("   ")).toBeNull();
+  });
+
+  test("should report syntax errors with their position", () => {
+    expect(() => DatasetQuery.parse('medium:"oil')).toThrow(QuerySyntaxError);
+    expect(() => DatasetQuery.parse("(a OR b")).toThrow(
+      "Missing closing parenthesis at position 0"
+    );
+    expect(() => DatasetQuery.parse("a OR")).toThrow("Unexpected end of query");
+    expect(() => DatasetQuery.parse("artist:")).toThrow(
+      'Missing value for "artist"'
+    );
+  });
+});
+
+describe("DatasetManager query search", () => {
+  const ids = (manager: DatasetManager, query: string, options = {}) =>
+    manager.searchImages(query, options).map((image) => image.id);
+
+  test("should evaluate the example query", () => {
+    const manager = new DatasetManager(fixtureDataset(sampleImages));
+
+    expect(
+      ids(manager, "artist:ziapour year:1940..1960 tag:magazine -tag:reference")
+    ).toEqual(["khorus_jangi"]);
+    expect(ids(manager, 'medium:"oil on canvas" -artist:picasso')).toEqual([
+      "ziapour_painting",
+    ]);
+  });
+
+  test("should search malformed queries as plain words", () => {
+    const manager = new DatasetManager(fixtureDataset(sampleImages));
+
+    expect(ids(manager, "(khorus jangi")).toEqual(["khorus_jangi"]);
+    expect(ids(manager, '"rooster')).toEqual(["picasso_rooster"]);
+    expect(ids(manager, "(")).toHaveLength(manager.getAllImages().length);
+    expect(() => manager.search("(khorus", { strict: true })).toThrow(
+      QuerySyntaxError
+    );
+    expect(DatasetQuery.literal("a OR (b", { operator: "or" })).toEqual({
+      type: "or",
+      children: [
+        { type: "term", value: "a" },
+        { type: "term", value: "OR" },
+        { type: "term", value: "b" },
+      ],
+    });
+  });
+
+  test("should combine free text with field filters", () => {
+    const manager = new DatasetManager(fixtureDataset(sampleImages));
+
+    expect(ids(manager, "ziapour year:>1950")).toEqual(["ziapour_painting"]);
+    expect(ids(manager, "rooster OR tile").sort()).toEqual([
+      "anonymous_tile",
+      "picasso_rooster",
+    ]);
+    expect(ids(manager, '"gilaki girl"')).toEqual(["ziapour_painting"]);
+  });
+
+  test("should support tag AND and OR semantics", () => {
+    const manager = new DatasetManager(fixtureDataset(sampleImages));
+
+    expect(ids(manager, "tag:ziapour tag:painting")).toEqual([
+      "ziapour_painting",
+    ]);
+    expect(ids(manager, "tag:magazine,rooster")).toEqual([
+      "khorus_jangi",
+      "picasso_rooster",
+    ]);
+    expect(
+      ids(manager, "", { tags: ["ziapour", "magazine"], tagMode: "all" })
+    ).toEqual(["khorus_jangi"]);
+  });
+
+  test("should query arbitrary metadata fields and loose years", () => {
+    const manager = new DatasetManager(fixtureDataset(sampleImages));
+
+    expect(ids(manager, "metadata.publisher:society")).toEqual([
+      "khorus_jangi",
+    ]);
+    expect(ids(manager, "-metadata.publisher:*")).toHaveLength(3);
+    expect(ids(manager, "year:<1900")).toEqual(["anonymous_tile"]);
+    expect(ids(manager, "year:1949")).toEqual(["khorus_jangi"]);
+  });
+
+  test("should sort and paginate results", () => {
+    const manager = new DatasetManager(fixtureDataset(sampleImages));
+
+    expect(ids(manager, "", { sort: "year" })).toEqual([
+      "anonymous_tile",
+      "picasso_rooster",
+      "khorus_jangi",
+      "ziapour_painting",
+    ]);
+    expect(ids(manager, "", { sort: "-year", offset: 1, limit: 2 })).toEqual([
+      "khorus_jangi",
+      "picasso_rooster",
+    ]);
+    expect(ids(manager, "", { sort: "artist" })[3]).toBe("anonymous_tile");
+    expect(() => manager.search("", { sort: "colour" })).toThrow(
+      'Unknown sort field "colour"'
+    );
+  });
+});
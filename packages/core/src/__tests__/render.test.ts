@@ -0,0 +1,86 @@
+import { DatasetManager } from "../dataset";
+import { ImageDataset } from "../types";
+
+const base = "https://res.cloudinary.com/demo/image/upload";
+
+const dataset: ImageDataset = {
+  metadata: {
+    version: "v2025-08-17T00-00-00-000Z",
+    createdAt: "2025-08-17T00:00:00.000Z",
+    updatedAt: "2025-08-17T00:00:00.000Z",
+    presets: { card: { width: 600, aspectRatio: "3:2", crop: "fill" } },
+  },
+  images: {
+    rooster: {
+      src: `${base}/v1/rooster.jpg`,
+      caption: 'The "Fighting" Rooster',
+      metadata: {
+        artist: "Jalil Ziapour",
+        year: 1950,
+        medium: "Oil on canvas",
+        collection: "Tehran Museum of Contemporary Art",
+      },
+      cloudinaryTransforms: { hero: "c_crop,w_1000,h_400" },
+    },
+    plain: {
+      src: "https://example.com/bath.jpg",
+      caption: "Public Bath",
+    },
+  },
+};
+
+describe("ImageRenderer", () => {
+  const manager = new DatasetManager(dataset);
+
+  test("should render a figure with sources, srcset and credits", () => {
+    const html = manager.renderImage("rooster", {
+      preset: "card",
+      widths: [300, 1200],
+      sizes: "50vw",
+      formats: ["avif"],
+      className: "art",
+    });
+
+    expect(html).toBe(
+      [
+        '<figure class="art">',
+        "  <picture>",
+        `    <source type="image/avif" srcset="${base}/w_300,c_fill,f_avif,ar_3:2/v1/rooster.jpg 300w, ${base}/w_600,c_fill,f_avif,ar_3:2/v1/rooster.jpg 600w" sizes="50vw">`,
+        `    <img src="${base}/w_600,c_fill,ar_3:2/v1/rooster.jpg" srcset="${base}/w_300,c_fill,ar_3:2/v1/rooster.jpg 300w, ${base}/w_600,c_fill,ar_3:2/v1/rooster.jpg 600w" sizes="50vw" width="600" height="400" alt="The &quot;Fighting&quot; Rooster" loading="lazy" decoding="async">`,
+        "  </picture>",
+        '  <figcaption>The &quot;Fighting&quot; Rooster <span class="credits">Jalil Ziapour, 1950, Oil on canvas</span></figcaption>',
+        "</figure>",
+      ].join("\n")
+    );
+  });
+
+  test("should size per-image transforms from their parameters", () => {
+    const html = manager.renderImage("rooster", {
+      preset: "hero",
+      widths: [500],
+      formats: [],
+      figure: false,
+      lazy: false,
+    });
+
+    expect(html).toBe(
+      `<img src="${base}/c_crop,w_1000,h_400/v1/rooster.jpg" srcset="${base}/c_crop,w_500,h_200/v1/rooster.jpg 500w, ${base}/c_crop,w_1000,h_400/v1/rooster.jpg 1000w" sizes="100vw" width="1000" height="400" alt="The &quot;Fighting&quot; Rooster">`
+    );
+  });
+
+  test("should render plain img tags for URLs no provider serves", () => {
+    expect(manager.renderImage("plain", { width: 800, figure: false })).toBe(
+      '<img src="https://example.com/bath.jpg" width="800" alt="Public Bath" loading="lazy" decoding="async">'
+    );
+    expect(manager.renderImage("missing")).toBe("");
+  });
+
+  test("should render Markdown with caption and credits", () => {
+    expect(manager.renderMarkdown("rooster", "thumbnail")).toBe(
+      `![The "Fighting" Rooster](${base}/w_300,h_200,c_fill,q_auto,f_auto/v1/rooster.jpg)\n\nThe "Fighting" Rooster — Jalil Ziapour, 1950, Oil on canvas`
+    );
+    expect(
+      manager.renderMarkdown("plain", { figure: false, alt: "A [bath]" })
+    ).toBe("![A \\[bath\\]](https://example.com/bath.jpg)");
+  });
+});
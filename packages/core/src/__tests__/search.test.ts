@@ -0,0 +1,180 @@
+import { DatasetManager } from "../dataset";
+import { SearchIndex } from "../search";
+import { ImageDataset } from "../types";
+import { fixtureDataset } from "./fixtures";
+
+const sampleImages: ImageDataset["images"] = {
+  ziapour_khorus_jangi: {
+    src: "https://example.com/khorus.png",
+    caption: "Jalil Ziapour, Khorus Jangi magazine cover, 1949",
+    metadata: {
+      artist: "Jalil Ziapour",
+      year: 1949,
+      medium: "magazine cover",
+      collection: "cultural_documents",
+    },
+    tags: ["ziapour", "magazine", "1940s"],
+  },
+  picasso_rooster: {
+    src: "https://example.com/rooster.png",
+    caption: "Pablo Picasso, *A Rooster*, 1948, pastel and paper",
+    metadata: {
+      artist: "Pablo Picasso",
+      year: 1948,
+      medium: "pastel and paper",
+    },
+    tags: ["picasso", "rooster", "reference"],
+  },
+  pezeshkniya_rooster: {
+    src: "https://example.com/pezeshkniya.jpg",
+    caption: "Abolghasem Pezeshkniya, Rooster, oil on canvas",
+    metadata: { artist: "Abolghasem Pezeshkniya", medium: "oil on canvas" },
+    tags: ["pezeshkniya", "rooster"],
+  },
+};
+
+describe("SearchIndex", () => {
+  test("should tokenize normalized Unicode text", () => {
+    expect(SearchIndex.tokenize("Nīmā Yūshīj, *Az Shahr-e Ṣobḥ*")).toEqual([
+      "nima",
+      "yushij",
+      "az",
+      "shahr",
+      "e",
+      "sobh",
+    ]);
+    expect(SearchIndex.tokenize("Nīmā", (text) => text.toLowerCase())).toEqual([
+      "nīmā",
+    ]);
+  });
+
+  test("should compute bounded edit distance", () => {
+    expect(SearchIndex.editDistance("rooster", "roster")).toBe(1);
+    expect(SearchIndex.editDistance("picasso", "pezeshkniya", 2)).toBe(3);
+  });
+
+  test("should rank matches in weighted fields higher", () => {
+    const index = SearchIndex.fromImages(fixtureDataset(sampleImages).images);
+    const hits = index.search("picasso");
+
+    expect(hits.map((hit) => hit.id)).toEqual(["picasso_rooster"]);
+    expect(hits[0].matches.map((match) => match.field).sort()).toEqual([
+      "artist",
+      "caption",
+      "tags",
+    ]);
+
+    const roosters = index.search("rooster");
+    expect(roosters.map((hit) => hit.id).sort()).toEqual([
+      "pezeshkniya_rooster",
+      "picasso_rooster",
+    ]);
+    expect(roosters[0].score).toBeGreaterThanOrEqual(roosters[1].score);
+  });
+
+  test("should support prefix and fuzzy matching", () => {
+    const index = SearchIndex.fromImages(fixtureDataset(sampleImages).images);
+
+    expect(index.search("ziap").map((hit) => hit.id)).toEqual([
+      "ziapour_khorus_jangi",
+    ]);
+    expect(index.search("ziap", { prefix: false })).toEqual([]);
+    expect(index.search("pezeshknia").map((hit) => hit.id)).toEqual([
+      "pezeshkniya_rooster",
+    ]);
+    expect(index.search("pezeshknia", { fuzzy: false })).toEqual([]);
+  });
+
+  test("should combine terms with AND or OR", () => {
+    const index = SearchIndex.fromImages(fixtureDataset(sampleImages).images);
+
+    expect(index.search("rooster oil").map((hit) => hit.id)).toEqual([
+      "pezeshkniya_rooster",
+    ]);
+    expect(index.search("magazine pastel", { operator: "or" })).toHaveLength(2);
+  });
+
+  test("should highlight matched words", () => {
+    const index = SearchIndex.fromImages(fixtureDataset(sampleImages).images);
+    const [hit] = index.search("khorus");
+    const caption = hit.matches.find((match) => match.field === "caption");
+
+    expect(caption?.highlight).toBe(
+      "Jalil Ziapour, <mark>Khorus</mark> Jangi magazine cover, 1949"
+    );
+  });
+
+  test("should escape markup inside highlighted fields", () => {
+    const index = SearchIndex.fromImages({
+      ziapour_giveh: {
+        src: "https://example.com/giveh.png",
+        caption: "Giveh",
+        metadata: { artist: '<img src=x onerror="alert(1)"> Ziapour & co' },
+      },
+    });
+    const [hit] = index.search("ziapour");
+
+    expect(
+      hit.matches.find((match) => match.field === "artist")?.highlight
+    ).toBe(
+      "&lt;img src=x onerror=&quot;alert(1)&quot;&gt; <mark>Ziapour</mark> &amp; co"
+    );
+  });
+
+  test("should update incrementally", () => {
+    const index = SearchIndex.fromImages(fixtureDataset(sampleImages).images);
+    index.remove("picasso_rooster");
+    index.add("new_image", {
+      src: "https://example.com/new.png",
+      caption: "A new rooster study",
+    });
+
+    expect(index.size).toBe(3);
+    expect(index.search("picasso")).toEqual([]);
+    expect(
+      index
+        .search("rooster")
+        .map((hit) => hit.id)
+        .sort()
+    ).toEqual(["new_image", "pezeshkniya_rooster"]);
+  });
+});
+
+describe("DatasetManager search", () => {
+  test("should return ranked results with scores and matches", () => {
+    const manager = new DatasetManager(fixtureDataset(sampleImages));
+    const [first] = manager.search("ziapour magazine");
+
+    expect(first.id).toBe("ziapour_khorus_jangi");
+    expect(first.score).toBeGreaterThan(0);
+    expect(first.caption).toContain("Khorus Jangi");
+  });
+
+  test("should apply filters to ranked results", () => {
+    const manager = new DatasetManager(fixtureDataset(sampleImages));
+    const results = manager.searchImages("rooster", { artist: "picasso" });
+
+    expect(results.map((image) => image.id)).toEqual(["picasso_rooster"]);
+    expect(results[0]).not.toHaveProperty("score");
+  });
+
+  test("should keep the index in sync with mutations", () => {
+    const manager = new DatasetManager(fixtureDataset(sampleImages));
+    expect(manager.searchImages("rooster")).toHaveLength(2);
+
+    manager.removeImage("picasso_rooster");
+    manager.addImages({
+      ziapour_rooster: {
+        src: "https://example.com/ziapour-rooster.png",
+        caption: "Jalil Ziapour, Rooster",
+      },
+    });
+
+    expect(
+      manager
+        .searchImages("rooster")
+        .map((image) => image.id)
+        .sort()
+    ).toEqual(["pezeshkniya_rooster", "ziapour_rooster"]);
+  });
+});
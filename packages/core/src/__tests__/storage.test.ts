@@ -0,0 +1,327 @@
+import { promises as fs } from "fs";
+import { createRequire } from "module";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DatasetManager } from "../dataset";
+import {
+  FileStorage,
+  MemoryStorage,
+  SqliteStorage,
+  StorageLockError,
+} from "../storage";
+import {
+  ImageData,
+  ImageDataset,
+  SqliteDatabase,
+  SqliteStatement,
+} from "../types";
+import { fixtureDataset } from "./fixtures";
+
+const sampleImages: ImageDataset["images"] = {
+  ziapour_giveh: {
+    src: "https://example.com/giveh.png",
+    caption: "Ziapour in giveh",
+    tags: ["portrait"],
+  },
+  picasso_rooster: {
+    src: "https://example.com/rooster.png",
+    caption: "A Rooster",
+    metadata: { artist: "Pablo Picasso", year: 1948 },
+  },
+};
+
+const sampleMetadata = { description: "Iranian Modern Art" };
+
+/**
+ * Just enough of an SQLite connection to run SqliteStorage's statements
+ */
+class FakeSqlite implements SqliteDatabase {
+  datasets = new Map<string, string>();
+  images: { path: string; id: string; position: number; data: string }[] = [];
+  /** IDs of image rows written or deleted */
+  writes: string[] = [];
+  failOnImage?: string;
+  private backup?: [Map<string, string>, FakeSqlite["images"]];
+
+  exec(sql: string): void {
+    if (sql === "BEGIN") {
+      this.backup = [new Map(this.datasets), [...this.images]];
+    }
+    if (sql === "ROLLBACK" && this.backup) {
+      [this.datasets, this.images] = this.backup;
+    }
+  }
+
+  prepare(sql: string): SqliteStatement {
+    const statement = (
+      run: (...params: any[]) => unknown
+    ): SqliteStatement => ({
+      run,
+      get: run,
+      all: run as (...params: any[]) => unknown[],
+    });
+    const rows = (path: string) =>
+      this.images.filter((row) => row.path === path);
+    const without = (path: string, id: string) =>
+      this.images.filter((row) => row.path !== path || row.id !== id);
+
+    if (sql.startsWith("INSERT OR REPLACE INTO idm_datasets")) {
+      return statement((path, data) => this.datasets.set(path, data));
+    }
+    if (sql.startsWith("INSERT OR REPLACE INTO idm_images")) {
+      return statement((path, id, position, data) => {
+        if (id === this.failOnImage) throw new Error("disk I/O error");
+        this.writes.push(id);
+        this.images = [...without(path, id), { path, id, position, data }];
+      });
+    }
+    if (sql.startsWith("DELETE")) {
+      return statement((path, id) => {
+        this.writes.push(id);
+        this.images = without(path, id);
+      });
+    }
+    if (sql.startsWith("SELECT data")) {
+      return statement((path) =>
+        this.datasets.has(path) ? { data: this.datasets.get(path) } : undefined
+      );
+    }
+    if (sql.startsWith("SELECT id, position, data")) {
+      return statement(rows);
+    }
+    if (sql.startsWith("SELECT id, data")) {
+      return statement((path) =>
+        rows(path).sort((a, b) => a.position - b.position)
+      );
+    }
+    if (sql.startsWith("SELECT 1")) {
+      return statement((path) => (this.datasets.has(path) ? {} : undefined));
+    }
+    throw new Error(`Unexpected SQL: ${sql}`);
+  }
+}
+
+/**
+ * A real SQLite connection when a driver is available: better-sqlite3 if it
+ * is installed, otherwise node:sqlite from Node 22.5
+ */
+function openSqlite(): SqliteDatabase | undefined {
+  const load = createRequire(__filename);
+  const drivers = [
+    () => new (load("better-sqlite3"))(":memory:"),
+    () => new (load("node:sqlite").DatabaseSync)(":memory:"),
+  ];
+  for (const open of drivers) {
+    try {
+      return open();
+    } catch {
+      // Try the next driver
+    }
+  }
+  return undefined;
+}
+
+describe("Storage", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), "idm-storage-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test("should load and save datasets through the manager", async () => {
+    const storage = new MemoryStorage({
+      art: fixtureDataset(sampleImages, sampleMetadata),
+    });
+    const manager = await DatasetManager.load("art", { storage });
+
+    manager.removeImage("ziapour_giveh");
+    await manager.save();
+
+    const saved = (await storage.read("art")) as ImageDataset;
+    expect(Object.keys(saved.images)).toEqual(["picasso_rooster"]);
+    expect(saved.metadata.version).toBe(manager.getMetadata().version);
+
+    await manager.save("copy");
+    expect(storage.getPaths()).toEqual(["art", "copy"]);
+
+    await expect(DatasetManager.load("missing", { storage })).rejects.toThrow(
+      'No dataset at "missing"'
+    );
+    await expect(
+      new DatasetManager(fixtureDataset(sampleImages, sampleMetadata)).save(
+        "art"
+      )
+    ).rejects.toThrow("No storage adapter");
+  });
+
+  test("should write JSON files atomically", async () => {
+    const storage = new FileStorage(fs);
+    const path = join(dir, "art.json");
+
+    expect(await storage.exists(path)).toBe(false);
+    const saved = new DatasetManager(
+      fixtureDataset(sampleImages, sampleMetadata),
+      { storage }
+    );
+    await saved.save(path);
+
+    expect(await storage.exists(path)).toBe(true);
+    expect(await fs.readFile(path, "utf-8")).toBe(
+      JSON.stringify(saved.exportDataset(), null, 2) + "\n"
+    );
+    expect(await fs.readdir(dir)).toEqual(["art.json"]);
+
+    const manager = await DatasetManager.load(path, { storage });
+    expect(manager.getImage("picasso_rooster")?.caption).toBe("A Rooster");
+  });
+
+  test("should wait for, time out on and take over file locks", async () => {
+    const path = join(dir, "art.json");
+    const storage = new FileStorage(fs, { retryDelay: 5 });
+
+    // A save waits for the lock holder to finish
+    const order: string[] = [];
+    let save: Promise<void> = Promise.resolve();
+    await storage.withLock(path, async () => {
+      save = storage
+        .write(path, fixtureDataset(sampleImages, sampleMetadata))
+        .then(() => {
+          order.push("saved");
+        });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      order.push("released");
+    });
+    await save;
+    expect(order).toEqual(["released", "saved"]);
+
+    await fs.writeFile(`${path}.lock`, "");
+    await expect(
+      new FileStorage(fs, { retryDelay: 5, lockTimeout: 50 }).write(
+        path,
+        fixtureDataset(sampleImages, sampleMetadata)
+      )
+    ).rejects.toThrow(StorageLockError);
+
+    const old = new Date(Date.now() - FileStorage.DEFAULT_STALE_LOCK_AGE * 2);
+    await fs.utimes(`${path}.lock`, old, old);
+    await storage.write(path, fixtureDataset(sampleImages, sampleMetadata));
+    expect(await fs.readdir(dir)).toEqual(["art.json"]);
+  });
+
+  test("should store one SQLite row per image", async () => {
+    const db = new FakeSqlite();
+    const storage = new SqliteStorage(db);
+    const manager = new DatasetManager(
+      fixtureDataset(sampleImages, sampleMetadata),
+      { storage }
+    );
+
+    await manager.save("art");
+    expect(db.images.map((row) => row.id)).toEqual([
+      "ziapour_giveh",
+      "picasso_rooster",
+    ]);
+    expect(JSON.parse(db.datasets.get("art") as string)).toEqual({
+      metadata: fixtureDataset(sampleImages, sampleMetadata).metadata,
+    });
+    expect(await storage.exists("art")).toBe(true);
+    expect(await storage.read("art")).toEqual(manager.exportDataset());
+
+    // A failed save leaves the previous rows in place
+    db.failOnImage = "pezeshkniya_kark";
+    manager.removeImage("ziapour_giveh");
+    manager.addImages({
+      pezeshkniya_kark: { src: "https://example.com/kark.png", caption: "" },
+    });
+    await expect(manager.save()).rejects.toThrow("disk I/O error");
+    expect(db.images).toHaveLength(2);
+    expect(await storage.read("art")).toEqual(
+      new DatasetManager(
+        fixtureDataset(sampleImages, sampleMetadata)
+      ).exportDataset()
+    );
+
+    expect(() => new SqliteStorage(db, { tablePrefix: "x; DROP" })).toThrow(
+      "Invalid table prefix"
+    );
+  });
+
+  test("should only write the SQLite rows of changed images", async () => {
+    const db = new FakeSqlite();
+    const manager = new DatasetManager(
+      fixtureDataset(sampleImages, sampleMetadata),
+      {
+        storage: new SqliteStorage(db),
+      }
+    );
+    await manager.save("art");
+    db.writes = [];
+
+    manager.addImages({
+      pezeshkniya_kark: { src: "https://example.com/kark.png", caption: "" },
+    });
+    manager.removeImage("ziapour_giveh");
+    await manager.save();
+    expect(db.writes.sort()).toEqual(["pezeshkniya_kark", "ziapour_giveh"]);
+
+    db.writes = [];
+    manager.updateDataset({
+      images: {
+        picasso_rooster: {
+          ...(manager.getImage("picasso_rooster") as ImageData),
+          caption: "A Rooster, 1948",
+        },
+      },
+    });
+    await manager.save();
+    expect(db.writes).toEqual(["picasso_rooster"]);
+
+    expect(await new SqliteStorage(db).read("art")).toEqual(
+      manager.exportDataset()
+    );
+  });
+});
+
+const sqlite = openSqlite();
+
+(sqlite ? describe : describe.skip)("SqliteStorage with a real driver", () => {
+  const db = sqlite as SqliteDatabase;
+  const count = (table: string) =>
+    (db.prepare(`SELECT COUNT(*) AS n FROM ${table}`).get() as { n: number }).n;
+
+  test("should save, update and read datasets back", async () => {
+    const storage = new SqliteStorage(db);
+    const manager = new DatasetManager(
+      fixtureDataset(sampleImages, sampleMetadata),
+      { storage }
+    );
+
+    expect(await storage.exists("art")).toBe(false);
+    await manager.save("art");
+    await manager.save("copy");
+    expect(count("idm_images")).toBe(4);
+
+    manager.removeImage("ziapour_giveh");
+    manager.addImages({
+      pezeshkniya_kark: { src: "https://example.com/kark.png", caption: "" },
+    });
+    await manager.save("art");
+
+    const saved = (await storage.read("art")) as ImageDataset;
+    expect(saved).toEqual(manager.exportDataset());
+    expect(Object.keys(saved.images)).toEqual([
+      "picasso_rooster",
+      "pezeshkniya_kark",
+    ]);
+    expect(await storage.read("copy")).toEqual(
+      new DatasetManager(
+        fixtureDataset(sampleImages, sampleMetadata)
+      ).exportDataset()
+    );
+    expect(count("idm_datasets")).toBe(2);
+  });
+});
@@ -0,0 +1,142 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { DatasetManager } from "../dataset";
+import { DATASET_SCHEMA } from "../schema";
+import { DatasetValidator, DatasetValidationError } from "../validation";
+
+const validDataset = {
+  metadata: {
+    version: "v2025-08-17T00-00-00-000Z",
+    createdAt: "2025-08-17T00:00:00.000Z",
+    updatedAt: "2025-08-17T00:00:00.000Z",
+    schemaVersion: "1.0.0",
+  },
+  images: {
+    test_image_1: {
+      src: "https://res.cloudinary.com/test/image/upload/v123/sample.jpg",
+      caption: "Test Image 1",
+      metadata: { artist: "Test Artist", year: 2023 },
+      tags: ["test"],
+    },
+  },
+};
+
+function clone(data: unknown): any {
+  return JSON.parse(JSON.stringify(data));
+}
+
+describe("DatasetValidator", () => {
+  test("should stay in sync with schema/dataset-schema.json", () => {
+    const schemaFile = JSON.parse(
+      readFileSync(join(__dirname, "../../schema/dataset-schema.json"), "utf-8")
+    );
+    expect(DATASET_SCHEMA).toEqual(schemaFile);
+  });
+
+  test("should accept a valid dataset", () => {
+    const result = DatasetValidator.validate(validDataset);
+    expect(result.valid).toBe(true);
+    expect(result.errors).toHaveLength(0);
+  });
+
+  test("should report a bad version pattern", () => {
+    const dataset = clone(validDataset);
+    dataset.metadata.version = "1.0";
+
+    const { errors } = DatasetValidator.validate(dataset);
+    expect(errors).toEqual([
+      expect.objectContaining({
+        path: "/metadata/version",
+        rule: "pattern",
+        value: "1.0",
+      }),
+    ]);
+  });
+
+  test("should report invalid image IDs", () => {
+    const dataset = clone(validDataset);
+    dataset.images["bad id!"] = dataset.images.test_image_1;
+
+    const { errors } = DatasetValidator.validate(dataset);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].path).toBe("/images/bad id!");
+    expect(errors[0].rule).toBe("additionalProperties");
+  });
+
+  test("should report missing src and caption", () => {
+    const dataset = clone(validDataset);
+    dataset.images.test_image_1 = { tags: [] };
+
+    const { errors } = DatasetValidator.validate(dataset);
+    expect(errors.map((error) => [error.path, error.rule])).toEqual([
+      ["/images/test_image_1/src", "required"],
+      ["/images/test_image_1/caption", "required"],
+    ]);
+  });
+
+  test("should report non-string tags with their index", () => {
+    const dataset = clone(validDataset);
+    dataset.images.test_image_1.tags = ["ok", 42];
+
+    const { errors } = DatasetValidator.validate(dataset);
+    expect(errors).toEqual([
+      expect.objectContaining({
+        path: "/images/test_image_1/tags/1",
+        rule: "type",
+        value: 42,
+      }),
+    ]);
+  });
+
+  test("should check formats and oneOf", () => {
+    const dataset = clone(validDataset);
+    dataset.metadata.createdAt = "yesterday";
+    dataset.images.test_image_1.src = "not a url";
+    dataset.images.test_image_1.metadata.year = true;
+
+    const rules = DatasetValidator.validate(dataset).errors.map(
+      (error) => `${error.path}:${error.rule}`
+    );
+    expect(rules).toEqual([
+      "/metadata/createdAt:format",
+      "/images/test_image_1/src:format",
+      "/images/test_image_1/metadata/year:oneOf",
+    ]);
+  });
+
+  test("should escape JSON pointer segments", () => {
+    expect(DatasetValidator.toPointerSegment("a/b~c")).toBe("a~1b~0c");
+  });
+});
+
+describe("DatasetManager validation", () => {
+  test("should sanitize invalid data by default", () => {
+    const dataset = clone(validDataset);
+    dataset.images.test_image_1.tags = ["ok", 42];
+
+    const manager = new DatasetManager(dataset);
+    expect(manager.getImage("test_image_1")?.tags).toEqual(["ok"]);
+  });
+
+  test("should throw structured errors in strict mode", () => {
+    const dataset = clone(validDataset);
+    delete dataset.images.test_image_1.caption;
+
+    let thrown: unknown;
+    try {
+      DatasetManager.fromJSON(dataset, { strict: true });
+    } catch (error) {
+      thrown = error;
+    }
+
+    expect(thrown).toBeInstanceOf(DatasetValidationError);
+    expect((thrown as DatasetValidationError).errors[0].path).toBe(
+      "/images/test_image_1/caption"
+    );
+  });
+
+  test("should expose static and instance validation", () => {
+    expect(DatasetManager.validate(validDataset).valid).toBe(true);
+    expect(new DatasetManager(clone(validDataset)).validate().valid).toBe(true);
+  });
+});
@@ -0,0 +1,737 @@
+/**
+ * JSON API over datasets, independent of any HTTP server: requests and
+ * responses are plain objects, so it runs in Node, workers or tests
+ */
+
+import {
+  ApiAction,
+  ApiDatasetSummary,
+  ApiOptions,
+  ApiPage,
+  ApiRequest,
+  ApiResponse,
+  ApiTagOperation,
+  ImageData,
+  SearchOptions,
+  SlideImageOptions,
+} from "../types";
+import { DatasetManager } from "../dataset";
+import { DatasetValidator } from "../validation";
+import { QuerySyntaxError } from "../query";
+import { TextNormalizer } from "../normalize";
+import { ImageUtils, TransformValidationError } from "../utils";
+
+/**
+ * An error with the HTTP status to respond with
+ */
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+type RouteParams = Record<string, string>;
+
+interface RouteContext {
+  params: RouteParams;
+  query: URLSearchParams;
+  request: ApiRequest;
+  /** Identity of the bearer token; set for writes */
+  identity: string;
+}
+
+type RouteHandler = (context: RouteContext) => ApiResponse;
+
+interface Route {
+  pattern: RegExp;
+  names: string[];
+  handlers: Record<string, RouteHandler>;
+}
+
+const WRITE_METHODS = ["POST", "PUT", "PATCH", "DELETE"];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
+
+/**
+ * Compare secrets without returning early on the first difference
+ */
+function safeEqual(a: string, b: string): boolean {
+  let difference = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    difference |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return difference === 0;
+}
+
+export class DatasetApi {
+  static readonly DEFAULT_LIMIT = 20;
+
+  static readonly MAX_LIMIT = 100;
+
+  private datasets = new Map<string, DatasetManager>();
+  private options: Required<Omit<ApiOptions, "tokens" | "onChange">> &
+    ApiOptions;
+  private routes: Route[];
+
+  constructor(
+    datasets: Record<string, DatasetManager> = {},
+    options: ApiOptions = {}
+  ) {
+    Object.entries(datasets).forEach(([name, manager]) =>
+      this.setDataset(name, manager)
+    );
+    this.options = {
+      cors: "*",
+      defaultLimit: DatasetApi.DEFAULT_LIMIT,
+      maxLimit: DatasetApi.MAX_LIMIT,
+      ...options,
+    };
+
+    this.routes = [
+      this.route("/datasets", {
+        GET: () => this.listDatasets(),
+      }),
+      this.route("/datasets/:name", {
+        GET: ({ params }) =>
+          this.ok(this.summarize(params.name), this.etag(params.name)),
+      }),
+      this.route("/datasets/:name/images", {
+        GET: ({ params, query }) =>
+          this.searchImages(params.name, query, false),
+        POST: (context) => this.createImage(context),
+      }),
+      this.route("/datasets/:name/images/:id", {
+        GET: ({ params: { name, id } }) =>
+          this.ok({ id, ...this.getImage(name, id) }, this.etag(name)),
+        PUT: (context) => this.updateImage(context, true),
+        PATCH: (context) => this.updateImage(context, false),
+        DELETE: (context) => this.deleteImage(context),
+      }),
+      this.route("/datasets/:name/images/:id/src", {
+        GET: ({ params, query }) =>
+          this.redirect(params.name, params.id, query),
+      }),
+      this.route("/datasets/:name/search", {
+        GET: ({ params, query }) => this.searchImages(params.name, query, true),
+      }),
+      this.route("/datasets/:name/tags", {
+        GET: ({ params: { name } }) =>
+          this.ok(
+            { tags: this.getManager(name).getAllTags() },
+            this.etag(name)
+          ),
+        POST: (context) => this.updateTags(context),
+      }),
+      this.route("/datasets/:name/artists", {
+        GET: ({ params: { name } }) =>
+          this.ok(
+            { artists: this.getManager(name).getAllArtists() },
+            this.etag(name)
+          ),
+      }),
+    ];
+  }
+
+  /**
+   * Serve a dataset under a name, replacing any dataset of that name
+   */
+  setDataset(name: string, manager: DatasetManager): void {
+    this.datasets.set(name, manager);
+  }
+
+  removeDataset(name: string): boolean {
+    return this.datasets.delete(name);
+  }
+
+  getDatasetNames(): string[] {
+    return Array.from(this.datasets.keys());
+  }
+
+  /**
+   * Answer a request. Responses carry an ETag derived from the dataset
+   * version, and a matching If-None-Match yields 304 Not Modified. Writes
+   * need a bearer token and the current ETag (or version) in If-Match.
+   */
+  handle(request: ApiRequest): ApiResponse {
+    const method = request.method.toUpperCase();
+    const url = new URL(request.url, "http://localhost");
+    const path = url.pathname.replace(/\/+$/, "") || "/";
+
+    if (method === "OPTIONS") {
+      return this.withCors({ status: 204, headers: {} });
+    }
+
+    let response: ApiResponse;
+    try {
+      const match = this.match(path);
+      if (!match) throw new ApiError(404, `No route for ${path}`);
+
+      const handler = match.route.handlers[method === "HEAD" ? "GET" : method];
+      if (!handler) {
+        response = this.error(
+          new ApiError(405, `Method ${method} not allowed`)
+        );
+        response.headers.Allow = Object.keys(match.route.handlers).join(", ");
+      } else {
+        const write = WRITE_METHODS.includes(method);
+        const identity = write ? this.authenticate(request) : "";
+        if (write) this.checkPrecondition(request, match.params.name);
+        response = handler({
+          params: match.params,
+          query: url.searchParams,
+          request,
+          identity,
+        });
+      }
+    } catch (error: unknown) {
+      response = this.error(error);
+    }
+
+    const etag = response.headers.ETag;
+    if (
+      etag &&
+      response.status === 200 &&
+      (method === "GET" || method === "HEAD") &&
+      this.matchesETag(this.header(request, "if-none-match"), etag)
+    ) {
+      response = { status: 304, headers: { ETag: etag } };
+    }
+    if (method === "HEAD") delete response.body;
+
+    return this.withCors(response);
+  }
+
+  private listDatasets(): ApiResponse {
+    const datasets = this.getDatasetNames().map((name) => this.summarize(name));
+    return this.ok(
+      { datasets },
+      datasets.map((dataset) => `${dataset.name}@${dataset.version}`).join(",")
+    );
+  }
+
+  private searchImages(
+    name: string,
+    query: URLSearchParams,
+    withScores: boolean
+  ): ApiResponse {
+    const manager = this.getManager(name);
+    const offset = this.integer(query, "offset", 0);
+    const limit = Math.min(
+      this.integer(query, "limit", this.options.defaultLimit),
+      this.options.maxLimit
+    );
+    const text = query.get("q") || "";
+    const options = this.searchOptions(query);
+
+    const all = manager.search(text, options);
+    const results = all
+      .slice(offset, offset + limit)
+      .map(({ score, matches, ...image }) =>
+        withScores ? { ...image, score, matches } : image
+      );
+    const page: ApiPage<(typeof results)[number]> = {
+      total: all.length,
+      offset,
+      limit,
+      results,
+    };
+
+    return this.ok(
+      withScores ? { query: text, ...page } : page,
+      this.etag(name)
+    );
+  }
+
+  /**
+   * 302 to the transformed image URL for a preset and/or width and height.
+   * Unknown presets are rejected rather than ignored.
+   */
+  private redirect(
+    name: string,
+    id: string,
+    query: URLSearchParams
+  ): ApiResponse {
+    const manager = this.getManager(name);
+    this.getImage(name, id);
+
+    const options: SlideImageOptions = {};
+    const preset = query.get("preset");
+    if (preset) {
+      if (!ImageUtils.listPresets(manager.getPresets()).includes(preset)) {
+        throw new ApiError(400, `Unknown preset "${preset}"`);
+      }
+      options.preset = preset;
+    }
+    if (query.has("width")) options.width = this.integer(query, "width", 0);
+    if (query.has("height")) options.height = this.integer(query, "height", 0);
+
+    const url = manager.getSlideImage(id, options);
+    return {
+      status: 302,
+      headers: { Location: url, ETag: `"${this.etag(name)}"` },
+      body: { url },
+    };
+  }
+
+  /**
+   * POST /datasets/:name/images with `{ id, src, caption, ... }`
+   */
+  private createImage({ params, request, identity }: RouteContext) {
+    const { id, message, ...image } = this.imageBody(request);
+    if (typeof id !== "string" || !id) {
+      throw new ApiError(400, 'Body needs an "id"');
+    }
+    if (this.getManager(params.name).getImage(id)) {
+      throw new ApiError(409, `Image "${id}" already exists`);
+    }
+
+    const created = this.validateImage(params.name, id, image);
+    this.commit(params.name, "create", [id], identity, message, () =>
+      this.getManager(params.name).addImages(
+        { [id]: created },
+        message || `Create ${id}`
+      )
+    );
+    return {
+      ...this.ok(
+        { id, ...this.getImage(params.name, id) },
+        this.etag(params.name)
+      ),
+      status: 201,
+    };
+  }
+
+  /**
+   * PUT replaces an image; PATCH changes the given fields, merging metadata
+   * and transforms key by key (null removes a key)
+   */
+  private updateImage(
+    { params: { name, id }, request, identity }: RouteContext,
+    replace: boolean
+  ) {
+    const existing = this.getImage(name, id);
+    const { id: bodyId, message, ...changes } = this.imageBody(request);
+    if (bodyId !== undefined && bodyId !== id) {
+      throw new ApiError(400, "The body ID does not match the URL");
+    }
+
+    const merge = (current: object | undefined, patch: unknown) => {
+      if (patch === undefined) return current;
+      if (!isObject(patch)) return patch;
+      const result: Record<string, unknown> = { ...current };
+      Object.entries(patch).forEach(([key, value]) => {
+        if (value === null) delete result[key];
+        else result[key] = value;
+      });
+      return result;
+    };
+    const updated = replace
+      ? changes
+      : {
+          ...existing,
+          ...changes,
+          metadata: merge(existing.metadata, changes.metadata),
+          cloudinaryTransforms: merge(
+            existing.cloudinaryTransforms,
+            changes.cloudinaryTransforms
+          ),
+        };
+
+    const image = this.validateImage(name, id, updated);
+    this.commit(name, "update", [id], identity, message, () =>
+      this.getManager(name).updateDataset(
+        { images: { [id]: image } },
+        message || `Update ${id}`
+      )
+    );
+    return this.ok({ id, ...this.getImage(name, id) }, this.etag(name));
+  }
+
+  private deleteImage({
+    params: { name, id },
+    request,
+    identity,
+  }: RouteContext) {
+    this.getImage(name, id);
+    const message = isObject(request.body)
+      ? (request.body.message as string | undefined)
+      : undefined;
+
+    this.commit(name, "delete", [id], identity, message, () =>
+      this.getManager(name).removeImage(id, message || `Delete ${id}`)
+    );
+    return this.ok({ deleted: id }, this.etag(name));
+  }
+
+  /**
+   * POST /datasets/:name/tags: add and remove tags on images chosen by ID
+   * or by search query
+   */
+  private updateTags({ params: { name }, request, identity }: RouteContext) {
+    const body = this.tagOperation(request.body);
+    const manager = this.getManager(name);
+    const add = body.add || [];
+    const remove = body.remove || [];
+
+    const ids =
+      body.ids ||
+      manager.searchImages(body.query || "").map((image) => image.id);
+    const missing = ids.filter((id) => !manager.getImage(id));
+    if (missing.length) {
+      throw new ApiError(400, `Images not found: ${missing.join(", ")}`);
+    }
+
+    const removed = new Set(remove.map((tag) => TextNormalizer.normalize(tag)));
+    const changed: Record<string, ImageData> = {};
+    ids.forEach((id) => {
+      const image = manager.getImage(id) as ImageData;
+      const current = image.tags || [];
+      const tags = TextNormalizer.dedupe([
+        ...current.filter((tag) => !removed.has(TextNormalizer.normalize(tag))),
+        ...add,
+      ]);
+      if (tags.join("\n") !== current.join("\n")) {
+        changed[id] = { ...image, tags };
+      }
+    });
+
+    const updated = Object.keys(changed);
+    if (!updated.length) {
+      return this.ok({ updated }, this.etag(name));
+    }
+    this.commit(name, "tag", updated, identity, body.message, () =>
+      manager.updateDataset(
+        { images: changed },
+        body.message || `Update tags of ${updated.length} image(s)`
+      )
+    );
+    return this.ok({ updated }, this.etag(name));
+  }
+
+  /**
+   * Apply a change, then hand the dataset and audit entry to `onChange`.
+   * If that fails, the dataset is restored from a snapshot.
+   */
+  private commit(
+    name: string,
+    action: ApiAction,
+    ids: string[],
+    identity: string,
+    message: string | undefined,
+    change: () => void
+  ): void {
+    const manager = this.getManager(name);
+    const snapshot = manager.exportDataset();
+    change();
+
+    try {
+      this.options.onChange?.({
+        name,
+        dataset: manager.exportDataset(),
+        audit: {
+          timestamp: new Date().toISOString(),
+          identity,
+          dataset: name,
+          action,
+          ids,
+          previousVersion: snapshot.metadata.version,
+          version: manager.getMetadata().version,
+          ...(message && { message }),
+        },
+      });
+    } catch (error: unknown) {
+      this.setDataset(name, new DatasetManager(snapshot, manager.getOptions()));
+      throw new ApiError(500, `Change was not saved: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * The identity of the request's bearer token
+   */
+  private authenticate(request: ApiRequest): string {
+    const tokens = this.options.tokens || {};
+    if (!Object.keys(tokens).length) {
+      throw new ApiError(403, "Writes are disabled: no API tokens configured");
+    }
+
+    const token = /^Bearer\s+(.+)$/i.exec(
+      this.header(request, "authorization") || ""
+    )?.[1];
+    const entry =
+      token &&
+      Object.entries(tokens).find(([known]) => safeEqual(known, token.trim()));
+    if (!entry) {
+      throw new ApiError(401, "A valid bearer token is required");
+    }
+    return entry[1];
+  }
+
+  /**
+   * Optimistic concurrency: writes must name the version they were based on
+   */
+  private checkPrecondition(request: ApiRequest, name: string): void {
+    const header = this.header(request, "if-match");
+    if (!header) {
+      throw new ApiError(
+        428,
+        "If-Match with the dataset's ETag or version is required"
+      );
+    }
+
+    const version = this.getManager(name).getMetadata().version;
+    const tags = header.split(",").map((tag) => tag.trim());
+    const matches = tags.some(
+      (tag) =>
+        tag === "*" ||
+        tag === `"${this.etag(name)}"` ||
+        tag.replace(/^"|"$/g, "") === version
+    );
+    if (!matches) {
+      throw new ApiError(412, "The dataset has changed", { version });
+    }
+  }
+
+  private imageBody(request: ApiRequest): Record<string, unknown> & {
+    id?: unknown;
+    message?: string;
+  } {
+    if (!isObject(request.body)) {
+      throw new ApiError(400, "Body must be a JSON object");
+    }
+    const { message } = request.body;
+    if (message !== undefined && typeof message !== "string") {
+      throw new ApiError(400, '"message" must be a string');
+    }
+    return request.body as Record<string, unknown> & { message?: string };
+  }
+
+  private tagOperation(body: unknown): ApiTagOperation {
+    if (
+      !isObject(body) ||
+      (body.ids !== undefined && !isStringArray(body.ids)) ||
+      (body.query !== undefined && typeof body.query !== "string") ||
+      (body.add !== undefined && !isStringArray(body.add)) ||
+      (body.remove !== undefined && !isStringArray(body.remove)) ||
+      (body.message !== undefined && typeof body.message !== "string")
+    ) {
+      throw new ApiError(
+        400,
+        'Body needs "ids" or "query" and string arrays "add" and/or "remove"'
+      );
+    }
+    if (body.ids === undefined && body.query === undefined) {
+      throw new ApiError(400, 'Choose images with "ids" or "query"');
+    }
+    return body as ApiTagOperation;
+  }
+
+  /**
+   * Check an image against the dataset schema
+   */
+  private validateImage(name: string, id: string, image: unknown): ImageData {
+    const { valid, errors } = DatasetValidator.validate({
+      metadata: this.getManager(name).getMetadata(),
+      images: { [id]: image },
+    });
+    if (!valid) {
+      throw new ApiError(422, "Invalid image", errors);
+    }
+    return image as ImageData;
+  }
+
+  private searchOptions(query: URLSearchParams): SearchOptions {
+    // Malformed queries are reported as 400 rather than guessed at
+    const options: SearchOptions = { strict: true };
+    const tags = query
+      .getAll("tags")
+      .flatMap((value) => value.split(","))
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+    if (tags.length) options.tags = tags;
+
+    (["artist", "year", "collection", "sort"] as const).forEach((key) => {
+      const value = query.get(key);
+      if (value) options[key] = value;
+    });
+
+    const operator = query.get("operator");
+    if (operator) {
+      if (operator !== "and" && operator !== "or") {
+        throw new ApiError(400, 'operator must be "and" or "or"');
+      }
+      options.operator = operator;
+    }
+    const tagMode = query.get("tagMode");
+    if (tagMode) {
+      if (tagMode !== "any" && tagMode !== "all") {
+        throw new ApiError(400, 'tagMode must be "any" or "all"');
+      }
+      options.tagMode = tagMode;
+    }
+    (["prefix", "fuzzy"] as const).forEach((key) => {
+      const value = query.get(key);
+      if (value !== null) options[key] = value !== "false" && value !== "0";
+    });
+
+    return options;
+  }
+
+  private summarize(name: string): ApiDatasetSummary {
+    const manager = this.getManager(name);
+    const metadata = manager.getMetadata();
+    return {
+      name,
+      version: metadata.version,
+      updatedAt: metadata.updatedAt,
+      ...(metadata.description && { description: metadata.description }),
+      imageCount: manager.getAllImages().length,
+    };
+  }
+
+  private getManager(name: string): DatasetManager {
+    const manager = this.datasets.get(name);
+    if (!manager) throw new ApiError(404, `Dataset "${name}" not found`);
+    return manager;
+  }
+
+  private getImage(name: string, id: string): ImageData {
+    const image = this.getManager(name).getImage(id);
+    if (!image) throw new ApiError(404, `Image "${id}" not found`);
+    return image;
+  }
+
+  private etag(name: string): string {
+    return `${name}@${this.getManager(name).getMetadata().version}`;
+  }
+
+  private integer(
+    query: URLSearchParams,
+    key: string,
+    fallback: number
+  ): number {
+    const value = query.get(key);
+    if (value === null || value === "") return fallback;
+    if (!/^\d+$/.test(value)) {
+      throw new ApiError(400, `${key} must be a non-negative integer`);
+    }
+    return parseInt(value, 10);
+  }
+
+  private ok(body: unknown, tag: string): ApiResponse {
+    return {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Cache-Control": "no-cache",
+        ETag: `"${tag}"`,
+      },
+      body,
+    };
+  }
+
+  private error(error: unknown): ApiResponse {
+    const status =
+      error instanceof ApiError
+        ? error.status
+        : error instanceof QuerySyntaxError ||
+          error instanceof TransformValidationError
+        ? 400
+        : 500;
+    const details = error instanceof ApiError ? error.details : undefined;
+    return {
+      status,
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        ...(status === 401 && { "WWW-Authenticate": "Bearer" }),
+      },
+      body: {
+        error: errorMessage(error),
+        ...(details !== undefined && { details }),
+      },
+    };
+  }
+
+  private withCors(response: ApiResponse): ApiResponse {
+    if (this.options.cors === false) return response;
+    return {
+      ...response,
+      headers: {
+        ...response.headers,
+        "Access-Control-Allow-Origin": this.options.cors,
+        "Access-Control-Allow-Methods":
+          "GET, HEAD, POST, PUT, PATCH, DELETE, OPTIONS",
+        "Access-Control-Allow-Headers":
+          "Authorization, Content-Type, If-Match, If-None-Match",
+        "Access-Control-Expose-Headers": "ETag, Location",
+      },
+    };
+  }
+
+  /**
+   * If-None-Match: "*" or a list of (possibly weak) entity tags
+   */
+  private matchesETag(header: string | undefined, etag: string): boolean {
+    if (!header) return false;
+    return header
+      .split(",")
+      .map((tag) => tag.trim().replace(/^W\//, ""))
+      .some((tag) => tag === "*" || tag === etag);
+  }
+
+  private header(request: ApiRequest, name: string): string | undefined {
+    const entry = Object.entries(request.headers || {}).find(
+      ([key]) => key.toLowerCase() === name
+    );
+    const value = entry?.[1];
+    return Array.isArray(value) ? value.join(", ") : value;
+  }
+
+  /**
+   * Compile "/datasets/:name" style paths
+   */
+  private route(path: string, handlers: Record<string, RouteHandler>): Route {
+    const names: string[] = [];
+    const pattern = new RegExp(
+      `^${path.replace(/:(\w+)/g, (_, name) => {
+        names.push(name);
+        return "([^/]+)";
+      })}$`
+    );
+    return { pattern, names, handlers };
+  }
+
+  private match(path: string): { route: Route; params: RouteParams } | null {
+    for (const route of this.routes) {
+      const match = route.pattern.exec(path);
+      if (match) {
+        const params: RouteParams = {};
+        route.names.forEach((name, i) => {
+          try {
+            params[name] = decodeURIComponent(match[i + 1]);
+          } catch {
+            throw new ApiError(400, `Malformed path ${path}`);
+          }
+        });
+        return { route, params };
+      }
+    }
+    return null;
+  }
+}
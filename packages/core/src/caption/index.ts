@@ -0,0 +1,189 @@
+/**
+ * Caption formatting: inline Markdown to safe HTML or plain text, and
+ * credit lines from image metadata
+ */
+
+import { CreditOptions, ImageMetadata } from "../types";
+
+type InlineStyle = "strong" | "em" | "del" | "code";
+
+interface InlineRenderer {
+  text(text: string): string;
+  style(style: InlineStyle, content: string): string;
+  tag(style: InlineStyle, closing: boolean): string;
+  link(label: string, url: string): string;
+}
+
+/**
+ * Placeholders keep rendered pieces away from later passes
+ */
+const PLACEHOLDER = /\uE000(\d+)\uE000/g;
+
+/**
+ * Inline HTML tags kept in captions, as written in older datasets, e.g.
+ * "<i>Public Bath</i>"
+ */
+const INLINE_TAGS: Record<string, InlineStyle> = {
+  i: "em",
+  em: "em",
+  b: "strong",
+  strong: "strong",
+};
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>~])/g, "\\$1");
+}
+
+/**
+ * Only web, mail and relative links survive; javascript: and data: do not
+ */
+function isSafeUrl(url: string): boolean {
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(url);
+  return (
+    !scheme || ["http", "https", "mailto"].includes(scheme[1].toLowerCase())
+  );
+}
+
+function renderInline(markdown: string, renderer: InlineRenderer): string {
+  const pieces: string[] = [];
+  const stash = (piece: string) => `\uE000${pieces.push(piece) - 1}\uE000`;
+  const restore = (text: string): string =>
+    text.replace(PLACEHOLDER, (_, index) => restore(pieces[Number(index)]));
+
+  const text = markdown
+    .replace(/\uE000/g, "")
+    .replace(/\\([\\`*_{}[\]()#+\-.!~|<>])/g, (_, char) =>
+      stash(renderer.text(char))
+    )
+    .replace(/`([^`]+)`/g, (_, code) => stash(renderer.style("code", code)))
+    // Only matched pairs without attributes; anything else is escaped
+    .replace(
+      /<(i|em|b|strong)>([\s\S]*?)<\/\1>/gi,
+      (_, tag: string, content: string) => {
+        const style = INLINE_TAGS[tag.toLowerCase()];
+        return `${stash(renderer.tag(style, false))}${content}${stash(
+          renderer.tag(style, true)
+        )}`;
+      }
+    )
+    // Images in captions become their alt text or a link
+    .replace(
+      // URLs may hold balanced parentheses, e.g. Wikipedia's "Foo_(bar)"
+      /!?\[([^\]]*)\]\(\s*<?((?:[^\s()<>]|\([^\s()<>]*\))*)>?(?:\s+"[^"]*")?\s*\)/g,
+      (_, label: string, url: string) =>
+        stash(renderer.link(renderInline(label, renderer), url))
+    );
+
+  // Each pattern captures the character before its marker so that
+  // underscores inside words such as "cultural_documents" stay literal
+  const styles: [RegExp, InlineStyle][] = [
+    [/()\*\*(?=\S)([\s\S]*?\S)\*\*/g, "strong"],
+    [/(^|\W)__(?=\S)([\s\S]*?\S)__(?!\w)/g, "strong"],
+    [/()~~(?=\S)([\s\S]*?\S)~~/g, "del"],
+    [/()\*(?=\S)([\s\S]*?\S)\*/g, "em"],
+    [/(^|\W)_(?=\S)([\s\S]*?\S)_(?!\w)/g, "em"],
+  ];
+  // Styled content is styled again before it is stashed, so that
+  // "**a *b* c**" nests instead of keeping the inner asterisks
+  const style = (input: string): string =>
+    styles.reduce(
+      (result, [pattern, name]) =>
+        result.replace(
+          pattern,
+          (_, before: string, content: string) =>
+            `${before}${stash(renderer.style(name, style(content)))}`
+        ),
+      input
+    );
+
+  return restore(style(renderer.text(text)));
+}
+
+const htmlRenderer: InlineRenderer = {
+  text: (text) => escapeHtml(text).replace(/ *\n/g, "<br>"),
+  style: (style, content) =>
+    style === "code"
+      ? `<code>${escapeHtml(content)}</code>`
+      : `<${style}>${content}</${style}>`,
+  tag: (style, closing) => (closing ? `</${style}>` : `<${style}>`),
+  link: (label, url) =>
+    isSafeUrl(url) ? `<a href="${escapeHtml(url)}">${label}</a>` : label,
+};
+
+const textRenderer: InlineRenderer = {
+  text: (text) => text.replace(/<\/?[a-z][^<>]*>/gi, ""),
+  style: (_, content) => content,
+  tag: () => "",
+  link: (label) => label,
+};
+
+export class CaptionFormatter {
+  private static readonly CREDIT_FIELDS = [
+    "artist",
+    "title",
+    "year",
+    "medium",
+    "dimensions",
+  ];
+
+  /**
+   * Render inline Markdown (emphasis, strong, strikethrough, code, links)
+   * to HTML. Inline <i>, <em>, <b> and <strong> tags are kept; other raw
+   * HTML is escaped and unsafe link URLs are dropped.
+   */
+  static toHtml(markdown: string): string {
+    return renderInline(markdown, htmlRenderer);
+  }
+
+  /**
+   * Strip Markdown and HTML tags to plain text for alt attributes and search
+   */
+  static toPlainText(markdown: string): string {
+    return renderInline(markdown, textRenderer).replace(/\s+/g, " ").trim();
+  }
+
+  /**
+   * Credit line from image metadata, e.g.
+   * "Pablo Picasso, A Rooster, 1948, pastel and paper, 77.5 × 54 cm".
+   * The title is italicized in HTML and Markdown output.
+   */
+  static formatCredits(
+    metadata: ImageMetadata = {},
+    options: CreditOptions = {}
+  ): string {
+    const {
+      fields = this.CREDIT_FIELDS,
+      format = "text",
+      separator = ", ",
+    } = options;
+
+    return fields
+      .map((field) => {
+        const value = metadata[field];
+        if (typeof value === "number") return String(value);
+        if (typeof value !== "string" || !value.trim()) return "";
+
+        const text = value.trim();
+        if (format === "html") {
+          const html = escapeHtml(text);
+          return field === "title" ? `<em>${html}</em>` : html;
+        }
+        if (format === "markdown") {
+          const markdown = escapeMarkdown(text);
+          return field === "title" ? `*${markdown}*` : markdown;
+        }
+        return text;
+      })
+      .filter(Boolean)
+      .join(separator);
+  }
+}
@@ -0,0 +1,276 @@
+/**
+ * Cloudinary delivery URL parsing and rebuilding
+ */
+
+import { CloudinaryTransformStep, CloudinaryUrlParts } from "../types";
+
+export class CloudinaryUrl {
+  private static readonly RESOURCE_TYPES = ["image", "video", "raw"];
+
+  private static readonly DELIVERY_TYPES = [
+    "upload",
+    "private",
+    "authenticated",
+    "fetch",
+    "list",
+    "sprite",
+    "text",
+    "multi",
+    "facebook",
+    "twitter",
+    "twitter_name",
+    "gravatar",
+    "youtube",
+    "hulu",
+    "vimeo",
+    "animoto",
+    "worldstarhiphop",
+    "dailymotion",
+  ];
+
+  /**
+   * Transformation parameter keys, so folders such as "my_folder" are not
+   * mistaken for transformations
+   */
+  private static readonly PARAMETERS = new Set([
+    "a",
+    "ac",
+    "af",
+    "ar",
+    "b",
+    "bo",
+    "br",
+    "c",
+    "co",
+    "cs",
+    "d",
+    "dl",
+    "dn",
+    "dpr",
+    "du",
+    "e",
+    "eo",
+    "f",
+    "fl",
+    "fn",
+    "fps",
+    "g",
+    "h",
+    "if",
+    "ki",
+    "l",
+    "o",
+    "p",
+    "pg",
+    "q",
+    "r",
+    "so",
+    "sp",
+    "t",
+    "u",
+    "vc",
+    "vs",
+    "w",
+    "x",
+    "y",
+    "z",
+  ]);
+
+  /**
+   * Decompose a Cloudinary URL; returns null when it does not follow the
+   * `[cloud]/<resource type>/<delivery type>/...` layout
+   */
+  static parse(url: string): CloudinaryUrlParts | null {
+    const match =
+      /^((?:[a-z][a-z0-9+.-]*:)?\/\/[^/?#]+)\/([^?#]*)(\?[^#]*)?/i.exec(url);
+    if (!match) return null;
+
+    const [, origin, path, query] = match;
+    const segments = path.split("/");
+    let cloudName: string | undefined;
+
+    if (!this.RESOURCE_TYPES.includes(segments[0])) {
+      cloudName = segments.shift();
+    } else {
+      // Private CDN hosts carry the cloud name: <cloud>-res.cloudinary.com
+      cloudName = /\/\/([^./]+)-res\.cloudinary\.com$/i.exec(origin)?.[1];
+    }
+
+    const resourceType = segments.shift() || "";
+    const deliveryType = segments.shift() || "";
+    if (
+      !this.RESOURCE_TYPES.includes(resourceType) ||
+      !this.DELIVERY_TYPES.includes(deliveryType)
+    ) {
+      return null;
+    }
+
+    const parts: CloudinaryUrlParts = {
+      origin,
+      ...(cloudName ? { cloudName } : {}),
+      resourceType,
+      deliveryType,
+      transformations: [],
+      publicId: "",
+    };
+
+    if (/^s--[^/]+--$/.test(segments[0] || "")) {
+      parts.signature = segments.shift();
+    }
+
+    // The last segment is always part of the public ID
+    while (segments.length > 1 && this.isTransformation(segments[0])) {
+      parts.transformations.push(this.parseStep(segments.shift() as string));
+    }
+
+    if (segments.length > 1 && /^v\d+$/.test(segments[0])) {
+      parts.version = (segments.shift() as string).slice(1);
+    }
+
+    const publicId = segments.join("/");
+    if (!publicId) return null;
+
+    // Fetched remote URLs keep their own extension
+    const extension =
+      deliveryType === "fetch" ? null : /\.([a-z0-9]+)$/i.exec(publicId);
+    parts.publicId = extension
+      ? publicId.slice(0, -extension[0].length)
+      : publicId;
+    if (extension) parts.format = extension[1];
+    if (query) parts.query = query;
+
+    return parts;
+  }
+
+  /**
+   * Rebuild a URL from its parts
+   */
+  static build(parts: CloudinaryUrlParts): string {
+    const cloudInHost =
+      parts.cloudName &&
+      parts.origin
+        .toLowerCase()
+        .endsWith(`//${parts.cloudName}-res.cloudinary.com`.toLowerCase());
+
+    const segments = [
+      cloudInHost ? undefined : parts.cloudName,
+      parts.resourceType,
+      parts.deliveryType,
+      parts.signature,
+      this.formatTransformation(parts.transformations) || undefined,
+      parts.version ? `v${parts.version}` : undefined,
+      `${parts.publicId}${parts.format ? `.${parts.format}` : ""}`,
+    ].filter((segment): segment is string => Boolean(segment));
+
+    return `${parts.origin}/${segments.join("/")}${parts.query || ""}`;
+  }
+
+  /**
+   * Parse a transformation string such as "c_crop,w_500/e_sepia"
+   */
+  static parseTransformation(text: string): CloudinaryTransformStep[] {
+    return text
+      .split("/")
+      .filter(Boolean)
+      .map((step) => this.parseStep(step));
+  }
+
+  /**
+   * Format a transformation chain as a string
+   */
+  static formatTransformation(steps: CloudinaryTransformStep[]): string {
+    return steps
+      .map((step) =>
+        Object.entries(step)
+          .map(([key, value]) => `${key}_${value}`)
+          .join(",")
+      )
+      .filter(Boolean)
+      .join("/");
+  }
+
+  /**
+   * Merge new transformations into an existing chain. The first new step is
+   * merged into the last existing one, its parameters replacing any with the
+   * same key; further steps are appended. Overlay steps are never merged.
+   */
+  static mergeTransformations(
+    existing: CloudinaryTransformStep[],
+    updates: CloudinaryTransformStep[]
+  ): CloudinaryTransformStep[] {
+    if (!existing.length) return updates.map((step) => ({ ...step }));
+    if (!updates.length) return existing.map((step) => ({ ...step }));
+
+    const [first, ...rest] = updates;
+    if (
+      this.isLayerStep(first) ||
+      this.isLayerStep(existing[existing.length - 1])
+    ) {
+      return [...existing, ...updates].map((step) => ({ ...step }));
+    }
+
+    return [
+      ...existing.slice(0, -1).map((step) => ({ ...step })),
+      { ...existing[existing.length - 1], ...first },
+      ...rest.map((step) => ({ ...step })),
+    ];
+  }
+
+  /**
+   * Apply a transformation to a Cloudinary URL with override semantics.
+   * The signature is dropped because it no longer matches; URLs that
+   * cannot be parsed are returned unchanged.
+   */
+  static transform(
+    url: string,
+    transformation: string | CloudinaryTransformStep[]
+  ): string {
+    const parts = this.parse(url);
+    if (!parts) return url;
+
+    const updates =
+      typeof transformation === "string"
+        ? this.parseTransformation(transformation)
+        : transformation;
+    if (!updates.length) return url;
+
+    return this.build({
+      ...parts,
+      signature: undefined,
+      transformations: this.mergeTransformations(
+        parts.transformations,
+        updates
+      ),
+    });
+  }
+
+  private static isLayerStep(step: CloudinaryTransformStep): boolean {
+    return (
+      "l" in step ||
+      "u" in step ||
+      (step.fl || "").split(".").includes("layer_apply")
+    );
+  }
+
+  private static isTransformation(segment: string): boolean {
+    return segment.split(",").every((component) => {
+      const key = component.split("_")[0];
+      return (
+        component.includes("_") &&
+        (this.PARAMETERS.has(key) || key.startsWith("$"))
+      );
+    });
+  }
+
+  private static parseStep(step: string): CloudinaryTransformStep {
+    const result: CloudinaryTransformStep = {};
+    step
+      .split(",")
+      .filter(Boolean)
+      .forEach((component) => {
+        const index = component.indexOf("_");
+        result[component.slice(0, index)] = component.slice(index + 1);
+      });
+    return result;
+  }
+}
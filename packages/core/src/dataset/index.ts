@@ -10,31 +10,106 @@ import {
   SlideImageOptions,
   ImageWithCaption,
   DatasetManagerOptions,
+  ValidationResult,
+  RankedSearchResult,
+  Normalizer,
+  QueryContext,
+  SearchHit,
+  FacetOptions,
+  FacetCounts,
+  DatasetStats,
+  TransformPreset,
+  RenderOptions,
+  PresetName,
+  PreloadOptions,
+  PreloadResult,
+  EnrichOptions,
+  EnrichResult,
+  DuplicateOptions,
+  DuplicateGroup,
+  DuplicateMergeResult,
+  ImportConflictPolicy,
+  ImportSummary,
+  StorageAdapter,
 } from "../types";
 import { ImageUtils } from "../utils";
 import { VersionManager } from "../version";
+import { DatasetValidator } from "../validation";
+import { MigrationRegistry } from "../migration";
+import { SearchIndex } from "../search";
+import { TextNormalizer } from "../normalize";
+import { DatasetQuery, QuerySyntaxError } from "../query";
+import { DatasetFacets } from "../facets";
+import { ImageRenderer } from "../render";
+import { CloudinaryUrl } from "../cloudinary";
+import { CaptionFormatter } from "../caption";
+import { ImagePreloader } from "../preload";
+import { ImageInspector } from "../inspect";
+import { DuplicateDetector } from "../dedupe";
+import { DatasetImporter } from "../import";
 
 export class DatasetManager {
   private dataset: ImageDataset;
   private cache: Map<string, any> = new Map();
   private options: DatasetManagerOptions;
+  private searchIndex: SearchIndex | null = null;
+  private normalizer: Normalizer;
 
   constructor(dataset: ImageDataset, options: DatasetManagerOptions = {}) {
-    this.dataset = this.validateAndSanitizeDataset(dataset);
     this.options = {
       cacheEnabled: true,
       ...options,
     };
+    this.normalizer = options.normalizer || TextNormalizer.create();
+    this.dataset = this.validateAndSanitizeDataset(dataset);
+
+    const { history } = this.options;
+    if (history && !history.has(this.dataset.metadata.version)) {
+      history.record(this.dataset);
+    }
   }
 
   /**
-   * Create a new dataset manager from JSON data
+   * Create a new dataset manager from JSON data, migrating datasets written
+   * against an older schema version
    */
   static fromJSON(
     jsonData: any,
     options: DatasetManagerOptions = {}
   ): DatasetManager {
-    return new DatasetManager(jsonData, options);
+    const schemaVersion = MigrationRegistry.getDatasetVersion(jsonData);
+    if (!VersionManager.isCompatible(schemaVersion)) {
+      throw new Error(
+        `Unsupported schema version ${schemaVersion} (supported up to ${VersionManager.getSchemaVersion()})`
+      );
+    }
+
+    const dataset =
+      jsonData &&
+      typeof jsonData === "object" &&
+      MigrationRegistry.needsMigration(jsonData)
+        ? MigrationRegistry.migrate(jsonData).dataset
+        : jsonData;
+    return new DatasetManager(dataset, options);
+  }
+
+  /**
+   * Load a dataset through a storage adapter, migrating it like `fromJSON`.
+   * The path becomes the default for `save()`.
+   */
+  static async load(
+    path: string,
+    options: DatasetManagerOptions = {}
+  ): Promise<DatasetManager> {
+    const data = await this.requireStorage(options).read(path);
+    return this.fromJSON(data, { ...options, datasetPath: path });
+  }
+
+  /**
+   * Validate raw data against the dataset schema without loading it
+   */
+  static validate(jsonData: unknown): ValidationResult {
+    return DatasetValidator.validate(jsonData);
   }
 
   /**
@@ -106,48 +181,76 @@ export class DatasetManager {
     query: string,
     options: SearchOptions = {}
   ): ImageSearchResult[] {
-    const normalizedQuery = query.toLowerCase();
-
-    return this.getAllImages()
-      .filter((image) => {
-        // Text search in caption
-        const matchesText = image.caption
-          .toLowerCase()
-          .includes(normalizedQuery);
-
-        // Tag filter
-        const matchesTags =
-          !options.tags ||
-          options.tags.some((tag) => image.tags?.includes(tag));
-
-        // Artist filter
-        const matchesArtist =
-          !options.artist ||
-          image.metadata?.artist
-            ?.toLowerCase()
-            .includes(options.artist.toLowerCase());
-
-        // Year filter
-        const matchesYear =
-          !options.year ||
-          image.metadata?.year?.toString() === options.year.toString();
-
-        // Collection filter
-        const matchesCollection =
-          !options.collection ||
-          image.metadata?.collection
-            ?.toLowerCase()
-            .includes(options.collection.toLowerCase());
-
-        return (
-          matchesText &&
-          matchesTags &&
-          matchesArtist &&
-          matchesYear &&
-          matchesCollection
-        );
-      })
-      .slice(0, options.limit);
+    return this.search(query, options).map(
+      ({ score: _score, matches: _matches, ...image }) => image
+    );
+  }
+
+  /**
+   * Search with the query language (see DatasetQuery.parse), ranking
+   * free-text terms by relevance and annotating the fields that matched.
+   * Queries that do not parse are searched as plain words unless `strict`.
+   */
+  search(query: string, options: SearchOptions = {}): RankedSearchResult[] {
+    const node = this.parseQuery(query, options);
+    const hits = new Map<string, SearchHit>();
+    const termMatches = new Map<string, Set<string>>();
+
+    const textTerms = node ? DatasetQuery.textTerms(node) : [];
+    if (textTerms.length) {
+      this.getSearchIndex()
+        .search(textTerms.map((term) => term.value).join(" "), {
+          prefix: options.prefix,
+          fuzzy: options.fuzzy,
+          operator: "or",
+        })
+        .forEach((hit) => hits.set(hit.id, hit));
+    }
+
+    const context: QueryContext = {
+      normalizer: this.normalizer,
+      matchText: (image, term) => {
+        if (!SearchIndex.tokenize(term.value, this.normalizer).length) {
+          return true;
+        }
+        // Phrases must appear verbatim, so they skip prefix/fuzzy matching
+        if (term.phrase) {
+          return DatasetQuery.matchesText(image, term.value, this.normalizer);
+        }
+
+        let ids = termMatches.get(term.value);
+        if (!ids) {
+          ids = new Set(
+            this.getSearchIndex()
+              .search(term.value, {
+                prefix: options.prefix,
+                fuzzy: options.fuzzy,
+              })
+              .map((hit) => hit.id)
+          );
+          termMatches.set(term.value, ids);
+        }
+        return ids.has(image.id);
+      },
+    };
+
+    const results = this.getAllImages()
+      .filter(
+        (image) =>
+          (!node || DatasetQuery.matches(node, image, context)) &&
+          this.matchesFilters(image, options)
+      )
+      .map((image) => ({
+        ...image,
+        score: hits.get(image.id)?.score || 0,
+        matches: hits.get(image.id)?.matches || [],
+      }));
+
+    const offset = options.offset || 0;
+    return DatasetQuery.sort(results, options.sort, this.normalizer).slice(
+      offset,
+      options.limit === undefined ? undefined : offset + options.limit
+    );
   }
 
   /**
@@ -160,18 +263,64 @@ export class DatasetManager {
       return "";
     }
 
+    const { provider } = this.options;
+    const presets = this.getPresets();
+
     if (typeof options === "string") {
-      // If options is a string, treat it as a preset or transform
-      if (image.cloudinaryTransforms?.[options]) {
+      // If options is a string, treat it as a named transform or preset
+      const transform = this.getNamedTransform(image, options);
+      if (transform) {
+        return ImageUtils.applyTransform(image.src, transform, provider);
+      }
+      return ImageUtils.applyPreset(image.src, options, provider, presets);
+    }
+
+    if (options.preset) {
+      // Per-image transforms replace the preset; other options still apply
+      const transform = this.getNamedTransform(image, options.preset);
+      if (transform) {
+        const overrides = { ...options };
+        delete overrides.preset;
+        delete overrides.lazy;
         return ImageUtils.applyTransform(
-          image.src,
-          image.cloudinaryTransforms[options]
+          ImageUtils.applyTransform(image.src, transform, provider),
+          overrides,
+          provider
         );
       }
-      return ImageUtils.applyPreset(image.src, options as any);
     }
 
-    return ImageUtils.applySlideTransform(image.src, options);
+    return ImageUtils.applySlideTransform(
+      image.src,
+      options,
+      provider,
+      presets
+    );
+  }
+
+  /**
+   * Render responsive `<picture>`/`<img>` markup for an image, with its
+   * caption and credits in a `<figure>`
+   */
+  renderImage(id: string, options: RenderOptions | PresetName = {}): string {
+    const renderable = this.getRenderable(id, options);
+    return renderable ? ImageRenderer.render(...renderable) : "";
+  }
+
+  /**
+   * Render an image as Markdown, with its caption and credits below
+   */
+  renderMarkdown(id: string, options: RenderOptions | PresetName = {}): string {
+    const renderable = this.getRenderable(id, options);
+    return renderable ? ImageRenderer.renderMarkdown(...renderable) : "";
+  }
+
+  /**
+   * Transform presets declared in the dataset metadata
+   */
+  getPresets(): Record<string, TransformPreset> {
+    const { presets } = this.dataset.metadata;
+    return presets && typeof presets === "object" ? presets : {};
   }
 
   /**
@@ -190,6 +339,8 @@ export class DatasetManager {
         ? this.getSlideImage(id, transformOptions)
         : image.src,
       caption: image.caption,
+      captionHtml: CaptionFormatter.toHtml(image.caption),
+      captionText: CaptionFormatter.toPlainText(image.caption),
       metadata: image.metadata,
     };
   }
@@ -207,29 +358,110 @@ export class DatasetManager {
   }
 
   /**
-   * Preload images for better performance
+   * Preload transformed images, e.g. the next few slides. Unknown IDs are
+   * skipped; failures are reported per image rather than thrown.
    */
   async preloadImages(
     ids: string[],
-    transformOptions?: SlideImageOptions | string
-  ): Promise<void> {
-    const promises = ids.map((id) => {
-      const src = this.getSlideImage(id, transformOptions);
-      if (!src) return Promise.resolve();
-
-      return new Promise<void>((resolve, reject) => {
-        const img = new Image();
-        img.onload = () => resolve();
-        img.onerror = () => reject(new Error(`Failed to load image: ${src}`));
-        img.src = src;
-      });
+    transformOptions?: SlideImageOptions | string,
+    options: PreloadOptions = {}
+  ): Promise<PreloadResult[]> {
+    const targets = ids
+      .map((id) => ({ id, url: this.getSlideImage(id, transformOptions) }))
+      .filter((target) => target.url);
+
+    return ImagePreloader.load(targets, options);
+  }
+
+  /**
+   * Check that every image's source URL is reachable, with HEAD requests
+   * unless another method is given
+   */
+  async checkLinks(options: PreloadOptions = {}): Promise<PreloadResult[]> {
+    const targets = Object.entries(this.dataset.images).map(([id, image]) => ({
+      id,
+      url: image.src,
+    }));
+
+    return ImagePreloader.load(targets, {
+      ...options,
+      method: options.method || "HEAD",
     });
+  }
 
-    try {
-      await Promise.all(promises);
-    } catch (error) {
-      console.warn("Some images failed to preload:", error);
+  /**
+   * Record pixel size, format, file size and hashes for images, fetching
+   * each image's `src` unless `options.load` is given. Images that already
+   * have technical metadata are skipped unless `options.force` is set.
+   */
+  async enrich(
+    options: EnrichOptions = {},
+    message?: string
+  ): Promise<EnrichResult[]> {
+    const results = await ImageInspector.enrich(this.dataset.images, options);
+    const inspected = results.filter(
+      (result) => result.inspected && result.technical
+    );
+
+    inspected.forEach((result) => {
+      this.dataset.images[result.id].technical = result.technical;
+    });
+    if (inspected.length) {
+      this.commitChange(undefined, message);
     }
+    return results;
+  }
+
+  /**
+   * Group images that are copies or near-copies of each other
+   */
+  findDuplicates(options: DuplicateOptions = {}): DuplicateGroup[] {
+    return DuplicateDetector.find(this.dataset.images, options);
+  }
+
+  /**
+   * Merge each group's tags and metadata into its canonical image and
+   * remove the other images, as one change
+   */
+  mergeDuplicates(
+    groups: DuplicateGroup[] = this.findDuplicates(),
+    message?: string
+  ): DuplicateMergeResult[] {
+    const results = groups
+      .filter((group) => group.ids.every((id) => this.dataset.images[id]))
+      .map((group) => {
+        const merged = DuplicateDetector.merge(
+          this.dataset.images,
+          group,
+          this.normalizer
+        );
+        const removed = group.ids.filter((id) => id !== group.canonical);
+
+        this.dataset.images[group.canonical] =
+          ImageUtils.sanitizeImageData(merged);
+        this.searchIndex?.add(
+          group.canonical,
+          this.dataset.images[group.canonical]
+        );
+        removed.forEach((id) => {
+          delete this.dataset.images[id];
+          this.searchIndex?.remove(id);
+        });
+        return { canonical: group.canonical, removed };
+      });
+
+    if (results.length) {
+      this.commitChange(undefined, message);
+    }
+    return results;
+  }
+
+  /**
+   * Options the manager was created with, e.g. to create another manager
+   * that saves and normalizes the same way
+   */
+  getOptions(): DatasetManagerOptions {
+    return { ...this.options };
   }
 
   /**
@@ -240,31 +472,61 @@ export class DatasetManager {
   }
 
   /**
-   * Get all available tags
+   * Get all available tags; spellings that normalize alike are listed once
    */
   getAllTags(): string[] {
-    const tagSet = new Set<string>();
+    const tags: string[] = [];
 
     Object.values(this.dataset.images).forEach((image) => {
-      image.tags?.forEach((tag) => tagSet.add(tag));
+      image.tags?.forEach((tag) => tags.push(tag));
     });
 
-    return Array.from(tagSet).sort();
+    return TextNormalizer.dedupe(tags, this.normalizer).sort();
   }
 
   /**
-   * Get all artists
+   * Get all artists; spellings that normalize alike are listed once
    */
   getAllArtists(): string[] {
-    const artistSet = new Set<string>();
+    const artists: string[] = [];
 
     Object.values(this.dataset.images).forEach((image) => {
       if (image.metadata?.artist) {
-        artistSet.add(image.metadata.artist);
+        artists.push(image.metadata.artist);
       }
     });
 
-    return Array.from(artistSet).sort();
+    return TextNormalizer.dedupe(artists, this.normalizer).sort();
+  }
+
+  /**
+   * Facet counts for the whole dataset, or for every image matching a
+   * search (offset and limit are ignored)
+   */
+  getFacets(
+    query = "",
+    searchOptions: SearchOptions = {},
+    options: FacetOptions = {}
+  ): FacetCounts {
+    const images = this.searchImages(query, {
+      ...searchOptions,
+      offset: undefined,
+      limit: undefined,
+    });
+    return DatasetFacets.compute(images, {
+      normalizer: this.normalizer,
+      ...options,
+    });
+  }
+
+  /**
+   * Summarize image counts, metadata coverage and tag distribution
+   */
+  getStats(options: FacetOptions = {}): DatasetStats {
+    return DatasetFacets.getStats(this.dataset, {
+      normalizer: this.normalizer,
+      ...options,
+    });
   }
 
   /**
@@ -274,13 +536,31 @@ export class DatasetManager {
     return JSON.parse(JSON.stringify(this.dataset));
   }
 
+  /**
+   * Write the dataset through the storage adapter, to `path` or the path it
+   * was loaded from
+   */
+  async save(path = this.options.datasetPath): Promise<void> {
+    if (!path) {
+      throw new Error("No dataset path; pass one or set options.datasetPath");
+    }
+    await DatasetManager.requireStorage(this.options).write(
+      path,
+      this.exportDataset()
+    );
+    this.options.datasetPath = path;
+  }
+
   /**
    * Update dataset with new data
    */
-  updateDataset(newData: Partial<ImageDataset>): void {
+  updateDataset(newData: Partial<ImageDataset>, message?: string): void {
+    const previousVersion = this.dataset.metadata.version;
+
     if (newData.images) {
       Object.entries(newData.images).forEach(([id, imageData]) => {
         this.dataset.images[id] = ImageUtils.sanitizeImageData(imageData);
+        this.searchIndex?.add(id, this.dataset.images[id]);
       });
     }
 
@@ -288,39 +568,71 @@ export class DatasetManager {
       this.dataset.metadata = {
         ...this.dataset.metadata,
         ...newData.metadata,
-        updatedAt: new Date().toISOString(),
       };
     }
 
-    // Clear cache after update
-    this.clearCache();
+    // An explicit new version wins; otherwise one is generated
+    const requestedVersion = newData.metadata?.version;
+    this.commitChange(
+      requestedVersion !== previousVersion ? requestedVersion : undefined,
+      message
+    );
   }
 
   /**
    * Add new images to dataset
    */
-  addImages(images: Record<string, ImageData>): void {
+  addImages(images: Record<string, ImageData>, message?: string): void {
     Object.entries(images).forEach(([id, imageData]) => {
       this.dataset.images[id] = ImageUtils.sanitizeImageData(imageData);
+      this.searchIndex?.add(id, this.dataset.images[id]);
     });
 
-    this.dataset.metadata.updatedAt = new Date().toISOString();
-    this.clearCache();
+    this.commitChange(undefined, message);
+  }
+
+  /**
+   * Add imported images, resolving IDs that already exist with the conflict
+   * policy (default "skip"). Nothing is changed when the policy is "error"
+   * and an ID exists.
+   */
+  importImages(
+    images: Record<string, ImageData>,
+    onConflict: ImportConflictPolicy = "skip",
+    message?: string
+  ): ImportSummary {
+    const { images: accepted, summary } = DatasetImporter.resolveConflicts(
+      this.dataset.images,
+      images,
+      onConflict
+    );
+
+    if (Object.keys(accepted).length) {
+      this.addImages(accepted, message);
+    }
+    return summary;
   }
 
   /**
    * Remove image from dataset
    */
-  removeImage(id: string): boolean {
+  removeImage(id: string, message?: string): boolean {
     if (this.dataset.images[id]) {
       delete this.dataset.images[id];
-      this.dataset.metadata.updatedAt = new Date().toISOString();
-      this.clearCache();
+      this.searchIndex?.remove(id);
+      this.commitChange(undefined, message);
       return true;
     }
     return false;
   }
 
+  /**
+   * Validate the current dataset against the schema
+   */
+  validate(): ValidationResult {
+    return DatasetValidator.validate(this.dataset);
+  }
+
   /**
    * Clear cache
    */
@@ -328,10 +640,156 @@ export class DatasetManager {
     this.cache.clear();
   }
 
+  private static requireStorage(
+    options: DatasetManagerOptions
+  ): StorageAdapter {
+    if (!options.storage) {
+      throw new Error("No storage adapter available; pass options.storage");
+    }
+    return options.storage;
+  }
+
+  private parseQuery(query: string, options: SearchOptions) {
+    const parseOptions = { operator: options.operator };
+    try {
+      return DatasetQuery.parse(query, parseOptions);
+    } catch (error) {
+      if (options.strict || !(error instanceof QuerySyntaxError)) throw error;
+      return DatasetQuery.literal(query, parseOptions);
+    }
+  }
+
+  /**
+   * Check an image against the structured filters of a search
+   */
+  private matchesFilters(image: ImageData, options: SearchOptions): boolean {
+    const normalize = this.normalizer;
+
+    // Tag filter
+    const hasTag = (tag: string) =>
+      Boolean(
+        image.tags?.some((imageTag) => normalize(imageTag) === normalize(tag))
+      );
+    const matchesTags =
+      !options.tags ||
+      (options.tagMode === "all"
+        ? options.tags.every(hasTag)
+        : options.tags.some(hasTag));
+
+    // Artist filter
+    const matchesArtist =
+      !options.artist ||
+      (image.metadata?.artist &&
+        normalize(image.metadata.artist).includes(normalize(options.artist)));
+
+    // Year filter
+    const matchesYear =
+      !options.year ||
+      image.metadata?.year?.toString() === options.year.toString();
+
+    // Collection filter
+    const matchesCollection =
+      !options.collection ||
+      (image.metadata?.collection &&
+        normalize(image.metadata.collection).includes(
+          normalize(options.collection)
+        ));
+
+    return Boolean(
+      matchesTags && matchesArtist && matchesYear && matchesCollection
+    );
+  }
+
+  /**
+   * Build the full-text index on first use; mutations keep it up to date
+   */
+  private getSearchIndex(): SearchIndex {
+    if (!this.searchIndex) {
+      this.searchIndex = SearchIndex.fromImages(this.dataset.images, {
+        normalizer: this.normalizer,
+      });
+    }
+    return this.searchIndex;
+  }
+
+  /**
+   * Bump the dataset version after a mutation and record it in the history
+   */
+  private commitChange(version?: string, message?: string): void {
+    const { metadata } = this.dataset;
+    metadata.version =
+      version || VersionManager.generateVersion(metadata.version);
+    metadata.updatedAt = new Date().toISOString();
+
+    // Clear cache after update
+    this.clearCache();
+    this.options.history?.record(this.dataset, message);
+  }
+
+  /**
+   * Image-specific transform string for a name, falling back to the
+   * manager's default transforms
+   */
+  private getNamedTransform(image: ImageData, name: string): string | null {
+    return (
+      image.cloudinaryTransforms?.[name] ||
+      this.options.defaultTransforms?.[name] ||
+      null
+    );
+  }
+
+  /**
+   * Image and render options with dataset presets, the manager's provider
+   * and any per-image transform for the preset filled in
+   */
+  private getRenderable(
+    id: string,
+    options: RenderOptions | PresetName
+  ): [ImageWithCaption, RenderOptions] | null {
+    const image = this.getImage(id);
+    if (!image) {
+      console.warn(`Image with ID "${id}" not found`);
+      return null;
+    }
+
+    const renderOptions: RenderOptions = {
+      provider: this.options.provider,
+      presets: this.getPresets(),
+      ...(typeof options === "string" ? { preset: options } : options),
+    };
+    let src = image.src;
+
+    const transform =
+      renderOptions.preset &&
+      this.getNamedTransform(image, renderOptions.preset);
+    if (transform) {
+      // Per-image transforms replace the preset; size them from their w_/h_
+      src = ImageUtils.applyTransform(src, transform, renderOptions.provider);
+      delete renderOptions.preset;
+      CloudinaryUrl.parseTransformation(transform).forEach((step) => {
+        if (/^\d+$/.test(step.w || "")) {
+          renderOptions.width ??= parseInt(step.w, 10);
+        }
+        if (/^\d+$/.test(step.h || "")) {
+          renderOptions.height ??= parseInt(step.h, 10);
+        }
+      });
+    }
+
+    return [
+      { id, src, caption: image.caption, metadata: image.metadata },
+      renderOptions,
+    ];
+  }
+
   /**
    * Validate and sanitize dataset
    */
   private validateAndSanitizeDataset(dataset: any): ImageDataset {
+    if (this.options.strict) {
+      DatasetValidator.assertValid(dataset);
+    }
+
     if (!dataset || typeof dataset !== "object") {
       throw new Error("Invalid dataset: must be an object");
     }
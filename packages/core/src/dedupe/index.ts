@@ -0,0 +1,202 @@
+/**
+ * Duplicate and near-duplicate image detection
+ */
+
+import {
+  DuplicateCriterion,
+  DuplicateGroup,
+  DuplicateMatch,
+  DuplicateOptions,
+  ImageData,
+  ImageMetadata,
+  Normalizer,
+} from "../types";
+import { ImageUtils } from "../utils";
+import { TextNormalizer } from "../normalize";
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === "";
+}
+
+export class DuplicateDetector {
+  static readonly CRITERIA: DuplicateCriterion[] = [
+    "src",
+    "publicId",
+    "hash",
+    "perceptual",
+  ];
+
+  static readonly DEFAULT_THRESHOLD = 6;
+
+  /**
+   * Comparison key for a source URL: protocol, default ports, fragments and
+   * trailing slashes are ignored and the host is lowercased
+   */
+  static normalizeSrc(src: string): string {
+    try {
+      const url = new URL(src.trim());
+      return `${url.host}${url.pathname.replace(/\/+$/, "")}${url.search}`;
+    } catch {
+      return src.trim();
+    }
+  }
+
+  /**
+   * Number of differing bits between two hex hashes
+   */
+  static hammingDistance(a: string, b: string): number {
+    let distance = 0;
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+      let bits = parseInt(a[i] || "0", 16) ^ parseInt(b[i] || "0", 16);
+      for (; bits; bits >>= 1) distance += bits & 1;
+    }
+    return distance;
+  }
+
+  /**
+   * Group images that are the same picture. Images are linked by any of the
+   * criteria, so a group can join exact copies and near-duplicates; the
+   * perceptual and hash criteria need technical metadata from enrichment.
+   */
+  static find(
+    images: Record<string, ImageData>,
+    options: DuplicateOptions = {}
+  ): DuplicateGroup[] {
+    const ids = (options.ids || Object.keys(images)).filter((id) => images[id]);
+    const criteria = options.by || this.CRITERIA;
+    const threshold = options.threshold ?? this.DEFAULT_THRESHOLD;
+    const matches: DuplicateMatch[] = [];
+
+    const keys: Record<
+      Exclude<DuplicateCriterion, "perceptual">,
+      (image: ImageData) => string | null | undefined
+    > = {
+      src: (image) => this.normalizeSrc(image.src),
+      publicId: (image) => ImageUtils.extractImageId(image.src),
+      hash: (image) => image.technical?.hash,
+    };
+
+    criteria.forEach((criterion) => {
+      if (criterion === "perceptual") return;
+
+      const first = new Map<string, string>();
+      ids.forEach((id) => {
+        const key = keys[criterion](images[id]);
+        if (!key) return;
+
+        const seen = first.get(key);
+        if (seen) {
+          matches.push({ a: seen, b: id, criterion });
+        } else {
+          first.set(key, id);
+        }
+      });
+    });
+
+    if (criteria.includes("perceptual")) {
+      const hashed = ids.filter((id) => images[id].technical?.perceptualHash);
+      hashed.forEach((a, i) => {
+        hashed.slice(i + 1).forEach((b) => {
+          const distance = this.hammingDistance(
+            images[a].technical?.perceptualHash || "",
+            images[b].technical?.perceptualHash || ""
+          );
+          if (distance <= threshold) {
+            matches.push({ a, b, criterion: "perceptual", distance });
+          }
+        });
+      });
+    }
+
+    // Union-find over the matched pairs
+    const parent = new Map(ids.map((id) => [id, id]));
+    const root = (id: string): string => {
+      const up = parent.get(id) as string;
+      if (up === id) return id;
+      const top = root(up);
+      parent.set(id, top);
+      return top;
+    };
+    matches.forEach(({ a, b }) => parent.set(root(b), root(a)));
+
+    const members = new Map<string, string[]>();
+    ids.forEach((id) => {
+      const group = members.get(root(id)) || [];
+      members.set(root(id), [...group, id]);
+    });
+
+    return Array.from(members.values())
+      .filter((group) => group.length > 1)
+      .map((group) => ({
+        canonical: this.pickCanonical(group, images),
+        ids: group,
+        matches: matches.filter((match) => group.includes(match.a)),
+      }));
+  }
+
+  /**
+   * Merge a group into its canonical image: the canonical values win, the
+   * others fill missing metadata, transforms and caption, and tags are
+   * combined without duplicates
+   */
+  static merge(
+    images: Record<string, ImageData>,
+    group: DuplicateGroup,
+    normalizer?: Normalizer
+  ): ImageData {
+    const canonical = images[group.canonical];
+    const all = [
+      canonical,
+      ...group.ids
+        .filter((id) => id !== group.canonical)
+        .map((id) => images[id]),
+    ];
+
+    const metadata: ImageMetadata = {};
+    all.forEach((image) => {
+      Object.entries(image.metadata || {}).forEach(([key, value]) => {
+        if (isEmpty(metadata[key]) && !isEmpty(value)) {
+          metadata[key] = value;
+        }
+      });
+    });
+
+    return {
+      ...canonical,
+      caption: all.find((image) => image.caption)?.caption || canonical.caption,
+      metadata,
+      tags: TextNormalizer.dedupe(
+        all.flatMap((image) => image.tags || []),
+        normalizer
+      ),
+      cloudinaryTransforms: Object.assign(
+        {},
+        ...all.map((image) => image.cloudinaryTransforms || {}).reverse()
+      ),
+    };
+  }
+
+  /**
+   * The image with the most metadata and tags, then the most pixels, then
+   * the first in dataset order
+   */
+  private static pickCanonical(
+    ids: string[],
+    images: Record<string, ImageData>
+  ): string {
+    const score = (image: ImageData) => [
+      Object.values(image.metadata || {}).filter((value) => !isEmpty(value))
+        .length + (image.tags?.length || 0),
+      (image.technical?.width || 0) * (image.technical?.height || 0),
+    ];
+
+    return ids.reduce((best, id) => {
+      const [completeness, pixels] = score(images[id]);
+      const [bestCompleteness, bestPixels] = score(images[best]);
+      return completeness > bestCompleteness ||
+        (completeness === bestCompleteness && pixels > bestPixels)
+        ? id
+        : best;
+    });
+  }
+}
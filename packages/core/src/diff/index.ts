@@ -0,0 +1,246 @@
+/**
+ * Structured comparison of dataset versions
+ */
+
+import {
+  DatasetDiffResult,
+  FieldChange,
+  ImageData,
+  ImageDataset,
+  JSONPatchOperation,
+} from "../types";
+import { DatasetValidator } from "../validation";
+
+export class DatasetDiff {
+  /**
+   * Compare two datasets and report added, removed and modified images
+   */
+  static compare(from: ImageDataset, to: ImageDataset): DatasetDiffResult {
+    const result: DatasetDiffResult = {
+      from: from.metadata.version,
+      to: to.metadata.version,
+      metadata: this.compareValues("/metadata", from.metadata, to.metadata),
+      added: [],
+      removed: [],
+      modified: [],
+    };
+
+    Object.entries(from.images).forEach(([id, image]) => {
+      const after = to.images[id];
+      if (!after) {
+        result.removed.push({ id, ...image });
+        return;
+      }
+
+      const changes = this.compareImages(id, image, after);
+      if (changes.length) {
+        result.modified.push({ id, changes });
+      }
+    });
+
+    Object.entries(to.images).forEach(([id, image]) => {
+      if (!from.images[id]) {
+        result.added.push({ id, ...image });
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Field-level changes between two versions of the same image
+   */
+  static compareImages(
+    id: string,
+    before: ImageData,
+    after: ImageData
+  ): FieldChange[] {
+    return this.compareValues(
+      `/images/${DatasetValidator.toPointerSegment(id)}`,
+      before,
+      after,
+      true
+    );
+  }
+
+  /**
+   * Check whether a diff contains any change
+   */
+  static hasChanges(diff: DatasetDiffResult): boolean {
+    return (
+      diff.metadata.length > 0 ||
+      diff.added.length > 0 ||
+      diff.removed.length > 0 ||
+      diff.modified.length > 0
+    );
+  }
+
+  /**
+   * Convert a diff into RFC 6902 JSON Patch operations that turn the
+   * `from` dataset into the `to` dataset
+   */
+  static toJSONPatch(diff: DatasetDiffResult): JSONPatchOperation[] {
+    const operations: JSONPatchOperation[] = diff.metadata.map((change) =>
+      this.toOperation(change)
+    );
+
+    diff.removed.forEach(({ id }) => {
+      operations.push({
+        op: "remove",
+        path: `/images/${DatasetValidator.toPointerSegment(id)}`,
+      });
+    });
+
+    diff.modified.forEach(({ changes }) => {
+      changes.forEach((change) => operations.push(this.toOperation(change)));
+    });
+
+    diff.added.forEach(({ id, ...image }) => {
+      operations.push({
+        op: "add",
+        path: `/images/${DatasetValidator.toPointerSegment(id)}`,
+        value: image,
+      });
+    });
+
+    return operations;
+  }
+
+  /**
+   * Apply JSON Patch operations to a copy of a dataset
+   */
+  static applyPatch(
+    dataset: ImageDataset,
+    operations: JSONPatchOperation[]
+  ): ImageDataset {
+    const result = JSON.parse(JSON.stringify(dataset));
+
+    operations.forEach((operation) => {
+      const segments = operation.path
+        .split("/")
+        .slice(1)
+        .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"));
+      const key = segments.pop();
+      if (key === undefined) {
+        throw new Error("Cannot patch the dataset root");
+      }
+
+      const parent = segments.reduce((node: any, segment) => {
+        if (!node || typeof node !== "object" || !(segment in node)) {
+          throw new Error(`Patch path not found: ${operation.path}`);
+        }
+        return node[segment];
+      }, result);
+
+      if (operation.op === "remove") {
+        if (!(key in parent)) {
+          throw new Error(`Patch path not found: ${operation.path}`);
+        }
+        delete parent[key];
+      } else {
+        parent[key] = JSON.parse(JSON.stringify(operation.value));
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Deep equality for JSON values, ignoring object key order
+   */
+  static isEqual(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+    if (typeof a !== "object" || typeof b !== "object" || !a || !b) {
+      return false;
+    }
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+    if (Array.isArray(a) && Array.isArray(b)) {
+      return (
+        a.length === b.length && a.every((item, i) => this.isEqual(item, b[i]))
+      );
+    }
+
+    const aRecord = a as Record<string, unknown>;
+    const bRecord = b as Record<string, unknown>;
+    const keys = Object.keys(aRecord);
+    return (
+      keys.length === Object.keys(bRecord).length &&
+      keys.every(
+        (key) => key in bRecord && this.isEqual(aRecord[key], bRecord[key])
+      )
+    );
+  }
+
+  /**
+   * Like isEqual, but missing and empty containers are equivalent, as they
+   * are after sanitizing
+   */
+  static isEquivalent(a: unknown, b: unknown): boolean {
+    return (this.isEmpty(a) && this.isEmpty(b)) || this.isEqual(a, b);
+  }
+
+  /**
+   * Compare two records key by key. With `nested`, plain-object values
+   * (e.g. metadata, cloudinaryTransforms) are compared one level deeper.
+   */
+  private static compareValues(
+    basePath: string,
+    before: object,
+    after: object,
+    nested = false
+  ): FieldChange[] {
+    const changes: FieldChange[] = [];
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+    fields.forEach((field) => {
+      const path = `${basePath}/${DatasetValidator.toPointerSegment(field)}`;
+      const a = (before as Record<string, unknown>)[field];
+      const b = (after as Record<string, unknown>)[field];
+
+      if (this.isEquivalent(a, b)) return;
+
+      if (nested && this.isRecord(a) && this.isRecord(b)) {
+        this.compareValues(path, a, b).forEach((change) => {
+          changes.push({ ...change, field, key: change.field });
+        });
+        return;
+      }
+
+      changes.push({
+        path,
+        field,
+        kind: this.isEmpty(a)
+          ? "added"
+          : this.isEmpty(b)
+          ? "removed"
+          : "changed",
+        ...(a !== undefined ? { before: a } : {}),
+        ...(b !== undefined ? { after: b } : {}),
+      });
+    });
+
+    return changes;
+  }
+
+  private static toOperation(change: FieldChange): JSONPatchOperation {
+    if (change.after === undefined) {
+      return { op: "remove", path: change.path };
+    }
+    return {
+      op: change.before === undefined ? "add" : "replace",
+      path: change.path,
+      value: change.after,
+    };
+  }
+
+  private static isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+
+  private static isEmpty(value: unknown): boolean {
+    if (value === undefined) return true;
+    if (Array.isArray(value)) return value.length === 0;
+    return this.isRecord(value) && Object.keys(value).length === 0;
+  }
+}
@@ -0,0 +1,364 @@
+/**
+ * Exporters to interchange formats: IIIF Presentation 3.0, CSV, JSON Lines,
+ * schema.org JSON-LD and BibTeX
+ */
+
+import {
+  ExportFormat,
+  ExportOptions,
+  ExportSource,
+  IIIFCanvas,
+  IIIFLanguageMap,
+  IIIFManifest,
+  IIIFMetadataEntry,
+  ImageData,
+  ImageSearchResult,
+  JsonLdDocument,
+} from "../types";
+import { CaptionFormatter } from "../caption";
+
+const MIME_TYPES: Record<string, string> = {
+  jpeg: "image/jpeg",
+  jpg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  avif: "image/avif",
+};
+
+/** Columns that would be read back as image fields rather than metadata */
+const RESERVED_COLUMNS = [
+  "id",
+  "src",
+  "caption",
+  "tags",
+  "metadata",
+  "cloudinarytransforms",
+  "technical",
+];
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === "";
+}
+
+function stringify(value: unknown): string {
+  if (isEmpty(value)) return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+export class DatasetExporter {
+  static readonly FORMATS: ExportFormat[] = [
+    "iiif",
+    "csv",
+    "jsonl",
+    "jsonld",
+    "bibtex",
+  ];
+
+  /** Canvas size for images without technical metadata from enrichment */
+  static readonly DEFAULT_CANVAS_SIZE = 1000;
+
+  /**
+   * Export to any supported format as text
+   */
+  static export(
+    source: ExportSource,
+    format: ExportFormat,
+    options: ExportOptions = {}
+  ): string {
+    switch (format) {
+      case "iiif":
+        return JSON.stringify(this.toIIIF(source, options), null, 2);
+      case "csv":
+        return this.toCSV(source, options);
+      case "jsonl":
+        return this.toJsonLines(source);
+      case "jsonld":
+        return JSON.stringify(this.toJsonLd(source, options), null, 2);
+      case "bibtex":
+        return this.toBibTeX(source);
+      default:
+        throw new Error(
+          `Unknown export format "${format}"; expected one of ${this.FORMATS.join(
+            ", "
+          )}`
+        );
+    }
+  }
+
+  /**
+   * IIIF Presentation 3.0 manifest with one canvas per image. Canvas sizes
+   * come from technical metadata, so enrich the dataset first; images
+   * without it get a default canvas and no size on the image body.
+   */
+  static toIIIF(
+    source: ExportSource,
+    options: ExportOptions = {}
+  ): IIIFManifest {
+    if (!options.baseUrl) {
+      throw new Error("IIIF export needs a base URL for manifest IDs");
+    }
+    const base = options.baseUrl.replace(/\/+$/, "");
+    const language = options.language || "none";
+    const text = (value: string): IIIFLanguageMap => ({ [language]: [value] });
+    const dataset = Array.isArray(source) ? undefined : source.metadata;
+
+    const items = this.entries(source).map(({ id, ...image }): IIIFCanvas => {
+      const canvasId = `${base}/canvas/${encodeURIComponent(id)}`;
+      const width = image.technical?.width || this.DEFAULT_CANVAS_SIZE;
+      const height = image.technical?.height || this.DEFAULT_CANVAS_SIZE;
+      const caption = CaptionFormatter.toPlainText(image.caption || "");
+      const format = this.mimeType(image);
+
+      const metadata: IIIFMetadataEntry[] = Object.entries(image.metadata || {})
+        .filter(([, value]) => !isEmpty(value))
+        .map(([key, value]) => ({
+          label: { en: [key] },
+          value: { none: [stringify(value)] },
+        }));
+      if (image.tags?.length) {
+        metadata.push({ label: { en: ["tags"] }, value: { none: image.tags } });
+      }
+
+      return {
+        id: canvasId,
+        type: "Canvas",
+        label: text(this.title(id, image)),
+        width,
+        height,
+        ...(caption && { summary: text(caption) }),
+        ...(metadata.length && { metadata }),
+        items: [
+          {
+            id: `${canvasId}/page`,
+            type: "AnnotationPage",
+            items: [
+              {
+                id: `${canvasId}/page/image`,
+                type: "Annotation",
+                motivation: "painting",
+                body: {
+                  id: image.src,
+                  type: "Image",
+                  ...(format && { format }),
+                  // The canvas size is a guess without technical metadata
+                  ...(image.technical && {
+                    width: image.technical.width,
+                    height: image.technical.height,
+                  }),
+                },
+                target: canvasId,
+              },
+            ],
+          },
+        ],
+      };
+    });
+
+    return {
+      "@context": "http://iiif.io/api/presentation/3/context.json",
+      id: `${base}/manifest.json`,
+      type: "Manifest",
+      label: text(options.label || dataset?.description || "Image dataset"),
+      ...(dataset && {
+        metadata: [
+          { label: { en: ["version"] }, value: { none: [dataset.version] } },
+        ],
+      }),
+      items,
+    };
+  }
+
+  /**
+   * CSV with id, src, caption and tags columns followed by one column per
+   * metadata field; it reads back with DatasetImporter.fromDelimited. Tags
+   * are separated by "; ", or written as a JSON array when a tag contains
+   * "," or ";".
+   */
+  static toCSV(source: ExportSource, options: ExportOptions = {}): string {
+    const delimiter = options.delimiter || ",";
+    const entries = this.entries(source);
+    const keys = Array.from(
+      new Set(entries.flatMap((image) => Object.keys(image.metadata || {})))
+    );
+    const columns = keys.map((key) =>
+      RESERVED_COLUMNS.includes(key.toLowerCase()) ? `metadata.${key}` : key
+    );
+
+    const escape = (value: string) =>
+      value.includes(delimiter) || /["\r\n]|^\s|\s$/.test(value)
+        ? `"${value.replace(/"/g, '""')}"`
+        : value;
+    const row = (fields: string[]) => fields.map(escape).join(delimiter);
+
+    return [
+      row(["id", "src", "caption", "tags", ...columns]),
+      ...entries.map((image) =>
+        row([
+          image.id,
+          image.src,
+          image.caption || "",
+          this.tagList(image.tags || []),
+          ...keys.map((key) => stringify(image.metadata?.[key])),
+        ])
+      ),
+    ]
+      .map((line) => `${line}\n`)
+      .join("");
+  }
+
+  /**
+   * One image per line in the dataset's image shape, with its ID
+   */
+  static toJsonLines(source: ExportSource): string {
+    return this.entries(source)
+      .map((image) => `${JSON.stringify(image)}\n`)
+      .join("");
+  }
+
+  /**
+   * schema.org VisualArtwork nodes, with the Dublin Core terms most
+   * catalogues harvest alongside them
+   */
+  static toJsonLd(
+    source: ExportSource,
+    options: ExportOptions = {}
+  ): JsonLdDocument {
+    const base = options.baseUrl?.replace(/\/+$/, "");
+    const language = options.language;
+    const text = (value: string) =>
+      language && language !== "none"
+        ? { "@value": value, "@language": language }
+        : value;
+
+    const graph = this.entries(source).map(({ id, ...image }) => {
+      const metadata = image.metadata || {};
+      const name = this.title(id, image);
+      const caption = CaptionFormatter.toPlainText(image.caption || "");
+      const artist = stringify(metadata.artist);
+      const year = stringify(metadata.year);
+      const format = this.mimeType(image);
+
+      const node: Record<string, unknown> = {
+        ...(base && { "@id": `${base}/${encodeURIComponent(id)}` }),
+        "@type": "VisualArtwork",
+        identifier: id,
+        name: text(name),
+        ...(caption && caption !== name && { description: text(caption) }),
+        image: {
+          "@type": "ImageObject",
+          contentUrl: image.src,
+          ...(format && { encodingFormat: format }),
+          ...(image.technical && {
+            width: image.technical.width,
+            height: image.technical.height,
+          }),
+        },
+        ...(artist && { creator: { "@type": "Person", name: artist } }),
+        ...(year && { dateCreated: year }),
+        ...(!isEmpty(metadata.medium) && {
+          artMedium: stringify(metadata.medium),
+        }),
+        ...(!isEmpty(metadata.collection) && {
+          isPartOf: stringify(metadata.collection),
+        }),
+        ...(!isEmpty(metadata.location) && {
+          locationCreated: stringify(metadata.location),
+        }),
+        ...(image.tags?.length && { keywords: image.tags }),
+        "dc:identifier": id,
+        "dc:title": name,
+        ...(artist && { "dc:creator": artist }),
+        ...(year && { "dc:date": year }),
+        ...(image.tags?.length && { "dc:subject": image.tags }),
+        "dc:type": "StillImage",
+      };
+      return node;
+    });
+
+    return {
+      "@context": {
+        "@vocab": "https://schema.org/",
+        dc: "http://purl.org/dc/terms/",
+      },
+      "@graph": graph,
+    };
+  }
+
+  /**
+   * One @misc entry per image, keyed by image ID
+   */
+  static toBibTeX(source: ExportSource): string {
+    return this.entries(source)
+      .map(({ id, ...image }) => {
+        const metadata = image.metadata || {};
+        const note = [metadata.medium, metadata.dimensions, metadata.collection]
+          .map(stringify)
+          .filter(Boolean)
+          .join(", ");
+        const fields: [string, string][] = [
+          ["author", this.escapeTeX(stringify(metadata.artist))],
+          ["title", this.escapeTeX(this.title(id, image))],
+          ["year", this.escapeTeX(stringify(metadata.year))],
+          ["howpublished", `\\url{${image.src}}`],
+          ["note", this.escapeTeX(note)],
+          ["keywords", this.escapeTeX((image.tags || []).join(", "))],
+        ];
+
+        const body = fields
+          .filter(([, value]) => value)
+          .map(([name, value]) => `  ${name} = {${value}}`)
+          .join(",\n");
+        return `@misc{${id},\n${body}\n}\n`;
+      })
+      .join("\n");
+  }
+
+  /**
+   * Escape characters with special meaning in (La)TeX
+   */
+  static escapeTeX(text: string): string {
+    const replacements: Record<string, string> = {
+      "\\": "\\textbackslash{}",
+      "~": "\\textasciitilde{}",
+      "^": "\\textasciicircum{}",
+    };
+    return text.replace(/[\\{}&%$#_~^]/g, (char) =>
+      char in replacements ? replacements[char] : `\\${char}`
+    );
+  }
+
+  private static entries(source: ExportSource): ImageSearchResult[] {
+    return Array.isArray(source)
+      ? source
+      : Object.entries(source.images).map(([id, image]) => ({ id, ...image }));
+  }
+
+  /**
+   * The metadata title, the caption as plain text, or the ID
+   */
+  private static title(id: string, image: ImageData): string {
+    return (
+      stringify(image.metadata?.title) ||
+      CaptionFormatter.toPlainText(image.caption || "") ||
+      id
+    );
+  }
+
+  /**
+   * Tags as the importer splits them back
+   */
+  private static tagList(tags: string[]): string {
+    return tags.some((tag) => /[,;]/.test(tag))
+      ? JSON.stringify(tags)
+      : tags.join("; ");
+  }
+
+  private static mimeType(image: ImageData): string | undefined {
+    const extension = image.src
+      .split(/[?#]/)[0]
+      .match(/\.([a-z0-9]+)$/i)?.[1]
+      .toLowerCase();
+    return MIME_TYPES[image.technical?.format || extension || ""];
+  }
+}
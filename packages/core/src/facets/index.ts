@@ -0,0 +1,181 @@
+/**
+ * Facet counts and summary statistics for dataset browsing
+ */
+
+import {
+  CoverageField,
+  DatasetStats,
+  FacetCount,
+  FacetCounts,
+  FacetField,
+  FacetOptions,
+  FieldCoverage,
+  ImageDataset,
+  ImageSearchResult,
+  Normalizer,
+} from "../types";
+import { TextNormalizer } from "../normalize";
+
+export class DatasetFacets {
+  static readonly FIELDS: FacetField[] = [
+    "tags",
+    "artist",
+    "medium",
+    "collection",
+    "decade",
+  ];
+
+  static readonly COVERAGE_FIELDS: CoverageField[] = [
+    "artist",
+    "year",
+    "medium",
+    "dimensions",
+    "collection",
+    "tags",
+  ];
+
+  /**
+   * Count images per tag, artist, medium, collection and decade. Values
+   * that normalize alike are counted together; counts are sorted descending.
+   */
+  static compute(
+    images: ImageSearchResult[],
+    options: FacetOptions = {}
+  ): FacetCounts {
+    const normalize =
+      options.normalizer || ((text: string) => TextNormalizer.normalize(text));
+    const fields = options.fields || this.FIELDS;
+    const facets = {} as FacetCounts;
+
+    this.FIELDS.forEach((field) => {
+      facets[field] = fields.includes(field)
+        ? this.countValues(
+            images.map((image) => this.getFacetValues(image, field, normalize)),
+            normalize,
+            options
+          )
+        : [];
+    });
+
+    return facets;
+  }
+
+  /**
+   * Summarize image counts, metadata coverage and tag distribution
+   */
+  static getStats(
+    dataset: ImageDataset,
+    options: FacetOptions = {}
+  ): DatasetStats {
+    const normalize =
+      options.normalizer || ((text: string) => TextNormalizer.normalize(text));
+    const images = Object.entries(dataset.images).map(([id, image]) => ({
+      id,
+      ...image,
+    }));
+
+    const coverage = {} as Record<CoverageField, FieldCoverage>;
+    this.COVERAGE_FIELDS.forEach((field) => {
+      const missing = images
+        .filter((image) => !this.hasField(image, field))
+        .map((image) => image.id);
+      coverage[field] = { present: images.length - missing.length, missing };
+    });
+
+    const facets = this.compute(images, options);
+    const tagCount = images.reduce(
+      (total, image) => total + (image.tags?.length || 0),
+      0
+    );
+
+    return {
+      version: dataset.metadata.version,
+      imageCount: images.length,
+      coverage,
+      tags: {
+        distinct: new Set(
+          images.flatMap((image) =>
+            (image.tags || []).map((tag) => normalize(tag))
+          )
+        ).size,
+        untagged: coverage.tags.missing.length,
+        averagePerImage: images.length ? tagCount / images.length : 0,
+      },
+      facets,
+    };
+  }
+
+  /**
+   * Decade label for a year value, e.g. 1949 or "late 1940s" → "1940s"
+   */
+  static getDecade(
+    year: string | number | undefined,
+    normalize: Normalizer = (text) => TextNormalizer.normalize(text)
+  ): string | null {
+    if (year === undefined || year === null) return null;
+    const match = /-?\d+/.exec(normalize(String(year)));
+    if (!match) return null;
+    return `${Math.floor(Number(match[0]) / 10) * 10}s`;
+  }
+
+  private static getFacetValues(
+    image: ImageSearchResult,
+    field: FacetField,
+    normalize: Normalizer
+  ): string[] {
+    switch (field) {
+      case "tags":
+        return image.tags || [];
+      case "decade": {
+        const decade = this.getDecade(image.metadata?.year, normalize);
+        return decade ? [decade] : [];
+      }
+      default: {
+        const value = image.metadata?.[field];
+        return value ? [String(value)] : [];
+      }
+    }
+  }
+
+  /**
+   * Count each value once per image, keyed by its normalized form
+   */
+  private static countValues(
+    valuesPerImage: string[][],
+    normalize: Normalizer,
+    options: FacetOptions
+  ): FacetCount[] {
+    const counts = new Map<string, FacetCount>();
+
+    valuesPerImage.forEach((values) => {
+      const seen = new Set<string>();
+      values.forEach((value) => {
+        const key = normalize(value);
+        if (!key || seen.has(key)) return;
+        seen.add(key);
+
+        const entry = counts.get(key);
+        if (entry) {
+          entry.count++;
+        } else {
+          counts.set(key, { value, count: 1 });
+        }
+      });
+    });
+
+    const sorted = Array.from(counts.values())
+      .filter((entry) => entry.count >= (options.minCount || 1))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+
+    return options.limit ? sorted.slice(0, options.limit) : sorted;
+  }
+
+  private static hasField(
+    image: ImageSearchResult,
+    field: CoverageField
+  ): boolean {
+    if (field === "tags") return Boolean(image.tags?.length);
+    const value = image.metadata?.[field];
+    return value !== undefined && value !== null && value !== "";
+  }
+}
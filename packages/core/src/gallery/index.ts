@@ -0,0 +1,550 @@
+/**
+ * Static gallery sites: an index of thumbnails, a page per image, browse
+ * pages by tag, artist and decade, and client-side search that works
+ * without a server
+ */
+
+import {
+  GalleryFile,
+  GalleryOptions,
+  GallerySearchIndex,
+  ImageSearchResult,
+} from "../types";
+import { DatasetManager } from "../dataset";
+import { DatasetFacets } from "../facets";
+import { SearchIndex } from "../search";
+import { TextNormalizer } from "../normalize";
+import { CaptionFormatter } from "../caption";
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === "";
+}
+
+function stringify(value: unknown): string {
+  if (isEmpty(value)) return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+interface BrowseGroup {
+  label: string;
+  slug: string;
+  images: ImageSearchResult[];
+}
+
+type BrowseSection = "tags" | "artists" | "decades";
+
+const SECTION_TITLES: Record<BrowseSection, string> = {
+  tags: "Tags",
+  artists: "Artists",
+  decades: "Decades",
+};
+
+const STYLE = `:root {
+  color-scheme: light dark;
+  font-family: system-ui, sans-serif;
+  line-height: 1.5;
+}
+body {
+  margin: 0 auto;
+  max-width: 72rem;
+  padding: 1rem 1.5rem 3rem;
+}
+a {
+  color: inherit;
+}
+nav {
+  display: flex;
+  flex-wrap: wrap;
+  gap: 1rem;
+  margin-bottom: 1rem;
+}
+input[type="search"] {
+  box-sizing: border-box;
+  font: inherit;
+  padding: 0.5rem 0.75rem;
+  width: 100%;
+}
+.grid {
+  display: grid;
+  gap: 1rem;
+  grid-template-columns: repeat(auto-fill, minmax(12rem, 1fr));
+  list-style: none;
+  padding: 0;
+}
+.card {
+  display: block;
+  text-decoration: none;
+}
+.card img {
+  aspect-ratio: 3 / 2;
+  background: #8882;
+  display: block;
+  height: auto;
+  object-fit: cover;
+  width: 100%;
+}
+.card[hidden] {
+  display: none;
+}
+figure {
+  margin: 0;
+}
+figure img {
+  height: auto;
+  max-width: 100%;
+}
+dl {
+  display: grid;
+  gap: 0.25rem 1rem;
+  grid-template-columns: max-content 1fr;
+}
+dt {
+  font-weight: 600;
+}
+dd {
+  margin: 0;
+}
+.tags {
+  display: flex;
+  flex-wrap: wrap;
+  gap: 0.5rem;
+  list-style: none;
+  padding: 0;
+}
+`;
+
+/**
+ * Filters the index page's cards; mirrors TextNormalizer's default steps so
+ * queries match the prebuilt tokens
+ */
+const SEARCH_SCRIPT = String.raw`(function () {
+  var index = window.GALLERY_SEARCH;
+  var input = document.getElementById("search");
+  var status = document.getElementById("search-status");
+  if (!index || !input) return;
+
+  var cards = Array.prototype.slice.call(document.querySelectorAll("[data-id]"));
+  var tokens = Object.keys(index.tokens);
+  var persian = { "\u064a": "\u06cc", "\u0649": "\u06cc", "\u0643": "\u06a9", "\u0629": "\u0647" };
+
+  function normalize(text) {
+    return text
+      .normalize("NFKC")
+      .replace(/[\u00ad\u200b-\u200f\u2060\ufeff]/g, "")
+      .normalize("NFD")
+      .replace(/\p{M}/gu, "")
+      .replace(/\u0640/g, "")
+      .normalize("NFC")
+      .replace(/[\u064a\u0649\u0643\u0629]/g, function (char) {
+        return persian[char];
+      })
+      .replace(/[\u06f0-\u06f9\u0660-\u0669]/g, function (digit) {
+        var code = digit.charCodeAt(0);
+        return String(code - (code >= 0x06f0 ? 0x06f0 : 0x0660));
+      })
+      .toLowerCase();
+  }
+
+  // Every term must prefix-match a token of the image
+  function search(query) {
+    var terms = normalize(query).match(/[\p{L}\p{M}\p{N}]+/gu);
+    if (!terms) return null;
+
+    var found = null;
+    terms.forEach(function (term) {
+      var matches = {};
+      tokens.forEach(function (token) {
+        if (token.indexOf(term) !== 0) return;
+        index.tokens[token].forEach(function (position) {
+          matches[position] = true;
+        });
+      });
+      found = (found || Object.keys(matches).map(Number)).filter(function (position) {
+        return matches[position];
+      });
+    });
+    return found;
+  }
+
+  function update() {
+    var found = search(input.value);
+    var ids = {};
+    (found || []).forEach(function (position) {
+      ids[index.ids[position]] = true;
+    });
+    cards.forEach(function (card) {
+      card.hidden = found !== null && !ids[card.getAttribute("data-id")];
+    });
+    status.textContent =
+      found === null ? "" : found.length + " of " + index.ids.length + " images";
+  }
+
+  input.addEventListener("input", update);
+  var query = new URLSearchParams(window.location.search).get("q");
+  if (query) {
+    input.value = query;
+    update();
+  }
+})();
+`;
+
+export class GalleryBuilder {
+  static readonly DEFAULT_THUMBNAIL_PRESET = "thumbnail";
+
+  static readonly DEFAULT_DETAIL_PRESET = "hero";
+
+  /**
+   * IDs become file names, so anything that could leave the output
+   * directory or need escaping in a URL is rejected
+   */
+  static readonly ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+  /**
+   * Generate every file of the site. Pages link to each other relatively,
+   * so the output can be opened from disk or served from any path.
+   */
+  static build(
+    manager: DatasetManager,
+    options: GalleryOptions = {}
+  ): GalleryFile[] {
+    const metadata = manager.getMetadata();
+    const settings = {
+      title: options.title || metadata.description || "Image gallery",
+      thumbnailPreset: options.thumbnailPreset || this.DEFAULT_THUMBNAIL_PRESET,
+      detailPreset: options.detailPreset || this.DEFAULT_DETAIL_PRESET,
+      lang: options.lang || "en",
+    };
+    const images = manager.getAllImages();
+    const invalid = images
+      .map((image) => image.id)
+      .filter((id) => !this.ID_PATTERN.test(id));
+    if (invalid.length) {
+      throw new Error(
+        `Image IDs can only contain letters, digits, "_" and "-": ${invalid
+          .map((id) => JSON.stringify(id))
+          .join(", ")}`
+      );
+    }
+    const sections = this.groupImages(manager, images);
+    const files: GalleryFile[] = [
+      { path: "style.css", content: STYLE },
+      { path: "search.js", content: SEARCH_SCRIPT },
+      {
+        path: "search-index.js",
+        content: `window.GALLERY_SEARCH = ${JSON.stringify(
+          this.buildSearchIndex(images)
+        )};\n`,
+      },
+    ];
+
+    const page = (title: string, body: string, root: string) =>
+      this.page(title, body, root, settings);
+    const grid = (list: ImageSearchResult[], root: string) =>
+      this.grid(manager, list, root, settings.thumbnailPreset);
+
+    files.push({
+      path: "index.html",
+      content: page(
+        settings.title,
+        [
+          `<h1>${escapeHtml(settings.title)}</h1>`,
+          `<input type="search" id="search" placeholder="Search ${images.length} images" aria-label="Search images">`,
+          `<p id="search-status" role="status"></p>`,
+          grid(images, ""),
+          `<script src="search-index.js"></script>`,
+          `<script src="search.js"></script>`,
+        ].join("\n"),
+        ""
+      ),
+    });
+
+    images.forEach((image, i) => {
+      files.push({
+        path: `images/${image.id}.html`,
+        content: page(
+          this.title(image),
+          this.detail(
+            manager,
+            image,
+            sections,
+            images[i - 1],
+            images[i + 1],
+            settings.detailPreset
+          ),
+          "../"
+        ),
+      });
+    });
+
+    (Object.keys(sections) as BrowseSection[]).forEach((section) => {
+      const title = SECTION_TITLES[section];
+      files.push({
+        path: `${section}/index.html`,
+        content: page(
+          title,
+          [
+            `<h1>${title}</h1>`,
+            `<ul>`,
+            ...sections[section].map(
+              (group) =>
+                `<li><a href="${encodeURIComponent(
+                  group.slug
+                )}.html">${escapeHtml(group.label)}</a> (${
+                  group.images.length
+                })</li>`
+            ),
+            `</ul>`,
+          ].join("\n"),
+          "../"
+        ),
+      });
+
+      sections[section].forEach((group) => {
+        files.push({
+          path: `${section}/${group.slug}.html`,
+          content: page(
+            group.label,
+            [
+              `<h1>${escapeHtml(group.label)}</h1>`,
+              `<p>${
+                group.images.length
+              } image(s) · <a href="index.html">All ${title.toLowerCase()}</a></p>`,
+              grid(group.images, "../"),
+            ].join("\n"),
+            "../"
+          ),
+        });
+      });
+    });
+
+    return files;
+  }
+
+  /**
+   * Normalized tokens of each image's ID, title, caption, metadata and tags
+   */
+  static buildSearchIndex(images: ImageSearchResult[]): GallerySearchIndex {
+    const index: GallerySearchIndex = { ids: [], tokens: {} };
+
+    images.forEach((image, position) => {
+      index.ids.push(image.id);
+      const metadata = image.metadata || {};
+      const text = [
+        image.id,
+        stringify(metadata.title),
+        CaptionFormatter.toPlainText(image.caption || ""),
+        ...["artist", "year", "medium", "collection", "location"].map((key) =>
+          stringify(metadata[key])
+        ),
+        ...(image.tags || []),
+      ].join(" ");
+
+      new Set(SearchIndex.tokenize(text)).forEach((token) => {
+        (index.tokens[token] ||= []).push(position);
+      });
+    });
+
+    return index;
+  }
+
+  /**
+   * Images by tag and artist, using the manager's spellings, and by decade
+   */
+  private static groupImages(
+    manager: DatasetManager,
+    images: ImageSearchResult[]
+  ): Record<BrowseSection, BrowseGroup[]> {
+    const normalize = (text: string) => TextNormalizer.normalize(text);
+    const group = (
+      labels: string[],
+      valuesOf: (image: ImageSearchResult) => string[]
+    ): BrowseGroup[] => {
+      const slugs = new Set<string>();
+      return labels
+        .map((label) => {
+          const key = normalize(label);
+          let slug = this.slugify(label);
+          for (let n = 2; slugs.has(slug); n++)
+            slug = `${this.slugify(label)}-${n}`;
+          slugs.add(slug);
+          return {
+            label,
+            slug,
+            images: images.filter((image) =>
+              valuesOf(image).some((value) => normalize(value) === key)
+            ),
+          };
+        })
+        .filter((browse) => browse.images.length);
+    };
+
+    const decadeOf = (image: ImageSearchResult) => {
+      const decade = DatasetFacets.getDecade(image.metadata?.year);
+      return decade ? [decade] : [];
+    };
+    const decades = Array.from(new Set(images.flatMap(decadeOf))).sort(
+      (a, b) => parseInt(a, 10) - parseInt(b, 10)
+    );
+
+    return {
+      tags: group(manager.getAllTags(), (image) => image.tags || []),
+      artists: group(manager.getAllArtists(), (image) =>
+        image.metadata?.artist ? [String(image.metadata.artist)] : []
+      ),
+      decades: group(decades, decadeOf),
+    };
+  }
+
+  private static detail(
+    manager: DatasetManager,
+    image: ImageSearchResult,
+    sections: Record<BrowseSection, BrowseGroup[]>,
+    previous: ImageSearchResult | undefined,
+    next: ImageSearchResult | undefined,
+    preset: string
+  ): string {
+    const link = (section: BrowseSection, value: string) => {
+      const key = TextNormalizer.normalize(value);
+      const browse = sections[section].find(
+        (group) => TextNormalizer.normalize(group.label) === key
+      );
+      return browse
+        ? `<a href="../${section}/${encodeURIComponent(
+            browse.slug
+          )}.html">${escapeHtml(value)}</a>`
+        : escapeHtml(value);
+    };
+
+    const rows = Object.entries(image.metadata || {})
+      .filter(([, value]) => !isEmpty(value))
+      .map(([key, value]) => {
+        const text = stringify(value);
+        const html =
+          key === "artist"
+            ? link("artists", text)
+            : key === "year"
+            ? `${escapeHtml(text)} (${link(
+                "decades",
+                DatasetFacets.getDecade(text) || ""
+              )})`
+            : escapeHtml(text);
+        return `<dt>${escapeHtml(key)}</dt><dd dir="auto">${html}</dd>`;
+      });
+
+    const pager = [
+      previous &&
+        `<a href="${encodeURIComponent(
+          previous.id
+        )}.html" rel="prev">← ${escapeHtml(this.title(previous))}</a>`,
+      next &&
+        `<a href="${encodeURIComponent(next.id)}.html" rel="next">${escapeHtml(
+          this.title(next)
+        )} →</a>`,
+    ].filter(Boolean);
+
+    return [
+      `<h1 dir="auto">${escapeHtml(this.title(image))}</h1>`,
+      manager.renderImage(image.id, {
+        preset,
+        sizes: "(min-width: 72rem) 69rem, 100vw",
+      }),
+      rows.length ? `<dl>\n${rows.join("\n")}\n</dl>` : "",
+      image.tags?.length
+        ? `<ul class="tags">${image.tags
+            .map((tag) => `<li>${link("tags", tag)}</li>`)
+            .join("")}</ul>`
+        : "",
+      `<p><a href="${escapeHtml(image.src)}">Original image</a></p>`,
+      pager.length ? `<nav>${pager.join("\n")}</nav>` : "",
+    ]
+      .filter(Boolean)
+      .join("\n");
+  }
+
+  private static grid(
+    manager: DatasetManager,
+    images: ImageSearchResult[],
+    root: string,
+    preset: string
+  ): string {
+    const cards = images.map(
+      (image) =>
+        `<li class="card" data-id="${escapeHtml(
+          image.id
+        )}"><a href="${root}images/${encodeURIComponent(
+          image.id
+        )}.html">${manager.renderImage(image.id, {
+          preset,
+          figure: false,
+          sizes: "12rem",
+        })}<span dir="auto">${escapeHtml(this.title(image))}</span></a></li>`
+    );
+    return `<ul class="grid">\n${cards.join("\n")}\n</ul>`;
+  }
+
+  private static page(
+    title: string,
+    body: string,
+    root: string,
+    settings: { title: string; lang: string }
+  ): string {
+    const heading =
+      title === settings.title
+        ? escapeHtml(title)
+        : `${escapeHtml(title)} · ${escapeHtml(settings.title)}`;
+
+    return `<!DOCTYPE html>
+<html lang="${escapeHtml(settings.lang)}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${heading}</title>
+<link rel="stylesheet" href="${root}style.css">
+</head>
+<body>
+<nav><a href="${root}index.html">${escapeHtml(settings.title)}</a>${(
+      Object.keys(SECTION_TITLES) as BrowseSection[]
+    )
+      .map(
+        (section) =>
+          `<a href="${root}${section}/index.html">${SECTION_TITLES[section]}</a>`
+      )
+      .join("")}</nav>
+<main>
+${body}
+</main>
+</body>
+</html>
+`;
+  }
+
+  /**
+   * The metadata title, the caption as plain text, or the ID
+   */
+  private static title(image: ImageSearchResult): string {
+    return (
+      stringify(image.metadata?.title) ||
+      CaptionFormatter.toPlainText(image.caption || "") ||
+      image.id
+    );
+  }
+
+  /**
+   * File name for a browse page; keeps Persian and other letters
+   */
+  private static slugify(label: string): string {
+    return (
+      TextNormalizer.normalize(label)
+        .replace(/[^\p{L}\p{N}]+/gu, "-")
+        .replace(/^-+|-+$/g, "") || "untitled"
+    );
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * Persistent version history for datasets
+ */
+
+import {
+  DatasetHistory,
+  DatasetManagerOptions,
+  DatasetMetadata,
+  ImageData,
+  ImageDataset,
+  VersionChangeSet,
+  VersionHistoryEntry,
+  VersionHistoryOptions,
+  VersionHistoryRecorder,
+  VersionSummary,
+} from "../types";
+import { DatasetManager } from "../dataset";
+import { VersionManager } from "../version";
+
+export class VersionHistory implements VersionHistoryRecorder {
+  private entries: VersionHistoryEntry[];
+  private options: Required<VersionHistoryOptions>;
+
+  constructor(
+    history: DatasetHistory = { entries: [] },
+    options: VersionHistoryOptions = {}
+  ) {
+    this.entries = [...history.entries].sort((a, b) =>
+      VersionManager.compareVersions(a.version, b.version)
+    );
+    this.options = {
+      snapshotInterval: 10,
+      ...options,
+    };
+  }
+
+  /**
+   * Create a history from its serialized JSON form
+   */
+  static fromJSON(
+    jsonData: any,
+    options: VersionHistoryOptions = {}
+  ): VersionHistory {
+    if (!jsonData || !Array.isArray(jsonData.entries)) {
+      throw new Error("Invalid history: entries must be an array");
+    }
+    return new VersionHistory(jsonData, options);
+  }
+
+  /**
+   * Serialize the history for storage
+   */
+  toJSON(): DatasetHistory {
+    return VersionHistory.clone({ entries: this.entries });
+  }
+
+  /**
+   * List recorded versions, oldest first
+   */
+  list(): VersionSummary[] {
+    // Replay image IDs only, rather than rebuilding every version
+    let ids = new Set<string>();
+
+    return this.entries.map((entry) => {
+      if (entry.snapshot) {
+        ids = new Set(Object.keys(entry.snapshot.images));
+      } else if (entry.changes) {
+        Object.keys(entry.changes.upserted).forEach((id) => ids.add(id));
+        entry.changes.removed.forEach((id) => ids.delete(id));
+      }
+
+      return {
+        version: entry.version,
+        timestamp: entry.timestamp,
+        message: entry.message,
+        imageCount: ids.size,
+        kind: entry.snapshot ? "snapshot" : "changes",
+      };
+    });
+  }
+
+  /**
+   * Check whether a version has been recorded
+   */
+  has(version: string): boolean {
+    return this.indexOf(version) !== -1;
+  }
+
+  /**
+   * Get the most recently recorded version
+   */
+  latest(): string | null {
+    return this.entries.length
+      ? this.entries[this.entries.length - 1].version
+      : null;
+  }
+
+  /**
+   * Check whether a dataset differs from the latest recorded version,
+   * ignoring version bookkeeping fields
+   */
+  hasChanges(dataset: ImageDataset): boolean {
+    const latest = this.latest();
+    if (!latest) return true;
+    return !VersionHistory.isSameContent(this.getDataset(latest), dataset);
+  }
+
+  /**
+   * Record a new version of the dataset. Returns null when nothing changed
+   * since the latest recorded version.
+   */
+  record(dataset: ImageDataset, message?: string): VersionHistoryEntry | null {
+    const latest = this.latest();
+    const { version } = dataset.metadata;
+
+    if (latest && !this.hasChanges(dataset)) {
+      return null;
+    }
+
+    if (latest && VersionManager.compareVersions(version, latest) <= 0) {
+      throw new Error(
+        `Cannot record version "${version}": it must be newer than "${latest}"`
+      );
+    }
+
+    const entry: VersionHistoryEntry = {
+      version,
+      timestamp: new Date().toISOString(),
+      ...(message ? { message } : {}),
+    };
+
+    if (!latest || this.entries.length % this.options.snapshotInterval === 0) {
+      entry.snapshot = VersionHistory.clone(dataset);
+    } else {
+      entry.changes = VersionHistory.computeChanges(
+        this.getDataset(latest),
+        dataset
+      );
+    }
+
+    this.entries.push(entry);
+    return VersionHistory.clone(entry);
+  }
+
+  /**
+   * Reconstruct the dataset as it was at a given version
+   */
+  getDataset(version: string): ImageDataset {
+    const index = this.indexOf(version);
+    if (index === -1) {
+      throw new Error(`Version "${version}" not found in history`);
+    }
+
+    let start = index;
+    while (start > 0 && !this.entries[start].snapshot) {
+      start--;
+    }
+
+    const base = this.entries[start].snapshot;
+    if (!base) {
+      throw new Error(`History is missing a snapshot before "${version}"`);
+    }
+
+    const dataset = VersionHistory.clone(base);
+    for (let i = start + 1; i <= index; i++) {
+      const { changes } = this.entries[i];
+      if (changes) {
+        VersionHistory.applyChanges(dataset, changes);
+      }
+    }
+
+    return dataset;
+  }
+
+  /**
+   * Load a past version into a new dataset manager
+   */
+  checkout(
+    version: string,
+    options: DatasetManagerOptions = {}
+  ): DatasetManager {
+    return new DatasetManager(this.getDataset(version), options);
+  }
+
+  /**
+   * Restore the content of a past version as a new version on top of the
+   * history, so the rollback itself can be undone. When the latest version
+   * already has that content, nothing is recorded and it is returned as is.
+   */
+  rollback(version: string, message?: string): ImageDataset {
+    const target = this.getDataset(version);
+    const latest = this.latest();
+    const current = latest ? this.getDataset(latest) : target;
+
+    const dataset: ImageDataset = {
+      ...target,
+      metadata: {
+        ...target.metadata,
+        createdAt: current.metadata.createdAt,
+        version: VersionManager.generateVersion(latest || undefined),
+        updatedAt: new Date().toISOString(),
+      },
+    };
+
+    return this.record(dataset, message || `Rollback to ${version}`)
+      ? dataset
+      : current;
+  }
+
+  private indexOf(version: string): number {
+    return this.entries.findIndex((entry) => entry.version === version);
+  }
+
+  private static clone<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+  }
+
+  private static isSameImage(a: ImageData, b: ImageData): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+
+  private static isSameContent(a: ImageDataset, b: ImageDataset): boolean {
+    const strip = ({ version: _v, updatedAt: _u, ...rest }: DatasetMetadata) =>
+      rest;
+
+    if (
+      JSON.stringify(strip(a.metadata)) !== JSON.stringify(strip(b.metadata))
+    ) {
+      return false;
+    }
+
+    const ids = Object.keys(a.images);
+    return (
+      ids.length === Object.keys(b.images).length &&
+      ids.every(
+        (id) => b.images[id] && this.isSameImage(a.images[id], b.images[id])
+      )
+    );
+  }
+
+  private static computeChanges(
+    previous: ImageDataset,
+    next: ImageDataset
+  ): VersionChangeSet {
+    const upserted: Record<string, ImageData> = {};
+
+    Object.entries(next.images).forEach(([id, image]) => {
+      const before = previous.images[id];
+      if (!before || !this.isSameImage(before, image)) {
+        upserted[id] = this.clone(image);
+      }
+    });
+
+    return {
+      metadata: this.clone(next.metadata),
+      upserted,
+      removed: Object.keys(previous.images).filter((id) => !next.images[id]),
+    };
+  }
+
+  private static applyChanges(
+    dataset: ImageDataset,
+    changes: VersionChangeSet
+  ): void {
+    dataset.metadata = this.clone(changes.metadata);
+    Object.entries(changes.upserted).forEach(([id, image]) => {
+      dataset.images[id] = this.clone(image);
+    });
+    changes.removed.forEach((id) => {
+      delete dataset.images[id];
+    });
+  }
+}
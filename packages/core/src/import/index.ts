@@ -0,0 +1,468 @@
+/**
+ * Bulk import of images from CSV/TSV, JSON Lines and file listings
+ */
+
+import {
+  DelimitedImportOptions,
+  FileImportOptions,
+  ImageData,
+  ImageMetadata,
+  ImportConflictPolicy,
+  ImportFile,
+  ImportIssue,
+  ImportOptions,
+  ImportResult,
+  ImportSummary,
+} from "../types";
+import { TextNormalizer } from "../normalize";
+
+/**
+ * Thrown by the "error" conflict policy when imported IDs already exist
+ */
+export class ImportConflictError extends Error {
+  readonly ids: string[];
+
+  constructor(ids: string[]) {
+    super(`Images already exist: ${ids.join(", ")}`);
+    this.name = "ImportConflictError";
+    this.ids = ids;
+  }
+}
+
+/** Image ID pattern of the dataset schema */
+const ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+const IMAGE_EXTENSION = /\.(jpe?g|png|webp|gif|avif)$/i;
+
+const IMAGE_FIELDS = [
+  "id",
+  "src",
+  "caption",
+  "tags",
+  "metadata",
+  "cloudinaryTransforms",
+  "technical",
+];
+
+const METADATA_FIELDS = [
+  "artist",
+  "year",
+  "medium",
+  "dimensions",
+  "collection",
+  "location",
+];
+
+type ImportRecord = Record<string, unknown>;
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === "";
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Tags from a list or a separated string. A JSON array string, as exported
+ * for tags that contain separators, is read as the list it encodes.
+ */
+function parseTags(value: unknown, separator: string | RegExp): string[] {
+  if (Array.isArray(value)) return value.map(String);
+
+  const text = String(value);
+  if (text.trim().startsWith("[")) {
+    try {
+      const list: unknown = JSON.parse(text);
+      if (Array.isArray(list)) return list.map(String);
+    } catch {
+      // Not JSON; split it like any other list
+    }
+  }
+  return text.split(separator);
+}
+
+export class DatasetImporter {
+  static readonly CONFLICT_POLICIES: ImportConflictPolicy[] = [
+    "skip",
+    "overwrite",
+    "merge",
+    "rename",
+    "error",
+  ];
+
+  /**
+   * Split CSV-style text into rows of fields. Quoted fields may contain
+   * delimiters, newlines and doubled quotes; blank lines are skipped.
+   */
+  static parseDelimited(text: string, delimiter = ","): string[][] {
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let quoted = false;
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+      if (quoted) {
+        if (char === '"' && input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"' && field === "") {
+        quoted = true;
+      } else if (char === delimiter) {
+        row.push(field);
+        field = "";
+      } else if (char === "\n" || char === "\r") {
+        if (char === "\r" && input[i + 1] === "\n") i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = "";
+      } else {
+        field += char;
+      }
+    }
+    row.push(field);
+    rows.push(row);
+
+    return rows.filter((fields) => fields.some((value) => value.trim()));
+  }
+
+  /**
+   * Images from CSV or TSV with a header row. Columns map to image fields
+   * by name unless `options.mapping` says otherwise.
+   */
+  static fromDelimited(
+    text: string,
+    options: DelimitedImportOptions = {}
+  ): ImportResult {
+    const [header = [], ...rows] = this.parseDelimited(
+      text,
+      options.delimiter || ","
+    );
+    const columns = header.map((column) => column.trim());
+    const issues: ImportIssue[] = [];
+
+    const records = rows.flatMap((fields, index) => {
+      const source = `row ${index + 1}`;
+      if (fields.length > columns.length) {
+        issues.push({
+          source,
+          reason: `Expected ${columns.length} fields, found ${fields.length}`,
+        });
+        return [];
+      }
+      const record = Object.fromEntries(
+        columns.map((column, i) => [column, fields[i]?.trim()])
+      );
+      return [{ source, record }];
+    });
+
+    return this.collect(records, options, issues);
+  }
+
+  /**
+   * Images from JSON Lines: one object per line, either in the dataset's
+   * image shape (with an "id") or flat like a CSV row
+   */
+  static fromJsonLines(
+    text: string,
+    options: ImportOptions = {}
+  ): ImportResult {
+    const issues: ImportIssue[] = [];
+
+    const records = text.split(/\r?\n/).flatMap((line, index) => {
+      const source = `line ${index + 1}`;
+      if (!line.trim()) return [];
+
+      try {
+        const record = JSON.parse(line);
+        if (isObject(record)) return [{ source, record }];
+        issues.push({ source, reason: "Expected a JSON object" });
+      } catch (error: any) {
+        issues.push({ source, reason: `Invalid JSON: ${error.message}` });
+      }
+      return [];
+    });
+
+    return this.collect(records, options, issues);
+  }
+
+  /**
+   * Images from a list of image files, one per file, with IDs taken from
+   * the file names. Names that are not valid IDs are reported unless
+   * `options.slugify` turns them into ones.
+   */
+  static fromFiles(
+    files: ImportFile[],
+    options: FileImportOptions = {}
+  ): ImportResult {
+    const images: Record<string, ImageData> = {};
+    const issues: ImportIssue[] = [];
+
+    files.forEach((file) => {
+      const source = file.name;
+      if (!this.isImageFile(file.name)) {
+        issues.push({ source, reason: "Not a supported image file" });
+        return;
+      }
+
+      const name = file.name.replace(IMAGE_EXTENSION, "");
+      const id =
+        ID_PATTERN.test(name) || !options.slugify ? name : this.toId(name);
+      const src = options.baseUrl
+        ? `${options.baseUrl.replace(/\/?$/, "/")}${encodeURIComponent(
+            file.name
+          )}`
+        : file.url;
+
+      if (!ID_PATTERN.test(id)) {
+        issues.push({ source, reason: `"${name}" is not a valid image ID` });
+      } else if (!src) {
+        issues.push({ source, reason: "No URL; pass a base URL" });
+      } else if (images[id]) {
+        issues.push({ source, reason: `Duplicate image ID "${id}"` });
+      } else {
+        images[id] = { src, caption: "" };
+      }
+    });
+
+    return { images, issues };
+  }
+
+  /**
+   * Whether a file name has a JPEG, PNG, WebP, GIF or AVIF extension
+   */
+  static isImageFile(name: string): boolean {
+    return IMAGE_EXTENSION.test(name);
+  }
+
+  /**
+   * Turn a file name into a valid image ID, e.g. "Khorus Jangi (1).png"
+   * into "Khorus_Jangi_1"
+   */
+  static toId(name: string): string {
+    return TextNormalizer.foldDiacritics(name.replace(/\.[a-z0-9]+$/i, ""))
+      .replace(/[^a-zA-Z0-9_-]+/g, "_")
+      .replace(/^_+|_+$/g, "");
+  }
+
+  /**
+   * Decide which imported images to store under which ID, following the
+   * conflict policy for IDs that already exist
+   */
+  static resolveConflicts(
+    existing: Record<string, ImageData>,
+    incoming: Record<string, ImageData>,
+    policy: ImportConflictPolicy = "skip"
+  ): { images: Record<string, ImageData>; summary: ImportSummary } {
+    if (!this.CONFLICT_POLICIES.includes(policy)) {
+      throw new Error(
+        `Unknown conflict policy "${policy}"; expected one of ${this.CONFLICT_POLICIES.join(
+          ", "
+        )}`
+      );
+    }
+
+    const conflicts = Object.keys(incoming).filter((id) => existing[id]);
+    if (policy === "error" && conflicts.length) {
+      throw new ImportConflictError(conflicts);
+    }
+
+    const images: Record<string, ImageData> = {};
+    const summary: ImportSummary = {
+      added: [],
+      updated: [],
+      skipped: [],
+      renamed: {},
+    };
+    const taken = (id: string) => existing[id] || incoming[id] || images[id];
+
+    Object.entries(incoming).forEach(([id, image]) => {
+      if (!existing[id]) {
+        images[id] = image;
+        summary.added.push(id);
+        return;
+      }
+
+      switch (policy) {
+        case "overwrite":
+          images[id] = image;
+          summary.updated.push(id);
+          break;
+        case "merge":
+          images[id] = this.mergeImage(existing[id], image);
+          summary.updated.push(id);
+          break;
+        case "rename": {
+          let suffix = 2;
+          while (taken(`${id}_${suffix}`)) suffix++;
+          images[`${id}_${suffix}`] = image;
+          summary.added.push(`${id}_${suffix}`);
+          summary.renamed[id] = `${id}_${suffix}`;
+          break;
+        }
+        case "skip":
+          summary.skipped.push(id);
+      }
+    });
+
+    return { images, summary };
+  }
+
+  /**
+   * Imported values win; metadata and transforms are merged key by key and
+   * tags combined. Technical metadata is dropped when the source changes.
+   */
+  private static mergeImage(
+    existing: ImageData,
+    incoming: ImageData
+  ): ImageData {
+    const src = incoming.src || existing.src;
+    const technical =
+      incoming.technical ||
+      (src === existing.src ? existing.technical : undefined);
+
+    return {
+      src,
+      caption: incoming.caption || existing.caption,
+      metadata: { ...existing.metadata, ...incoming.metadata },
+      tags: TextNormalizer.dedupe([
+        ...(existing.tags || []),
+        ...(incoming.tags || []),
+      ]),
+      cloudinaryTransforms: {
+        ...existing.cloudinaryTransforms,
+        ...incoming.cloudinaryTransforms,
+      },
+      ...(technical && { technical }),
+    };
+  }
+
+  /**
+   * Map records to images, deriving missing IDs from the source file name
+   */
+  private static collect(
+    records: { source: string; record: ImportRecord }[],
+    options: ImportOptions,
+    issues: ImportIssue[]
+  ): ImportResult {
+    const images: Record<string, ImageData> = {};
+
+    records.forEach(({ source, record }) => {
+      const { id: explicitId, image } = this.mapRecord(record, options);
+      if (!image.src) {
+        issues.push({ source, reason: "Missing src" });
+        return;
+      }
+
+      const fileName = image.src.split(/[?#]/)[0].split("/").pop() || "";
+      let id = explicitId;
+      if (!id) {
+        try {
+          id = this.toId(decodeURIComponent(fileName));
+        } catch {
+          issues.push({ source, reason: `Malformed URL "${image.src}"` });
+          return;
+        }
+      }
+      if (!ID_PATTERN.test(id)) {
+        issues.push({ source, reason: `"${id}" is not a valid image ID` });
+      } else if (images[id]) {
+        issues.push({ source, reason: `Duplicate image ID "${id}"` });
+      } else {
+        images[id] = image;
+      }
+    });
+
+    return { images, issues };
+  }
+
+  private static mapRecord(
+    record: ImportRecord,
+    options: ImportOptions
+  ): { id?: string; image: ImageData } {
+    const mapping = options.mapping || {};
+    const separator = options.tagSeparator || /[,;]/;
+    const image: ImageData = { src: "", caption: "" };
+    const metadata: ImageMetadata = {};
+    const transforms: Record<string, string> = {};
+    let id: string | undefined;
+
+    Object.entries(record).forEach(([column, value]) => {
+      const target =
+        column in mapping
+          ? mapping[column]
+          : this.defaultTarget(column, options);
+      if (!target || isEmpty(value)) return;
+
+      const [field, ...path] = target.split(".");
+      const key = path.join(".");
+      switch (field) {
+        case "id":
+          id = String(value).trim();
+          break;
+        case "src":
+        case "caption":
+          image[field] = String(value).trim();
+          break;
+        case "tags":
+          image.tags = [
+            ...(image.tags || []),
+            ...parseTags(value, separator)
+              .map((tag) => tag.trim())
+              .filter(Boolean),
+          ];
+          break;
+        case "metadata":
+          if (key) {
+            // Years written as digits become numbers, as in hand-written datasets
+            metadata[key] =
+              key === "year" && /^\d+$/.test(String(value))
+                ? Number(value)
+                : value;
+          } else if (isObject(value)) {
+            Object.assign(metadata, value);
+          }
+          break;
+        case "cloudinaryTransforms":
+          if (key) {
+            transforms[key] = String(value);
+          } else if (isObject(value)) {
+            Object.assign(transforms, value);
+          }
+          break;
+        case "technical":
+          if (isObject(value)) {
+            image.technical = value as unknown as ImageData["technical"];
+          }
+          break;
+      }
+    });
+
+    if (Object.keys(metadata).length) image.metadata = metadata;
+    if (Object.keys(transforms).length) image.cloudinaryTransforms = transforms;
+    return { id, image };
+  }
+
+  /**
+   * Image fields by name (case-insensitively), well-known metadata fields,
+   * then other columns as metadata
+   */
+  private static defaultTarget(column: string, options: ImportOptions): string {
+    const name = column.trim();
+    const lower = name.toLowerCase();
+    const field = IMAGE_FIELDS.find((known) => known.toLowerCase() === lower);
+
+    if (field) return field;
+    if (/^(metadata|cloudinaryTransforms)\./.test(name)) return name;
+    if (METADATA_FIELDS.includes(lower)) return `metadata.${lower}`;
+    return options.unmappedAsMetadata === false ? "" : `metadata.${name}`;
+  }
+}
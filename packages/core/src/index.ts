@@ -10,8 +10,35 @@ export * from "./types";
 
 // Export core classes
 export { DatasetManager } from "./dataset";
-export { ImageUtils } from "./utils";
+export { ImageUtils, TransformValidationError } from "./utils";
 export { VersionManager } from "./version";
+export { DatasetValidator, DatasetValidationError } from "./validation";
+export { DATASET_SCHEMA } from "./schema";
+export { VersionHistory } from "./history";
+export { DatasetDiff } from "./diff";
+export { DatasetMerge } from "./merge";
+export { MigrationRegistry } from "./migration";
+export { SearchIndex } from "./search";
+export { TextNormalizer } from "./normalize";
+export { DatasetQuery, QuerySyntaxError } from "./query";
+export { DatasetFacets } from "./facets";
+export { ProviderRegistry } from "./providers";
+export { CloudinaryUrl } from "./cloudinary";
+export { ImageRenderer } from "./render";
+export { CaptionFormatter } from "./caption";
+export { ImagePreloader } from "./preload";
+export { ImageInspector } from "./inspect";
+export { DuplicateDetector } from "./dedupe";
+export { DatasetImporter, ImportConflictError } from "./import";
+export { DatasetExporter } from "./export";
+export { GalleryBuilder } from "./gallery";
+export { DatasetApi, ApiError } from "./api";
+export {
+  FileStorage,
+  MemoryStorage,
+  SqliteStorage,
+  StorageLockError,
+} from "./storage";
 
 // Export convenience functions
 import { DatasetManager } from "./dataset";
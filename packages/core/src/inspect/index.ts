@@ -0,0 +1,471 @@
+/**
+ * Technical metadata from image files: pixel size and format from the
+ * header, content and perceptual hashes, and dataset enrichment
+ */
+
+import {
+  EnrichOptions,
+  EnrichResult,
+  ImageData,
+  ImageFormat,
+  ImageHeader,
+  InspectOptions,
+  PixelData,
+  TechnicalMetadata,
+} from "../types";
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/** Channels per pixel for each PNG color type */
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+function u16(bytes: Uint8Array, offset: number, littleEndian = false): number {
+  return littleEndian
+    ? bytes[offset] | (bytes[offset + 1] << 8)
+    : (bytes[offset] << 8) | bytes[offset + 1];
+}
+
+function u24le(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+}
+
+function u32(bytes: Uint8Array, offset: number, littleEndian = false): number {
+  return littleEndian
+    ? (u16(bytes, offset + 2, true) * 0x10000 + u16(bytes, offset, true)) >>> 0
+    : (u16(bytes, offset) * 0x10000 + u16(bytes, offset + 2)) >>> 0;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+    ""
+  );
+}
+
+function readPng(bytes: Uint8Array): [number, number] | null {
+  if (!PNG_SIGNATURE.every((byte, i) => bytes[i] === byte)) return null;
+  return ascii(bytes, 12, 4) === "IHDR"
+    ? [u32(bytes, 16), u32(bytes, 20)]
+    : null;
+}
+
+function readGif(bytes: Uint8Array): [number, number] | null {
+  return /^GIF8[79]a$/.test(ascii(bytes, 0, 6))
+    ? [u16(bytes, 6, true), u16(bytes, 8, true)]
+    : null;
+}
+
+function readWebp(bytes: Uint8Array): [number, number] | null {
+  if (ascii(bytes, 0, 4) !== "RIFF" || ascii(bytes, 8, 4) !== "WEBP") {
+    return null;
+  }
+
+  switch (ascii(bytes, 12, 4)) {
+    case "VP8 ":
+      return [u16(bytes, 26, true) & 0x3fff, u16(bytes, 28, true) & 0x3fff];
+    case "VP8L": {
+      const bits = u32(bytes, 21, true);
+      return [(bits & 0x3fff) + 1, ((bits >>> 14) & 0x3fff) + 1];
+    }
+    case "VP8X":
+      return [u24le(bytes, 24) + 1, u24le(bytes, 27) + 1];
+    default:
+      return null;
+  }
+}
+
+/**
+ * EXIF orientation from an APP1 segment; 5 to 8 are rotated a quarter turn
+ */
+function readExifOrientation(bytes: Uint8Array, offset: number): number {
+  if (ascii(bytes, offset, 6) !== "Exif\0\0") return 1;
+
+  const tiff = offset + 6;
+  const littleEndian = ascii(bytes, tiff, 2) === "II";
+  const ifd = tiff + u32(bytes, tiff + 4, littleEndian);
+  const entries = u16(bytes, ifd, littleEndian);
+
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (u16(bytes, entry, littleEndian) === 0x0112) {
+      return u16(bytes, entry + 8, littleEndian);
+    }
+  }
+  return 1;
+}
+
+function readJpeg(bytes: Uint8Array): [number, number] | null {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+
+  let orientation = 1;
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+
+    const marker = bytes[offset + 1];
+    // Fill bytes and markers without a length
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd9)) {
+      offset += 2;
+      continue;
+    }
+
+    if (marker === 0xe1) {
+      orientation = readExifOrientation(bytes, offset + 4);
+    }
+    // Start of frame, except DHT (C4), JPG (C8) and DAC (CC)
+    if (
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      ![0xc4, 0xc8, 0xcc].includes(marker)
+    ) {
+      const height = u16(bytes, offset + 5);
+      const width = u16(bytes, offset + 7);
+      return orientation >= 5 ? [height, width] : [width, height];
+    }
+    offset += 2 + u16(bytes, offset + 2);
+  }
+  return null;
+}
+
+/**
+ * AVIF keeps image sizes in "ispe" properties; the largest is the primary
+ * image rather than a thumbnail
+ */
+function readAvif(bytes: Uint8Array): [number, number] | null {
+  if (ascii(bytes, 4, 4) !== "ftyp") return null;
+
+  const ftypEnd = Math.min(u32(bytes, 0), bytes.length);
+  const brands = ascii(bytes, 8, ftypEnd - 8);
+  if (!/avi[fs]/.test(brands)) return null;
+
+  let size: [number, number] | null = null;
+  for (let i = ftypEnd; i + 16 <= bytes.length; i++) {
+    if (
+      bytes[i] === 0x69 &&
+      bytes[i + 1] === 0x73 &&
+      bytes[i + 2] === 0x70 &&
+      bytes[i + 3] === 0x65
+    ) {
+      const width = u32(bytes, i + 8);
+      const height = u32(bytes, i + 12);
+      if (!size || width * height > size[0] * size[1]) size = [width, height];
+    }
+  }
+  return size;
+}
+
+const READERS: [ImageFormat, (bytes: Uint8Array) => [number, number] | null][] =
+  [
+    ["png", readPng],
+    ["jpeg", readJpeg],
+    ["gif", readGif],
+    ["webp", readWebp],
+    ["avif", readAvif],
+  ];
+
+async function inflate(data: Uint8Array): Promise<Uint8Array | null> {
+  if (typeof DecompressionStream !== "function") return null;
+
+  const stream = new DecompressionStream("deflate");
+  const writer = stream.writable.getWriter();
+  writer.write(data as BufferSource);
+  writer.close();
+  return new Uint8Array(await new Response(stream.readable).arrayBuffer());
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const p = left + up - upLeft;
+  const pa = Math.abs(p - left);
+  const pb = Math.abs(p - up);
+  const pc = Math.abs(p - upLeft);
+  return pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+}
+
+export class ImageInspector {
+  static readonly DEFAULT_CONCURRENCY = 4;
+  static readonly DEFAULT_TIMEOUT = 30000;
+
+  /**
+   * Read the format and pixel size from an image's first bytes; null for
+   * unrecognized formats. JPEG sizes follow the EXIF orientation.
+   */
+  static readHeader(bytes: Uint8Array): ImageHeader | null {
+    for (const [format, read] of READERS) {
+      const size = read(bytes);
+      if (size) {
+        const [width, height] = size;
+        return width > 0 && height > 0 ? { format, width, height } : null;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * SHA-256 of the file contents as "sha256:<hex>"
+   */
+  static async hash(bytes: Uint8Array): Promise<string> {
+    if (!globalThis.crypto?.subtle) {
+      throw new Error("Web Crypto is not available in this environment");
+    }
+    const digest = await globalThis.crypto.subtle.digest(
+      "SHA-256",
+      bytes as BufferSource
+    );
+    return `sha256:${toHex(new Uint8Array(digest))}`;
+  }
+
+  /**
+   * 64-bit difference hash: the image is shrunk to 9×8 gray cells and each
+   * bit records whether a cell is darker than its right neighbour. Similar
+   * images differ in few bits regardless of size, format or compression.
+   */
+  static perceptualHash(pixels: PixelData): string {
+    const { width, height, data } = pixels;
+    const cells: number[] = [];
+
+    for (let cy = 0; cy < 8; cy++) {
+      const y0 = Math.floor((cy * height) / 8);
+      const y1 = Math.max(y0 + 1, Math.floor(((cy + 1) * height) / 8));
+      for (let cx = 0; cx < 9; cx++) {
+        const x0 = Math.floor((cx * width) / 9);
+        const x1 = Math.max(x0 + 1, Math.floor(((cx + 1) * width) / 9));
+        let sum = 0;
+        for (let y = y0; y < y1; y++) {
+          for (let x = x0; x < x1; x++) {
+            const i = (y * width + x) * 4;
+            const gray =
+              0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+            // Transparent areas count as white
+            const alpha = data[i + 3] / 255;
+            sum += gray * alpha + 255 * (1 - alpha);
+          }
+        }
+        cells.push(sum / ((y1 - y0) * (x1 - x0)));
+      }
+    }
+
+    let hash = "";
+    for (let row = 0; row < 8; row++) {
+      let byte = 0;
+      for (let x = 0; x < 8; x++) {
+        const left = cells[row * 9 + x];
+        const right = cells[row * 9 + x + 1];
+        byte = (byte << 1) | (left < right ? 1 : 0);
+      }
+      hash += byte.toString(16).padStart(2, "0");
+    }
+    return hash;
+  }
+
+  /**
+   * Decode a non-interlaced PNG to RGBA pixels; null for interlaced images
+   * or where DecompressionStream is unavailable
+   */
+  static async decodePng(bytes: Uint8Array): Promise<PixelData | null> {
+    if (!readPng(bytes)) return null;
+
+    const width = u32(bytes, 16);
+    const height = u32(bytes, 20);
+    const bitDepth = bytes[24];
+    const colorType = bytes[25];
+    const channels = PNG_CHANNELS[colorType];
+    if (!channels || bytes[28] !== 0) return null;
+
+    let palette: Uint8Array | null = null;
+    let transparency: Uint8Array | null = null;
+    const chunks: Uint8Array[] = [];
+    for (let offset = 8; offset + 8 <= bytes.length; ) {
+      const length = u32(bytes, offset);
+      const type = ascii(bytes, offset + 4, 4);
+      const data = bytes.subarray(offset + 8, offset + 8 + length);
+      if (type === "PLTE") palette = data;
+      if (type === "tRNS") transparency = data;
+      if (type === "IDAT") chunks.push(data);
+      if (type === "IEND") break;
+      offset += 12 + length;
+    }
+
+    const compressed = new Uint8Array(
+      chunks.reduce((total, chunk) => total + chunk.length, 0)
+    );
+    chunks.reduce((offset, chunk) => {
+      compressed.set(chunk, offset);
+      return offset + chunk.length;
+    }, 0);
+    const raw = await inflate(compressed);
+    if (!raw) return null;
+
+    const bitsPerPixel = channels * bitDepth;
+    const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+    const rowBytes = Math.ceil((width * bitsPerPixel) / 8);
+    const maxSample = (1 << Math.min(bitDepth, 8)) - 1;
+    const rgba = new Uint8Array(width * height * 4);
+    let previous = new Uint8Array(rowBytes);
+
+    for (let y = 0; y < height; y++) {
+      const start = y * (rowBytes + 1);
+      const filter = raw[start];
+      const row = raw.slice(start + 1, start + 1 + rowBytes);
+
+      for (let i = 0; i < rowBytes; i++) {
+        const left = i >= bytesPerPixel ? row[i - bytesPerPixel] : 0;
+        const up = previous[i];
+        const upLeft = i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+        const predictor = [
+          0,
+          left,
+          up,
+          (left + up) >> 1,
+          paeth(left, up, upLeft),
+        ][filter];
+        row[i] = (row[i] + predictor) & 0xff;
+      }
+
+      // Samples wider than a byte keep their high byte
+      const sample = (x: number, channel: number): number => {
+        if (bitDepth >= 8) {
+          return row[(x * channels + channel) * (bitDepth >> 3)];
+        }
+        const bit = x * bitDepth;
+        return (row[bit >> 3] >> (8 - bitDepth - (bit & 7))) & maxSample;
+      };
+
+      for (let x = 0; x < width; x++) {
+        const out = (y * width + x) * 4;
+        if (colorType === 3) {
+          const index = sample(x, 0);
+          rgba.set(palette?.subarray(index * 3, index * 3 + 3) || [], out);
+          rgba[out + 3] = transparency?.[index] ?? 255;
+          continue;
+        }
+
+        const scale = (value: number) => Math.round((value * 255) / maxSample);
+        const gray = colorType === 0 || colorType === 4;
+        rgba[out] = scale(sample(x, 0));
+        rgba[out + 1] = gray ? rgba[out] : scale(sample(x, 1));
+        rgba[out + 2] = gray ? rgba[out] : scale(sample(x, 2));
+        rgba[out + 3] =
+          colorType === 4
+            ? scale(sample(x, 1))
+            : colorType === 6
+            ? scale(sample(x, 3))
+            : 255;
+      }
+      previous = row;
+    }
+
+    return { width, height, data: rgba };
+  }
+
+  /**
+   * Technical metadata for an image file. The perceptual hash is included
+   * when `options.decode` or the built-in PNG decoder can read the pixels.
+   */
+  static async inspect(
+    bytes: Uint8Array,
+    options: InspectOptions = {}
+  ): Promise<TechnicalMetadata> {
+    const header = this.readHeader(bytes);
+    if (!header) {
+      throw new Error("Unrecognized image format");
+    }
+
+    const pixels =
+      (options.decode && (await options.decode(bytes, header))) ||
+      (header.format === "png" ? await this.decodePng(bytes) : null);
+
+    return {
+      width: header.width,
+      height: header.height,
+      aspectRatio: Math.round((header.width / header.height) * 10000) / 10000,
+      format: header.format,
+      bytes: bytes.length,
+      hash: await this.hash(bytes),
+      ...(pixels && { perceptualHash: this.perceptualHash(pixels) }),
+      inspectedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Inspect dataset images, fetching their `src` unless `options.load`
+   * reads them another way. Images are not modified; failures are reported
+   * per image.
+   */
+  static async enrich(
+    images: Record<string, ImageData>,
+    options: EnrichOptions = {}
+  ): Promise<EnrichResult[]> {
+    const ids = options.ids || Object.keys(images);
+    const results: EnrichResult[] = new Array(ids.length);
+    const concurrency = Math.max(
+      1,
+      options.concurrency ?? this.DEFAULT_CONCURRENCY
+    );
+    let next = 0;
+    let done = 0;
+
+    const inspectImage = async (id: string): Promise<EnrichResult> => {
+      const image = images[id];
+      if (!image) {
+        return { id, ok: false, inspected: false, error: "Image not found" };
+      }
+      if (image.technical && !options.force) {
+        return { id, ok: true, inspected: false, technical: image.technical };
+      }
+
+      try {
+        const bytes =
+          (options.load && (await options.load(image, id))) ||
+          (await this.download(image.src, options));
+        const technical = await this.inspect(bytes, options);
+        return { id, ok: true, inspected: true, technical };
+      } catch (error: any) {
+        return { id, ok: false, inspected: true, error: error.message };
+      }
+    };
+
+    const worker = async () => {
+      while (next < ids.length) {
+        const index = next++;
+        results[index] = await inspectImage(ids[index]);
+        options.onProgress?.(results[index], ++done, ids.length);
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, ids.length) }, worker)
+    );
+    return results;
+  }
+
+  private static async download(
+    url: string,
+    options: EnrichOptions
+  ): Promise<Uint8Array> {
+    const fetchImpl = options.fetch || fetch;
+    const timeout = options.timeout ?? this.DEFAULT_TIMEOUT;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout);
+
+    try {
+      const response = await fetchImpl(url, { signal: controller.signal });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} for ${url}`);
+      }
+      return new Uint8Array(await response.arrayBuffer());
+    } catch (error: any) {
+      throw controller.signal.aborted
+        ? new Error(`Timed out after ${timeout} ms`)
+        : error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * Three-way merge of divergent dataset edits
+ */
+
+import {
+  DatasetMetadata,
+  ImageData,
+  ImageDataset,
+  MergeConflict,
+  MergeOptions,
+  MergeResult,
+  MergeStrategy,
+} from "../types";
+import { DatasetDiff } from "../diff";
+import { DatasetValidator } from "../validation";
+import { VersionManager } from "../version";
+
+interface MergeContext {
+  strategy: MergeStrategy;
+  conflicts: MergeConflict[];
+  imageId?: string;
+}
+
+export class DatasetMerge {
+  /**
+   * Merge `ours` and `theirs`, both derived from `base`, image by image and
+   * field by field. Conflicting changes are resolved with the configured
+   * strategy and reported so they can be reviewed.
+   */
+  static merge(
+    base: ImageDataset,
+    ours: ImageDataset,
+    theirs: ImageDataset,
+    options: MergeOptions = {}
+  ): MergeResult {
+    const context: MergeContext = {
+      strategy: options.strategy || "ours",
+      conflicts: [],
+    };
+
+    const metadata = this.mergeRecords(
+      "/metadata",
+      this.withoutVersionInfo(base.metadata),
+      this.withoutVersionInfo(ours.metadata),
+      this.withoutVersionInfo(theirs.metadata),
+      context,
+      false
+    ) as Partial<DatasetMetadata>;
+
+    const newest =
+      VersionManager.compareVersions(
+        ours.metadata.version,
+        theirs.metadata.version
+      ) >= 0
+        ? ours.metadata.version
+        : theirs.metadata.version;
+
+    const images: Record<string, ImageData> = {};
+    const ids = new Set([
+      ...Object.keys(ours.images),
+      ...Object.keys(theirs.images),
+    ]);
+
+    ids.forEach((id) => {
+      const merged = this.mergeImage(
+        id,
+        base.images[id],
+        ours.images[id],
+        theirs.images[id],
+        { ...context, imageId: id }
+      );
+      if (merged) {
+        images[id] = merged;
+      }
+    });
+
+    return {
+      dataset: {
+        metadata: {
+          createdAt: ours.metadata.createdAt,
+          ...metadata,
+          version: VersionManager.generateVersion(newest),
+          updatedAt: new Date().toISOString(),
+        },
+        images,
+      },
+      conflicts: context.conflicts,
+    };
+  }
+
+  /**
+   * Three-way merge of tag lists: additions from either side are kept and
+   * removals from either side are honored, so it never conflicts
+   */
+  static mergeTags(
+    base: string[] = [],
+    ours: string[] = [],
+    theirs: string[] = []
+  ): string[] {
+    const removed = new Set(
+      base.filter((tag) => !ours.includes(tag) || !theirs.includes(tag))
+    );
+    return Array.from(new Set([...ours, ...theirs])).filter(
+      (tag) => !removed.has(tag)
+    );
+  }
+
+  private static mergeImage(
+    id: string,
+    base: ImageData | undefined,
+    ours: ImageData | undefined,
+    theirs: ImageData | undefined,
+    context: MergeContext
+  ): ImageData | undefined {
+    const path = `/images/${DatasetValidator.toPointerSegment(id)}`;
+
+    if (ours && theirs) {
+      return this.mergeRecords(
+        path,
+        base || {},
+        ours,
+        theirs,
+        context,
+        true
+      ) as unknown as ImageData;
+    }
+
+    const present = ours || theirs;
+    // Added on one side only, or removed on both
+    if (!base || !present) return present;
+
+    // Removed on one side and left untouched on the other
+    if (!DatasetDiff.compareImages(id, base, present).length) return undefined;
+
+    const resolved = context.strategy === "ours" ? ours : theirs;
+    context.conflicts.push({
+      path,
+      imageId: id,
+      kind: "delete",
+      base,
+      ours,
+      theirs,
+      resolved,
+    });
+    return resolved;
+  }
+
+  private static mergeRecords(
+    path: string,
+    base: object,
+    ours: object,
+    theirs: object,
+    context: MergeContext,
+    nested: boolean
+  ): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    const get = (record: object, key: string) =>
+      (record as Record<string, unknown>)[key];
+    const keys = new Set([...Object.keys(ours), ...Object.keys(theirs)]);
+
+    keys.forEach((key) => {
+      const keyPath = `${path}/${DatasetValidator.toPointerSegment(key)}`;
+      const b = get(base, key);
+      const o = get(ours, key);
+      const t = get(theirs, key);
+      let merged: unknown;
+
+      if (key === "tags" && (Array.isArray(o) || Array.isArray(t))) {
+        merged = this.mergeTags(
+          b as string[] | undefined,
+          o as string[] | undefined,
+          t as string[] | undefined
+        );
+      } else if (nested && this.isRecord(o) && this.isRecord(t)) {
+        merged = this.mergeRecords(
+          keyPath,
+          this.isRecord(b) ? b : {},
+          o,
+          t,
+          context,
+          false
+        );
+      } else {
+        merged = this.mergeValue(keyPath, b, o, t, context);
+      }
+
+      if (merged !== undefined) {
+        result[key] = merged;
+      }
+    });
+
+    return result;
+  }
+
+  private static mergeValue(
+    path: string,
+    base: unknown,
+    ours: unknown,
+    theirs: unknown,
+    context: MergeContext
+  ): unknown {
+    if (DatasetDiff.isEquivalent(ours, theirs)) return ours;
+    if (DatasetDiff.isEquivalent(ours, base)) return theirs;
+    if (DatasetDiff.isEquivalent(theirs, base)) return ours;
+
+    const resolved = context.strategy === "ours" ? ours : theirs;
+    context.conflicts.push({
+      path,
+      ...(context.imageId ? { imageId: context.imageId } : {}),
+      kind: ours === undefined || theirs === undefined ? "delete" : "modify",
+      base,
+      ours,
+      theirs,
+      resolved,
+    });
+    return resolved;
+  }
+
+  /**
+   * Version fields are regenerated for the merge, never merged
+   */
+  private static withoutVersionInfo(
+    metadata: DatasetMetadata
+  ): Partial<DatasetMetadata> {
+    const rest: Partial<DatasetMetadata> = { ...metadata };
+    delete rest.version;
+    delete rest.updatedAt;
+    return rest;
+  }
+
+  private static isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+}
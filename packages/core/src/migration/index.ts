@@ -0,0 +1,162 @@
+/**
+ * Schema migrations for datasets written against older schema versions
+ */
+
+import { MigrateOptions, MigrationResult, SchemaMigration } from "../types";
+
+export class MigrationRegistry {
+  /**
+   * Schema version of the format shipped with this package
+   */
+  static readonly BASE_VERSION = "1.0.0";
+
+  /**
+   * Assumed for datasets that predate the `schemaVersion` field
+   */
+  static readonly LEGACY_VERSION = "0.0.0";
+
+  private static migrations: SchemaMigration[] = [
+    {
+      from: MigrationRegistry.LEGACY_VERSION,
+      to: MigrationRegistry.BASE_VERSION,
+      description: "Record schemaVersion in dataset metadata",
+      migrate: (dataset) => dataset,
+    },
+  ];
+
+  /**
+   * Register a migration between two schema versions
+   */
+  static register(migration: SchemaMigration): void {
+    if (this.compare(migration.to, migration.from) <= 0) {
+      throw new Error(
+        `Invalid migration ${migration.from} → ${migration.to}: target must be newer`
+      );
+    }
+    if (
+      this.migrations.some(
+        (existing) => this.compare(existing.from, migration.from) === 0
+      )
+    ) {
+      throw new Error(
+        `A migration from ${migration.from} is already registered`
+      );
+    }
+
+    this.migrations.push(migration);
+    this.migrations.sort((a, b) => this.compare(a.from, b.from));
+  }
+
+  /**
+   * Remove the migration registered for a schema version
+   */
+  static unregister(from: string): boolean {
+    const index = this.migrations.findIndex(
+      (migration) => migration.from === from
+    );
+    if (index === -1) return false;
+    this.migrations.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * List registered migrations in order
+   */
+  static list(): SchemaMigration[] {
+    return [...this.migrations];
+  }
+
+  /**
+   * Latest schema version reachable through registered migrations
+   */
+  static getLatestVersion(): string {
+    return this.migrations.reduce(
+      (latest, migration) =>
+        this.compare(migration.to, latest) > 0 ? migration.to : latest,
+      this.BASE_VERSION
+    );
+  }
+
+  /**
+   * Read the schema version a raw dataset was written against
+   */
+  static getDatasetVersion(dataset: any): string {
+    const version = dataset?.metadata?.schemaVersion;
+    return typeof version === "string" && version
+      ? version
+      : this.LEGACY_VERSION;
+  }
+
+  /**
+   * Ordered migrations leading from one schema version to another, or null
+   * when no such path exists
+   */
+  static getPath(from: string, to: string): SchemaMigration[] | null {
+    const path: SchemaMigration[] = [];
+    let current = from;
+
+    while (this.compare(current, to) < 0) {
+      const next = this.migrations.find(
+        (migration) => this.compare(migration.from, current) === 0
+      );
+      if (!next || this.compare(next.to, to) > 0) return null;
+      path.push(next);
+      current = next.to;
+    }
+
+    return this.compare(current, to) === 0 ? path : null;
+  }
+
+  /**
+   * Check whether a dataset needs migrating to reach the target version
+   */
+  static needsMigration(dataset: any, options: MigrateOptions = {}): boolean {
+    const to = options.to || this.getLatestVersion();
+    return this.compare(this.getDatasetVersion(dataset), to) < 0;
+  }
+
+  /**
+   * Apply every migration between the dataset's schema version and the
+   * target, returning a migrated copy
+   */
+  static migrate(dataset: any, options: MigrateOptions = {}): MigrationResult {
+    const from = this.getDatasetVersion(dataset);
+    const to = options.to || this.getLatestVersion();
+    const applied = this.getPath(from, to);
+
+    if (!applied) {
+      throw new Error(
+        this.compare(from, to) > 0
+          ? `Cannot migrate schema ${from} down to ${to}`
+          : `No migration path from schema ${from} to ${to}`
+      );
+    }
+
+    let result = JSON.parse(JSON.stringify(dataset));
+    applied.forEach((migration) => {
+      result = migration.migrate(result);
+      if (!result || typeof result !== "object") {
+        throw new Error(
+          `Migration ${migration.from} → ${migration.to} returned no dataset`
+        );
+      }
+      result.metadata = { ...result.metadata, schemaVersion: migration.to };
+    });
+
+    return { dataset: result, from, to, applied };
+  }
+
+  /**
+   * Compare dotted numeric schema versions (e.g. "1.2.0")
+   */
+  static compare(a: string, b: string): number {
+    const aParts = a.split(".").map((part) => parseInt(part, 10) || 0);
+    const bParts = b.split(".").map((part) => parseInt(part, 10) || 0);
+
+    for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+      const diff = (aParts[i] || 0) - (bParts[i] || 0);
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  }
+}
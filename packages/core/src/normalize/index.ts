@@ -0,0 +1,127 @@
+/**
+ * Unicode- and Persian-aware text normalization for matching
+ */
+
+import { NormalizeOptions, Normalizer } from "../types";
+
+export class TextNormalizer {
+  /**
+   * Arabic letter variants mapped to their Persian equivalents
+   */
+  private static readonly PERSIAN_LETTERS: Record<string, string> = {
+    "\u064a": "\u06cc", // ي → ی
+    "\u0649": "\u06cc", // ى → ی
+    "\u0643": "\u06a9", // ك → ک
+    "\u0629": "\u0647", // ة → ه
+  };
+
+  /**
+   * Soft hyphen, zero-width and directional marks; they carry no meaning
+   * for matching
+   */
+  private static readonly INVISIBLE =
+    /[\u00ad\u200b\u200d-\u200f\u2060\ufeff]/g;
+
+  private static readonly DEFAULT_OPTIONS: Required<NormalizeOptions> = {
+    lowercase: true,
+    diacritics: true,
+    persian: true,
+    digits: true,
+    zwnj: "remove",
+  };
+
+  private static defaultNormalizer: Normalizer | null = null;
+
+  /**
+   * Create a normalizer with the given steps enabled
+   */
+  static create(options: NormalizeOptions = {}): Normalizer {
+    const settings = { ...this.DEFAULT_OPTIONS, ...options };
+
+    return (text: string) => {
+      // NFKC maps Arabic presentation forms and full-width letters to the
+      // regular ones
+      let result = text.normalize("NFKC").replace(this.INVISIBLE, "");
+
+      if (settings.diacritics) result = this.foldDiacritics(result);
+      if (settings.persian) result = this.unifyPersianLetters(result);
+      if (settings.digits) result = this.foldDigits(result);
+      result = this.handleZWNJ(result, settings.zwnj);
+      if (settings.lowercase) result = result.toLowerCase();
+
+      return result.replace(/\s+/g, " ").trim();
+    };
+  }
+
+  /**
+   * Normalize text with the default settings
+   */
+  static normalize(text: string): string {
+    if (!this.defaultNormalizer) {
+      this.defaultNormalizer = this.create();
+    }
+    return this.defaultNormalizer(text);
+  }
+
+  /**
+   * Strip combining marks, e.g. "Ziāpour" → "Ziapour", Arabic harakat and
+   * hamza/madda on alef (آ, أ → ا)
+   */
+  static foldDiacritics(text: string): string {
+    return text
+      .normalize("NFD")
+      .replace(/\p{M}/gu, "")
+      .replace(/\u0640/g, "") // tatweel (kashida)
+      .normalize("NFC");
+  }
+
+  /**
+   * Replace Arabic letter variants with the Persian ones (ي → ی, ك → ک)
+   */
+  static unifyPersianLetters(text: string): string {
+    return text.replace(
+      /[\u064a\u0649\u0643\u0629]/g,
+      (char) => this.PERSIAN_LETTERS[char]
+    );
+  }
+
+  /**
+   * Replace Persian (۱۳۲۸) and Arabic-Indic (١٣٢٨) digits with ASCII digits
+   */
+  static foldDigits(text: string): string {
+    return text.replace(/[\u06f0-\u06f9\u0660-\u0669]/g, (digit) => {
+      const code = digit.charCodeAt(0);
+      return String(code - (code >= 0x06f0 ? 0x06f0 : 0x0660));
+    });
+  }
+
+  /**
+   * Remove zero-width non-joiners ("می‌خواهم" → "میخواهم"), turn them into
+   * spaces, or keep them
+   */
+  static handleZWNJ(
+    text: string,
+    mode: NormalizeOptions["zwnj"] = "remove"
+  ): string {
+    if (mode === "keep") return text;
+    return text.replace(/\u200c/g, mode === "space" ? " " : "");
+  }
+
+  /**
+   * Deduplicate values that normalize to the same key, keeping the first
+   * spelling seen
+   */
+  static dedupe(
+    values: Iterable<string>,
+    normalizer: Normalizer = (text) => this.normalize(text)
+  ): string[] {
+    const unique = new Map<string, string>();
+    for (const value of values) {
+      const key = normalizer(value);
+      if (!unique.has(key)) {
+        unique.set(key, value);
+      }
+    }
+    return Array.from(unique.values());
+  }
+}
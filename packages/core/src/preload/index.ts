@@ -0,0 +1,222 @@
+/**
+ * Image preloading and URL reachability checks that work in browsers, SSR
+ * and Node alike. Browsers preload through Image elements, which fill the
+ * image cache and need no CORS headers; elsewhere images are fetched.
+ */
+
+import { PreloadOptions, PreloadResult } from "../types";
+
+type PreloadTarget = string | { url: string; id?: string };
+
+type AttemptResult = Omit<PreloadResult, "url" | "id" | "attempts"> & {
+  retryable: boolean;
+};
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function describeError(error: unknown): string {
+  // Node's fetch reports "fetch failed" and keeps the reason in `cause`
+  const { cause } = error as { cause?: unknown };
+  if (cause instanceof Error && cause.message) return cause.message;
+  return error instanceof Error && error.message
+    ? error.message
+    : String(error);
+}
+
+export class ImagePreloader {
+  static readonly DEFAULT_CONCURRENCY = 6;
+  static readonly DEFAULT_TIMEOUT = 10000;
+  static readonly DEFAULT_RETRIES = 1;
+  static readonly DEFAULT_RETRY_DELAY = 250;
+
+  /**
+   * Load URLs with limited concurrency. Failures are reported per URL
+   * instead of thrown, and results keep the order of the input. Browser
+   * GET preloads use Image elements unless `options.fetch` is given, so
+   * their results carry no status, content type or size.
+   */
+  static async load(
+    targets: PreloadTarget[],
+    options: PreloadOptions = {}
+  ): Promise<PreloadResult[]> {
+    if (
+      !this.usesImage(options.method || "GET", options) &&
+      !options.fetch &&
+      typeof fetch !== "function"
+    ) {
+      throw new Error("No fetch implementation available; pass options.fetch");
+    }
+
+    const queue = targets.map((target) =>
+      typeof target === "string" ? { url: target } : target
+    );
+    const results: PreloadResult[] = new Array(queue.length);
+    const concurrency = Math.max(
+      1,
+      options.concurrency ?? this.DEFAULT_CONCURRENCY
+    );
+    let next = 0;
+    let done = 0;
+
+    const worker = async () => {
+      while (next < queue.length) {
+        const index = next++;
+        results[index] = await this.loadTarget(queue[index], options);
+        options.onProgress?.(results[index], ++done, queue.length);
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, queue.length) }, worker)
+    );
+    return results;
+  }
+
+  /**
+   * Load one URL, retrying network errors, timeouts, 429 and 5xx responses
+   * with exponential backoff
+   */
+  static async loadUrl(
+    url: string,
+    options: PreloadOptions = {}
+  ): Promise<PreloadResult> {
+    return this.loadTarget({ url }, options);
+  }
+
+  private static async loadTarget(
+    { url, id }: { url: string; id?: string },
+    options: PreloadOptions
+  ): Promise<PreloadResult> {
+    const retries = Math.max(0, options.retries ?? this.DEFAULT_RETRIES);
+    const retryDelay = options.retryDelay ?? this.DEFAULT_RETRY_DELAY;
+
+    for (let attempts = 1; ; attempts++) {
+      const { retryable, ...result } = await this.attempt(
+        url,
+        options.method || "GET",
+        options
+      );
+      if (!retryable || attempts > retries) {
+        return { url, ...(id !== undefined && { id }), ...result, attempts };
+      }
+      await sleep(retryDelay * 2 ** (attempts - 1));
+    }
+  }
+
+  /**
+   * Image elements cannot send HEAD requests or report a status, so they
+   * are only used for browser preloads without a custom fetch
+   */
+  private static usesImage(
+    method: "GET" | "HEAD",
+    options: PreloadOptions
+  ): boolean {
+    return method === "GET" && !options.fetch && typeof Image === "function";
+  }
+
+  private static attemptImage(
+    url: string,
+    options: PreloadOptions
+  ): Promise<AttemptResult> {
+    const timeout = options.timeout ?? this.DEFAULT_TIMEOUT;
+    const started = Date.now();
+
+    return new Promise((resolve) => {
+      const image = new Image();
+      const finish = (result: Omit<AttemptResult, "latency">) => {
+        clearTimeout(timer);
+        image.onload = image.onerror = null;
+        resolve({ ...result, latency: Date.now() - started });
+      };
+      const timer = setTimeout(() => {
+        // Clearing the source cancels the download
+        image.src = "";
+        finish({
+          ok: false,
+          error: `Timed out after ${timeout} ms`,
+          retryable: true,
+        });
+      }, timeout);
+
+      image.onload = () => finish({ ok: true, retryable: false });
+      // The element does not say why; the URL may be missing or unreachable
+      image.onerror = () =>
+        finish({ ok: false, error: "Failed to load image", retryable: true });
+      image.src = url;
+    });
+  }
+
+  private static async attempt(
+    url: string,
+    method: "GET" | "HEAD",
+    options: PreloadOptions
+  ): Promise<AttemptResult> {
+    if (this.usesImage(method, options)) {
+      return this.attemptImage(url, options);
+    }
+
+    const fetchImpl = options.fetch || fetch;
+    const timeout = options.timeout ?? this.DEFAULT_TIMEOUT;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout);
+    const started = Date.now();
+
+    try {
+      const response = await fetchImpl(url, {
+        method,
+        signal: controller.signal,
+      });
+
+      // Some servers refuse HEAD; fall back to downloading the image
+      if (method === "HEAD" && [405, 501].includes(response.status)) {
+        clearTimeout(timer);
+        return this.attempt(url, "GET", options);
+      }
+
+      const contentType = response.headers.get("content-type") || undefined;
+      const length = response.headers.get("content-length");
+      // Reading the body completes the preload and frees the connection
+      const body = method === "GET" ? await response.arrayBuffer() : null;
+      const latency = Date.now() - started;
+
+      if (!response.ok) {
+        return {
+          ok: false,
+          status: response.status,
+          contentType,
+          latency,
+          error: `HTTP ${response.status}${
+            response.statusText ? ` ${response.statusText}` : ""
+          }`,
+          retryable: response.status === 429 || response.status >= 500,
+        };
+      }
+
+      const bytes = length !== null ? Number(length) : body?.byteLength;
+      const isImage = !contentType || contentType.startsWith("image/");
+
+      return {
+        ok: isImage,
+        status: response.status,
+        contentType,
+        ...(bytes !== undefined && { bytes }),
+        latency,
+        ...(!isImage && { error: `Unexpected content type "${contentType}"` }),
+        retryable: false,
+      };
+    } catch (error) {
+      return {
+        ok: false,
+        latency: Date.now() - started,
+        error: controller.signal.aborted
+          ? `Timed out after ${timeout} ms`
+          : describeError(error),
+        retryable: true,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
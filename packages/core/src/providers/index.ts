@@ -0,0 +1,735 @@
+/**
+ * Image CDN providers that turn transform options into URLs
+ */
+
+import { CloudinaryUrl } from "../cloudinary";
+import {
+  ImageProvider,
+  ProxyProviderOptions,
+  TransformEffects,
+  TransformOptions,
+  TransformOverlay,
+} from "../types";
+import { TransformValidationError } from "../utils";
+
+type Gravity = NonNullable<TransformOptions["gravity"]>;
+
+/**
+ * Throw for an option the provider cannot express rather than dropping it
+ */
+function unsupported(provider: string, option: string, detail = ""): never {
+  throw new TransformValidationError(
+    option,
+    `not supported by ${provider}${detail ? `; ${detail}` : ""}`
+  );
+}
+
+/**
+ * Reject each of `options` that is set, e.g. "radius" or "effects.sepia"
+ */
+function rejectUnsupported(
+  provider: string,
+  options: TransformOptions,
+  names: string[]
+): void {
+  names.forEach((name) => {
+    const [key, effect] = name.split(".");
+    const value = effect
+      ? options.effects?.[effect as keyof TransformEffects]
+      : options[key as keyof TransformOptions];
+    if (
+      value !== undefined &&
+      value !== false &&
+      !(Array.isArray(value) && !value.length)
+    ) {
+      unsupported(provider, name);
+    }
+  });
+}
+
+/**
+ * Clockwise rotation as 0 to 359 degrees
+ */
+function degrees(rotate: number): number {
+  return ((rotate % 360) + 360) % 360;
+}
+
+/**
+ * "16:9" or 1.5 as "16<separator>9" or "1.5<separator>1"
+ */
+function formatRatio(ratio: number | string, separator: string): string {
+  return typeof ratio === "string"
+    ? ratio.replace(":", separator)
+    : `${ratio}${separator}1`;
+}
+
+/**
+ * Effect strength, with `true` meaning the provider's default
+ */
+function strength(value: boolean | number, fallback: number): number {
+  return value === true ? fallback : Number(value);
+}
+
+/**
+ * Split "a=1&b=2" style strings into ordered key/value pairs
+ */
+function parsePairs(
+  text: string,
+  separator: string,
+  assign: string
+): [string, string][] {
+  return text
+    .split(separator)
+    .filter(Boolean)
+    .map((pair) => {
+      const index = pair.indexOf(assign);
+      return index === -1
+        ? [pair, ""]
+        : [pair.slice(0, index), pair.slice(index + assign.length)];
+    });
+}
+
+/**
+ * Override pairs by key, keeping the original order
+ */
+function mergePairs(
+  existing: [string, string][],
+  updates: [string, string][]
+): [string, string][] {
+  const merged = new Map(existing);
+  updates.forEach(([key, value]) => merged.set(key, value));
+  return Array.from(merged);
+}
+
+/**
+ * Replace query parameters on a URL without re-encoding the others
+ */
+function setQuery(url: string, updates: [string, string][]): string {
+  const [withoutHash, hash] = url.split("#", 2);
+  const [path, query = ""] = withoutHash.split("?", 2);
+  const pairs = mergePairs(parsePairs(query, "&", "="), updates);
+  const search = pairs
+    .map(([key, value]) => (value ? `${key}=${value}` : key))
+    .join("&");
+  return `${path}${search ? `?${search}` : ""}${hash ? `#${hash}` : ""}`;
+}
+
+function getHost(url: string): string {
+  const match = /^[a-z][a-z0-9+.-]*:\/\/([^/?#]+)/i.exec(url);
+  return match ? match[1].toLowerCase() : "";
+}
+
+/**
+ * Cloudinary colors are names or "rgb:rrggbb"
+ */
+function cloudinaryColor(color: string): string {
+  return color.startsWith("#") ? `rgb:${color.slice(1)}` : color;
+}
+
+/**
+ * Layer step plus the layer_apply step that positions it
+ */
+function cloudinaryOverlay(overlay: TransformOverlay): [string, string] {
+  const layer: string[] = [];
+
+  if ("text" in overlay) {
+    const style = [
+      encodeURIComponent(overlay.fontFamily || "Arial"),
+      overlay.fontSize || 32,
+      overlay.fontWeight === "bold" ? "bold" : undefined,
+    ].filter((part) => part !== undefined);
+    // Commas and slashes in text must be escaped twice
+    const text = encodeURIComponent(overlay.text)
+      .replace(/%2C/g, "%252C")
+      .replace(/%2F/g, "%252F");
+
+    layer.push(`l_text:${style.join("_")}:${text}`);
+    if (overlay.color) layer.push(`co_${cloudinaryColor(overlay.color)}`);
+    if (overlay.background) {
+      layer.push(`b_${cloudinaryColor(overlay.background)}`);
+    }
+  } else {
+    layer.push(`l_${overlay.image.replace(/\//g, ":")}`);
+    if (overlay.width) layer.push(`w_${overlay.width}`);
+  }
+  if (overlay.opacity !== undefined) layer.push(`o_${overlay.opacity}`);
+
+  const apply = ["fl_layer_apply"];
+  if (overlay.gravity) apply.push(`g_${overlay.gravity}`);
+  if (overlay.x) apply.push(`x_${overlay.x}`);
+  if (overlay.y) apply.push(`y_${overlay.y}`);
+
+  return [layer.join(","), apply.join(",")];
+}
+
+const cloudinary: ImageProvider = {
+  name: "cloudinary",
+
+  matches: (url) =>
+    getHost(url).endsWith("cloudinary.com") &&
+    CloudinaryUrl.parse(url) !== null,
+
+  buildTransformString(options) {
+    const transforms: string[] = [];
+
+    if (options.width) transforms.push(`w_${options.width}`);
+    if (options.height) transforms.push(`h_${options.height}`);
+    if (options.crop) transforms.push(`c_${options.crop}`);
+    if (options.quality) transforms.push(`q_${options.quality}`);
+    if (options.format) transforms.push(`f_${options.format}`);
+    if (options.gravity) transforms.push(`g_${options.gravity}`);
+    if (options.aspectRatio) transforms.push(`ar_${options.aspectRatio}`);
+    if (options.dpr) {
+      transforms.push(
+        `dpr_${
+          Number.isInteger(options.dpr)
+            ? (options.dpr as number).toFixed(1)
+            : options.dpr
+        }`
+      );
+    }
+    if (options.radius !== undefined) transforms.push(`r_${options.radius}`);
+    if (options.background) {
+      transforms.push(`b_${cloudinaryColor(options.background)}`);
+    }
+    if (options.rotate) transforms.push(`a_${options.rotate}`);
+
+    // Each effect and overlay is its own step in the chain
+    const steps = transforms.length ? [transforms.join(",")] : [];
+    const effects = options.effects || {};
+    if (effects.grayscale) steps.push("e_grayscale");
+    (["sepia", "blur", "sharpen"] as const).forEach((name) => {
+      const value = effects[name];
+      if (value) steps.push(`e_${name}${value === true ? "" : `:${value}`}`);
+    });
+    (options.overlays || []).forEach((overlay) => {
+      steps.push(...cloudinaryOverlay(overlay));
+    });
+
+    return steps.join("/");
+  },
+
+  applyTransform: (url, transform) => CloudinaryUrl.transform(url, transform),
+};
+
+const imgix: ImageProvider = {
+  name: "imgix",
+
+  matches: (url) => getHost(url).endsWith(".imgix.net"),
+
+  buildTransformString(options) {
+    const params: string[] = [];
+    const auto: string[] = [];
+    const fit: Record<string, string> = {
+      scale: "scale",
+      fill: "crop",
+      fit: "clip",
+      crop: "crop",
+    };
+    const crop: Partial<Record<Gravity, string>> = {
+      auto: "entropy",
+      face: "faces",
+      north: "top",
+      south: "bottom",
+      east: "right",
+      west: "left",
+    };
+
+    if (options.width) params.push(`w=${options.width}`);
+    if (options.height) params.push(`h=${options.height}`);
+    if (options.crop) params.push(`fit=${fit[options.crop]}`);
+    if (options.gravity && crop[options.gravity]) {
+      params.push(`crop=${crop[options.gravity]}`);
+    }
+    if (options.quality === "auto") auto.push("compress");
+    else if (options.quality) params.push(`q=${options.quality}`);
+    if (options.format === "auto") auto.push("format");
+    else if (options.format) params.push(`fm=${options.format}`);
+    if (options.aspectRatio) {
+      params.push(`ar=${formatRatio(options.aspectRatio, ":")}`);
+    }
+    if (options.dpr === "auto") {
+      unsupported("imgix", "dpr", "expected a number");
+    }
+    if (options.dpr) params.push(`dpr=${options.dpr}`);
+    if (options.rotate) params.push(`rot=${degrees(options.rotate)}`);
+
+    rejectUnsupported("imgix", options, [
+      "radius",
+      "background",
+      "effects.sharpen",
+      "overlays",
+    ]);
+    const effects = options.effects || {};
+    if (effects.grayscale) params.push("sat=-100");
+    if (effects.sepia) params.push(`sepia=${strength(effects.sepia, 80)}`);
+    if (effects.blur) params.push(`blur=${strength(effects.blur, 100)}`);
+    if (auto.length) params.push(`auto=${auto.join(",")}`);
+
+    return params.join("&");
+  },
+
+  applyTransform(url, transform) {
+    return setQuery(url, parsePairs(transform, "&", "="));
+  },
+};
+
+const imagekit: ImageProvider = {
+  name: "imagekit",
+
+  matches: (url) => getHost(url) === "ik.imagekit.io",
+
+  buildTransformString(options) {
+    const params: string[] = [];
+    const crop: Record<string, string> = {
+      scale: "c-force",
+      fill: "c-maintain_ratio",
+      fit: "c-at_max",
+      crop: "cm-extract",
+    };
+    const focus: Record<Gravity, string> = {
+      auto: "auto",
+      face: "face",
+      center: "center",
+      north: "top",
+      south: "bottom",
+      east: "right",
+      west: "left",
+    };
+
+    if (options.width) params.push(`w-${options.width}`);
+    if (options.height) params.push(`h-${options.height}`);
+    if (options.crop) params.push(crop[options.crop]);
+    if (options.gravity) params.push(`fo-${focus[options.gravity]}`);
+    if (typeof options.quality === "number") {
+      params.push(`q-${options.quality}`);
+    }
+    if (options.format) params.push(`f-${options.format}`);
+    if (options.aspectRatio) {
+      params.push(`ar-${formatRatio(options.aspectRatio, "-")}`);
+    }
+    if (options.dpr) params.push(`dpr-${options.dpr}`);
+    if (options.radius !== undefined) params.push(`r-${options.radius}`);
+    if (options.background === "auto") {
+      unsupported("imagekit", "background", "expected a color");
+    }
+    if (options.background) {
+      params.push(`bg-${options.background.replace(/^#/, "")}`);
+    }
+    if (options.rotate) params.push(`rt-${degrees(options.rotate)}`);
+
+    rejectUnsupported("imagekit", options, [
+      "effects.sepia",
+      "effects.sharpen",
+      "overlays",
+    ]);
+    const effects = options.effects || {};
+    if (effects.grayscale) params.push("e-grayscale");
+    if (effects.blur) {
+      const blur = strength(effects.blur, 10);
+      if (blur > 100) {
+        unsupported("imagekit", "effects.blur", "expected 1 to 100");
+      }
+      params.push(`bl-${blur}`);
+    }
+
+    return params.join(",");
+  },
+
+  applyTransform(url, transform) {
+    const updates = parsePairs(transform, ",", "-");
+    const join = (pairs: [string, string][]) =>
+      pairs.map(([key, value]) => `${key}-${value}`).join(",");
+
+    // Path-based transforms: https://ik.imagekit.io/id/tr:w-300/image.jpg
+    const pathMatch = /\/tr:([^/]*)\//.exec(url);
+    if (pathMatch) {
+      const merged = mergePairs(parsePairs(pathMatch[1], ",", "-"), updates);
+      return url.replace(pathMatch[0], `/tr:${join(merged)}/`);
+    }
+
+    const queryMatch = /[?&]tr=([^&#]*)/.exec(url);
+    const existing = queryMatch ? parsePairs(queryMatch[1], ",", "-") : [];
+    return setQuery(url, [["tr", join(mergePairs(existing, updates))]]);
+  },
+};
+
+/**
+ * Thumbor URL options, in the order they appear in the path
+ */
+interface ThumborOptions {
+  trim?: string;
+  crop?: string;
+  fitIn?: string;
+  size?: string;
+  halign?: string;
+  valign?: string;
+  smart?: boolean;
+  filters: [string, string][];
+}
+
+function parseThumborOptions(segments: string[]): {
+  options: ThumborOptions;
+  rest: string[];
+} {
+  const options: ThumborOptions = { filters: [] };
+  let index = 0;
+
+  for (; index < segments.length; index++) {
+    const segment = segments[index];
+
+    if (/^trim(:.*)?$/.test(segment)) {
+      options.trim = segment;
+    } else if (/^\d+x\d+:\d+x\d+$/.test(segment)) {
+      options.crop = segment;
+    } else if (/^(adaptive-|full-)?fit-in$/.test(segment)) {
+      options.fitIn = segment;
+    } else if (/^-?\d*x-?\d*$/.test(segment) && segment !== "x") {
+      options.size = segment;
+    } else if (/^(left|right|center)$/.test(segment)) {
+      options.halign = segment;
+    } else if (/^(top|middle|bottom)$/.test(segment)) {
+      options.valign = segment;
+    } else if (segment === "smart") {
+      options.smart = true;
+    } else if (segment.startsWith("filters:")) {
+      const filters = segment.slice("filters:".length);
+      const pattern = /([\w-]+)\(([^)]*)\)/g;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(filters))) {
+        options.filters.push([match[1], match[2]]);
+      }
+    } else {
+      // First segment that is not an option starts the image path
+      break;
+    }
+  }
+
+  return { options, rest: segments.slice(index) };
+}
+
+function formatThumborOptions(options: ThumborOptions): string {
+  const segments = [
+    options.trim,
+    options.crop,
+    options.fitIn,
+    options.size,
+    options.halign,
+    options.valign,
+    options.smart ? "smart" : undefined,
+  ].filter((segment): segment is string => Boolean(segment));
+
+  if (options.filters.length) {
+    segments.push(
+      `filters:${options.filters
+        .map(([name, args]) => `${name}(${args})`)
+        .join(":")}`
+    );
+  }
+  return segments.join("/");
+}
+
+/**
+ * Position of the "/unsafe/" or "/insecure/" marker in a proxy URL, or -1.
+ * With a configured origin only URLs on that server count; otherwise the
+ * marker must be the first path segment, so that source images with such a
+ * folder in their path are not mistaken for proxy URLs.
+ */
+function findProxyMarker(url: string, marker: string, origin?: string): number {
+  if (origin) return url.startsWith(`${origin}${marker}`) ? origin.length : -1;
+  const server = /^[a-z][a-z0-9+.-]*:\/\/[^/?#]+/i.exec(url);
+  return server && url.startsWith(marker, server[0].length)
+    ? server[0].length
+    : -1;
+}
+
+function createThumbor(baseUrl?: string): ImageProvider {
+  const origin = baseUrl?.replace(/\/+$/, "");
+
+  return {
+    name: "thumbor",
+
+    matches: (url) =>
+      origin
+        ? url.startsWith(`${origin}/`)
+        : findProxyMarker(url, "/unsafe/") !== -1,
+
+    buildTransformString(options) {
+      const thumbor: ThumborOptions = { filters: [] };
+
+      if (options.crop === "fit" || options.crop === "scale") {
+        thumbor.fitIn = "fit-in";
+      }
+      if (options.crop === "scale") thumbor.filters.push(["stretch", ""]);
+      if (options.width || options.height) {
+        thumbor.size = `${options.width || 0}x${options.height || 0}`;
+      }
+      if (options.gravity === "auto" || options.gravity === "face") {
+        thumbor.smart = true;
+      }
+      if (options.gravity === "north") thumbor.valign = "top";
+      if (options.gravity === "south") thumbor.valign = "bottom";
+      if (options.gravity === "east") thumbor.halign = "right";
+      if (options.gravity === "west") thumbor.halign = "left";
+      if (typeof options.quality === "number") {
+        thumbor.filters.push(["quality", String(options.quality)]);
+      }
+      if (options.format && options.format !== "auto") {
+        thumbor.filters.push([
+          "format",
+          options.format === "jpg" ? "jpeg" : options.format,
+        ]);
+      }
+      if (options.background) {
+        thumbor.filters.push(["fill", options.background.replace(/^#/, "")]);
+      }
+      if (options.rotate) {
+        if (options.rotate % 90) {
+          unsupported("thumbor", "rotate", "expected a multiple of 90");
+        }
+        // Thumbor turns images counterclockwise
+        thumbor.filters.push(["rotate", String(degrees(-options.rotate))]);
+      }
+
+      rejectUnsupported("thumbor", options, [
+        "aspectRatio",
+        "dpr",
+        "radius",
+        "effects.sepia",
+        "effects.sharpen",
+        "overlays",
+      ]);
+      const effects = options.effects || {};
+      if (effects.grayscale) thumbor.filters.push(["grayscale", ""]);
+      if (effects.blur) {
+        const blur = strength(effects.blur, 5);
+        if (blur > 150) {
+          unsupported("thumbor", "effects.blur", "expected 1 to 150");
+        }
+        thumbor.filters.push(["blur", String(blur)]);
+      }
+
+      return formatThumborOptions(thumbor);
+    },
+
+    applyTransform(url, transform) {
+      const updates = parseThumborOptions(transform.split("/")).options;
+      const unsafeIndex = findProxyMarker(url, "/unsafe/", origin);
+
+      if (unsafeIndex === -1) {
+        // Route the source image through the configured server
+        return origin ? `${origin}/unsafe/${transform}/${url}` : url;
+      }
+
+      const base = url.slice(0, unsafeIndex);
+      const { options, rest } = parseThumborOptions(
+        url.slice(unsafeIndex + "/unsafe/".length).split("/")
+      );
+      const merged: ThumborOptions = {
+        ...options,
+        ...Object.fromEntries(
+          Object.entries(updates).filter(
+            ([key, value]) => key !== "filters" && value !== undefined
+          )
+        ),
+        filters: mergePairs(options.filters, updates.filters),
+      };
+
+      const path = formatThumborOptions(merged);
+      return `${base}/unsafe/${path ? `${path}/` : ""}${rest.join("/")}`;
+    },
+  };
+}
+
+function createImgproxy(baseUrl?: string): ImageProvider {
+  const origin = baseUrl?.replace(/\/+$/, "");
+
+  return {
+    name: "imgproxy",
+
+    matches: (url) =>
+      origin
+        ? url.startsWith(`${origin}/`)
+        : findProxyMarker(url, "/insecure/") !== -1,
+
+    buildTransformString(options) {
+      const params: string[] = [];
+      const resizingType: Record<string, string> = {
+        scale: "force",
+        fill: "fill",
+        fit: "fit",
+        crop: "fill",
+      };
+      const gravity: Record<Gravity, string> = {
+        auto: "sm",
+        face: "sm",
+        center: "ce",
+        north: "no",
+        south: "so",
+        east: "ea",
+        west: "we",
+      };
+
+      if (options.crop) params.push(`rt:${resizingType[options.crop]}`);
+      if (options.width) params.push(`w:${options.width}`);
+      if (options.height) params.push(`h:${options.height}`);
+      if (options.gravity) params.push(`g:${gravity[options.gravity]}`);
+      if (typeof options.quality === "number") {
+        params.push(`q:${options.quality}`);
+      }
+      if (options.format && options.format !== "auto") {
+        params.push(`f:${options.format}`);
+      }
+      if (options.dpr === "auto") {
+        unsupported("imgproxy", "dpr", "expected a number");
+      }
+      if (options.dpr) params.push(`dpr:${options.dpr}`);
+      if (options.background) {
+        const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(options.background);
+        if (!hex) {
+          unsupported("imgproxy", "background", 'expected "#rrggbb"');
+        }
+        params.push(
+          `bg:${hex[1].length === 3 ? hex[1].replace(/./g, "$&$&") : hex[1]}`
+        );
+      }
+      if (options.rotate) {
+        if (options.rotate % 90) {
+          unsupported("imgproxy", "rotate", "expected a multiple of 90");
+        }
+        params.push(`rot:${degrees(options.rotate)}`);
+      }
+
+      rejectUnsupported("imgproxy", options, [
+        "aspectRatio",
+        "radius",
+        "effects.grayscale",
+        "effects.sepia",
+        "effects.sharpen",
+        "overlays",
+      ]);
+      if (options.effects?.blur) {
+        params.push(`bl:${strength(options.effects.blur, 5)}`);
+      }
+
+      return params.join("/");
+    },
+
+    applyTransform(url, transform) {
+      const updates = parsePairs(transform, "/", ":");
+      const insecureIndex = findProxyMarker(url, "/insecure/", origin);
+
+      if (insecureIndex === -1) {
+        // Route the source image through the configured server
+        return origin ? `${origin}/insecure/${transform}/plain/${url}` : url;
+      }
+
+      const base = url.slice(0, insecureIndex);
+      const segments = url
+        .slice(insecureIndex + "/insecure/".length)
+        .split("/");
+      const optionCount = segments.findIndex(
+        (segment) => !/^[a-z_]+:/.test(segment)
+      );
+      const existing = parsePairs(
+        segments.slice(0, optionCount).join("/"),
+        "/",
+        ":"
+      );
+      const options = mergePairs(existing, updates)
+        .map(([key, value]) => `${key}:${value}`)
+        .join("/");
+
+      return `${base}/insecure/${options ? `${options}/` : ""}${segments
+        .slice(optionCount)
+        .join("/")}`;
+    },
+  };
+}
+
+export class ProviderRegistry {
+  private static providers: ImageProvider[] = [
+    cloudinary,
+    imgix,
+    imagekit,
+    createThumbor(),
+    createImgproxy(),
+  ];
+
+  /**
+   * Thumbor provider that also routes other image URLs through `baseUrl`
+   */
+  static thumbor(options: ProxyProviderOptions): ImageProvider {
+    return createThumbor(options.baseUrl);
+  }
+
+  /**
+   * imgproxy provider that also routes other image URLs through `baseUrl`
+   */
+  static imgproxy(options: ProxyProviderOptions): ImageProvider {
+    return createImgproxy(options.baseUrl);
+  }
+
+  /**
+   * Register a provider; it is tried before the built-in ones when detecting
+   */
+  static register(provider: ImageProvider): void {
+    if (this.providers.some((existing) => existing.name === provider.name)) {
+      throw new Error(
+        `An image provider named "${provider.name}" is already registered`
+      );
+    }
+    this.providers.unshift(provider);
+  }
+
+  /**
+   * Remove a registered provider
+   */
+  static unregister(name: string): boolean {
+    const index = this.providers.findIndex(
+      (provider) => provider.name === name
+    );
+    if (index === -1) return false;
+    this.providers.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * List registered providers in detection order
+   */
+  static list(): ImageProvider[] {
+    return [...this.providers];
+  }
+
+  /**
+   * Look up a provider by name
+   */
+  static get(name: string): ImageProvider {
+    const provider = this.providers.find(
+      (candidate) => candidate.name === name
+    );
+    if (!provider) {
+      throw new Error(`Unknown image provider "${name}"`);
+    }
+    return provider;
+  }
+
+  /**
+   * Find the provider serving a URL, or null
+   */
+  static detect(url: string): ImageProvider | null {
+    return this.providers.find((provider) => provider.matches(url)) || null;
+  }
+
+  /**
+   * Resolve an explicit provider (instance or name), falling back to
+   * detecting one from the URL
+   */
+  static resolve(
+    url: string,
+    provider?: string | ImageProvider
+  ): ImageProvider | null {
+    if (typeof provider === "string") return this.get(provider);
+    return provider || this.detect(url);
+  }
+}
@@ -0,0 +1,501 @@
+/**
+ * Query language for searching datasets, e.g.
+ * `artist:ziapour year:1940..1960 tag:magazine -tag:reference`
+ */
+
+import {
+  ImageSearchResult,
+  Normalizer,
+  QueryContext,
+  QueryNode,
+  QueryParseOptions,
+  QueryTermNode,
+} from "../types";
+import { TextNormalizer } from "../normalize";
+import { CaptionFormatter } from "../caption";
+
+/**
+ * Thrown when a query string cannot be parsed
+ */
+export class QuerySyntaxError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`${message} at position ${position}`);
+    this.name = "QuerySyntaxError";
+  }
+}
+
+type QueryToken =
+  | { type: "lparen" | "rparen" | "and" | "or" | "not"; position: number }
+  | {
+      type: "word";
+      position: number;
+      value: string;
+      quoted: boolean;
+      field?: string;
+    };
+
+export class DatasetQuery {
+  /**
+   * Shorthand field names and the paths they refer to
+   */
+  private static readonly FIELD_ALIASES: Record<string, string> = {
+    id: "id",
+    src: "src",
+    caption: "caption",
+    tag: "tags",
+    tags: "tags",
+    artist: "metadata.artist",
+    year: "metadata.year",
+    medium: "metadata.medium",
+    dimensions: "metadata.dimensions",
+    collection: "metadata.collection",
+  };
+
+  private static readonly NUMBER = "-?\\d+(?:\\.\\d+)?";
+
+  private static readonly defaultNormalizer: Normalizer = (text) =>
+    TextNormalizer.normalize(text);
+
+  /**
+   * Parse a query string into an AST; returns null for an empty query.
+   *
+   * Terms are combined with AND unless `operator` is "or". Supported syntax:
+   * `field:value`, `field:"a phrase"`, `field:a,b` (any of), `year:1940..1960`,
+   * `year:>=1950`, `field:*` (present), `-term` / `NOT term`, `a OR b`,
+   * `a AND b` and parentheses. Fields are the aliases above or `metadata.*`.
+   */
+  static parse(
+    query: string,
+    options: QueryParseOptions = {}
+  ): QueryNode | null {
+    const tokens = this.lex(query);
+    if (!tokens.length) return null;
+
+    let index = 0;
+    const peek = () => tokens[index];
+    const implicitOr = options.operator === "or";
+
+    const parseOr = (): QueryNode => {
+      const children = [parseAnd()];
+      while (peek() && peek().type !== "rparen") {
+        if (peek().type === "or") {
+          index++;
+        } else if (!implicitOr) {
+          break;
+        }
+        children.push(parseAnd());
+      }
+      return children.length === 1 ? children[0] : { type: "or", children };
+    };
+
+    const parseAnd = (): QueryNode => {
+      const children = [parseUnary()];
+      while (peek() && peek().type !== "rparen" && peek().type !== "or") {
+        if (peek().type === "and") {
+          index++;
+        } else if (implicitOr) {
+          break;
+        }
+        children.push(parseUnary());
+      }
+      return children.length === 1 ? children[0] : { type: "and", children };
+    };
+
+    const parseUnary = (): QueryNode => {
+      const token = peek();
+      if (!token) {
+        throw new QuerySyntaxError("Unexpected end of query", query.length);
+      }
+      index++;
+
+      switch (token.type) {
+        case "not":
+          return { type: "not", child: parseUnary() };
+        case "lparen": {
+          const node = parseOr();
+          if (peek()?.type !== "rparen") {
+            throw new QuerySyntaxError(
+              "Missing closing parenthesis",
+              token.position
+            );
+          }
+          index++;
+          return node;
+        }
+        case "word":
+          return this.parseWord(token);
+        default:
+          throw new QuerySyntaxError(
+            `Unexpected ${token.type.toUpperCase()}`,
+            token.position
+          );
+      }
+    };
+
+    const root = parseOr();
+    if (index < tokens.length) {
+      throw new QuerySyntaxError(
+        "Unexpected closing parenthesis",
+        tokens[index].position
+      );
+    }
+    return root;
+  }
+
+  /**
+   * The words of a query as plain free-text terms, ignoring the query
+   * syntax; returns null when no words are left. Used for input that does
+   * not parse, such as an unmatched parenthesis or quote.
+   */
+  static literal(
+    query: string,
+    options: QueryParseOptions = {}
+  ): QueryNode | null {
+    const children: QueryNode[] = query
+      .split(/\s+/)
+      .map((word) => word.replace(/["()]/g, ""))
+      .filter(Boolean)
+      .map((value) => ({ type: "term", value }));
+    if (children.length <= 1) return children[0] || null;
+    return { type: options.operator === "or" ? "or" : "and", children };
+  }
+
+  /**
+   * Check whether an image matches a parsed query
+   */
+  static matches(
+    node: QueryNode,
+    image: ImageSearchResult,
+    context: QueryContext = {}
+  ): boolean {
+    const normalize = context.normalizer || this.defaultNormalizer;
+
+    switch (node.type) {
+      case "and":
+        return node.children.every((child) =>
+          this.matches(child, image, context)
+        );
+      case "or":
+        return node.children.some((child) =>
+          this.matches(child, image, context)
+        );
+      case "not":
+        return !this.matches(node.child, image, context);
+      case "exists":
+        return this.getValues(image, node.field).length > 0;
+      case "range":
+        return this.getValues(image, node.field).some((value) => {
+          const number = this.toNumber(String(value), normalize);
+          if (number === null) return false;
+          if (node.min !== undefined) {
+            if (node.minExclusive ? number <= node.min : number < node.min) {
+              return false;
+            }
+          }
+          if (node.max !== undefined) {
+            if (node.maxExclusive ? number >= node.max : number > node.max) {
+              return false;
+            }
+          }
+          return true;
+        });
+      case "term":
+        if (!node.field) {
+          return context.matchText
+            ? context.matchText(image, node)
+            : this.matchesText(image, node.value, normalize);
+        }
+        return this.matchesField(image, node, normalize);
+    }
+  }
+
+  /**
+   * Substring match of text against every searchable field of an image
+   */
+  static matchesText(
+    image: ImageSearchResult,
+    text: string,
+    normalize: Normalizer = this.defaultNormalizer
+  ): boolean {
+    const needle = normalize(text);
+    return [
+      CaptionFormatter.toPlainText(image.caption || ""),
+      image.tags?.join(" "),
+      ...Object.values(image.metadata || {}),
+    ].some(
+      (value) =>
+        value !== undefined &&
+        value !== null &&
+        normalize(String(value)).includes(needle)
+    );
+  }
+
+  /**
+   * Free-text terms that contribute to relevance, i.e. not under a NOT
+   */
+  static textTerms(node: QueryNode): QueryTermNode[] {
+    switch (node.type) {
+      case "and":
+      case "or":
+        return node.children.flatMap((child) => this.textTerms(child));
+      case "term":
+        return node.field ? [] : [node];
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Sort results by "relevance" or a field (aliases or `metadata.*`);
+   * prefix with "-" for descending order. Missing values sort last.
+   */
+  static sort<T extends ImageSearchResult & { score?: number }>(
+    results: T[],
+    sort = "relevance",
+    normalize: Normalizer = this.defaultNormalizer
+  ): T[] {
+    const descending = sort.startsWith("-");
+    const name = descending ? sort.slice(1) : sort;
+
+    if (name === "relevance") {
+      const direction = descending ? -1 : 1;
+      return [...results].sort(
+        (a, b) => direction * ((b.score || 0) - (a.score || 0))
+      );
+    }
+
+    const field = this.resolveField(name);
+    if (!field) {
+      throw new Error(`Unknown sort field "${name}"`);
+    }
+
+    const keyed = results.map((result) => ({
+      result,
+      key: this.getValues(result, field)[0],
+    }));
+
+    keyed.sort((a, b) => {
+      if (a.key === undefined || b.key === undefined) {
+        return (a.key === undefined ? 1 : 0) - (b.key === undefined ? 1 : 0);
+      }
+      const order = this.compareValues(a.key, b.key, normalize);
+      return descending ? -order : order;
+    });
+
+    return keyed.map(({ result }) => result);
+  }
+
+  /**
+   * Resolve a field alias or `metadata.*` path, or null if unknown
+   */
+  static resolveField(name: string): string | null {
+    const lower = name.toLowerCase();
+    if (this.FIELD_ALIASES[lower]) return this.FIELD_ALIASES[lower];
+    if (lower.startsWith("metadata.") && name.length > "metadata.".length) {
+      return `metadata.${name.slice("metadata.".length)}`;
+    }
+    return null;
+  }
+
+  private static lex(query: string): QueryToken[] {
+    const tokens: QueryToken[] = [];
+    let i = 0;
+
+    const readQuoted = (): string => {
+      const start = i;
+      const end = query.indexOf('"', i + 1);
+      if (end === -1) {
+        throw new QuerySyntaxError("Unterminated quote", start);
+      }
+      i = end + 1;
+      return query.slice(start + 1, end);
+    };
+    const readBare = (): string => {
+      const start = i;
+      while (i < query.length && !/[\s()]/.test(query[i])) i++;
+      return query.slice(start, i);
+    };
+
+    while (i < query.length) {
+      const char = query[i];
+      const position = i;
+
+      if (/\s/.test(char)) {
+        i++;
+      } else if (char === "(" || char === ")") {
+        tokens.push({ type: char === "(" ? "lparen" : "rparen", position });
+        i++;
+      } else if (
+        char === "-" &&
+        i + 1 < query.length &&
+        !/[\s)]/.test(query[i + 1])
+      ) {
+        tokens.push({ type: "not", position });
+        i++;
+      } else if (char === '"') {
+        tokens.push({
+          type: "word",
+          position,
+          value: readQuoted(),
+          quoted: true,
+        });
+      } else {
+        const fieldMatch = /^([\p{L}\p{N}_.]+):/u.exec(query.slice(i));
+        const field = fieldMatch && this.resolveField(fieldMatch[1]);
+
+        if (field) {
+          i += fieldMatch[0].length;
+          const quoted = query[i] === '"';
+          const value = quoted ? readQuoted() : readBare();
+          if (!quoted && !value) {
+            throw new QuerySyntaxError(
+              `Missing value for "${fieldMatch[1]}"`,
+              position
+            );
+          }
+          tokens.push({ type: "word", position, value, quoted, field });
+          continue;
+        }
+
+        const value = readBare();
+        const keyword = value === "AND" || value === "OR" || value === "NOT";
+        tokens.push(
+          keyword
+            ? { type: value.toLowerCase() as "and" | "or" | "not", position }
+            : { type: "word", position, value, quoted: false }
+        );
+      }
+    }
+
+    return tokens;
+  }
+
+  private static parseWord(
+    token: Extract<QueryToken, { type: "word" }>
+  ): QueryNode {
+    const { field, value, quoted } = token;
+    if (!field) {
+      return quoted
+        ? { type: "term", value, phrase: true }
+        : { type: "term", value };
+    }
+    if (quoted) {
+      return { type: "term", field, value, phrase: true };
+    }
+    if (value === "*") {
+      return { type: "exists", field };
+    }
+
+    const bound = TextNormalizer.foldDigits(value);
+    const range = new RegExp(`^(${this.NUMBER})?\\.\\.(${this.NUMBER})?$`).exec(
+      bound
+    );
+    if (range && (range[1] || range[2])) {
+      return {
+        type: "range",
+        field,
+        ...(range[1] ? { min: Number(range[1]) } : {}),
+        ...(range[2] ? { max: Number(range[2]) } : {}),
+      };
+    }
+
+    const comparison = new RegExp(`^([<>]=?)(${this.NUMBER})$`).exec(bound);
+    if (comparison) {
+      const [, operator, number] = comparison;
+      return operator.startsWith(">")
+        ? {
+            type: "range",
+            field,
+            min: Number(number),
+            ...(operator === ">" ? { minExclusive: true } : {}),
+          }
+        : {
+            type: "range",
+            field,
+            max: Number(number),
+            ...(operator === "<" ? { maxExclusive: true } : {}),
+          };
+    }
+
+    const alternatives = value.split(",").filter(Boolean);
+    if (alternatives.length > 1) {
+      return {
+        type: "or",
+        children: alternatives.map((alternative) => ({
+          type: "term",
+          field,
+          value: alternative,
+        })),
+      };
+    }
+
+    return { type: "term", field, value };
+  }
+
+  /**
+   * Tags match whole tags, numbers match exactly and other fields match
+   * substrings
+   */
+  private static matchesField(
+    image: ImageSearchResult,
+    node: QueryTermNode,
+    normalize: Normalizer
+  ): boolean {
+    const needle = normalize(node.value);
+    return this.getValues(image, node.field as string).some((value) => {
+      if (node.field === "tags") return normalize(String(value)) === needle;
+      if (typeof value === "number") {
+        return this.toNumber(node.value, normalize) === value;
+      }
+      return normalize(String(value)).includes(needle);
+    });
+  }
+
+  /**
+   * Values at a field path; arrays (tags) yield one value per item
+   */
+  private static getValues(image: ImageSearchResult, field: string): unknown[] {
+    // Captions are matched and sorted without their Markdown
+    if (field === "caption") {
+      return image.caption ? [CaptionFormatter.toPlainText(image.caption)] : [];
+    }
+
+    const value = field
+      .split(".")
+      .reduce<unknown>(
+        (node, key) =>
+          node && typeof node === "object"
+            ? (node as Record<string, unknown>)[key]
+            : undefined,
+        image
+      );
+
+    const values = Array.isArray(value) ? value : [value];
+    return values.filter(
+      (item) => item !== undefined && item !== null && item !== ""
+    );
+  }
+
+  /**
+   * First number in a value, so "c. 1950" and "۱۳۲۸" are comparable
+   */
+  private static toNumber(value: string, normalize: Normalizer): number | null {
+    const match = new RegExp(this.NUMBER).exec(normalize(value));
+    return match ? Number(match[0]) : null;
+  }
+
+  private static compareValues(
+    a: unknown,
+    b: unknown,
+    normalize: Normalizer
+  ): number {
+    const aNumber =
+      typeof a === "number" ? a : this.toNumber(String(a), normalize);
+    const bNumber =
+      typeof b === "number" ? b : this.toNumber(String(b), normalize);
+    if (aNumber !== null && bNumber !== null && aNumber !== bNumber) {
+      return aNumber - bNumber;
+    }
+    return normalize(String(a)).localeCompare(normalize(String(b)));
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * Responsive image markup for HTML, Slidev and Markdown output
+ */
+
+import { ImageWithCaption, RenderOptions, TransformOptions } from "../types";
+import { ImageUtils } from "../utils";
+import { ProviderRegistry } from "../providers";
+import { CaptionFormatter } from "../caption";
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>])/g, "\\$1");
+}
+
+function formatAttributes(
+  attributes: Record<string, string | number | undefined>
+): string {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined && value !== "")
+    .map(([name, value]) => ` ${name}="${escapeHtml(String(value))}"`)
+    .join("");
+}
+
+/**
+ * Width divided by height for "16:9" or 1.78
+ */
+function parseRatio(ratio: TransformOptions["aspectRatio"]): number | null {
+  if (typeof ratio === "number") return ratio > 0 ? ratio : null;
+  if (typeof ratio !== "string") return null;
+
+  const [width, height] = ratio.split(":").map(parseFloat);
+  return width > 0 && height > 0 ? width / height : null;
+}
+
+export class ImageRenderer {
+  private static readonly DEFAULT_WIDTHS = [480, 768, 1024, 1440, 1920];
+
+  private static readonly MIME_TYPES: Record<string, string> = {
+    avif: "image/avif",
+    webp: "image/webp",
+  };
+
+  /**
+   * Render `<img>` markup, using `<picture>` to offer modern formats and
+   * `<figure>` for the caption and credits
+   */
+  static render(image: ImageWithCaption, options: RenderOptions = {}): string {
+    const {
+      sizes = "100vw",
+      formats = ["avif", "webp"],
+      figure = true,
+      credits = true,
+      lazy = true,
+      className,
+      provider,
+    } = options;
+    const transform = ImageUtils.resolveSlideOptions(
+      this.getTransformOptions(options),
+      options.presets
+    );
+    const servable = ProviderRegistry.resolve(image.src, provider) !== null;
+    const widths = servable ? this.getWidths(transform, options.widths) : [];
+
+    const srcset = (format?: string) =>
+      widths
+        .map((width) => {
+          const variant = this.getVariant(transform, width, format);
+          return `${ImageUtils.applyTransform(
+            image.src,
+            variant,
+            provider
+          )} ${width}w`;
+        })
+        .join(", ");
+
+    const dimensions = this.getDimensions(transform);
+    const img = `<img${formatAttributes({
+      src: servable
+        ? ImageUtils.applyTransform(image.src, transform, provider)
+        : image.src,
+      srcset: widths.length ? srcset() : undefined,
+      sizes: widths.length ? sizes : undefined,
+      width: dimensions.width,
+      height: dimensions.height,
+      alt: options.alt ?? CaptionFormatter.toPlainText(image.caption),
+      loading: lazy ? "lazy" : undefined,
+      decoding: lazy ? "async" : undefined,
+      class: figure ? undefined : className,
+    })}>`;
+
+    const sources = widths.length
+      ? formats.map(
+          (format) =>
+            `<source${formatAttributes({
+              type: this.MIME_TYPES[format],
+              srcset: srcset(format),
+              sizes,
+            })}>`
+        )
+      : [];
+    const picture = sources.length
+      ? [
+          "<picture>",
+          ...sources.map((line) => `  ${line}`),
+          `  ${img}`,
+          "</picture>",
+        ]
+      : [img];
+
+    if (!figure) {
+      if (sources.length && className) {
+        picture[0] = `<picture${formatAttributes({ class: className })}>`;
+      }
+      return picture.join("\n");
+    }
+
+    const credit = credits
+      ? CaptionFormatter.formatCredits(image.metadata, { format: "html" })
+      : "";
+    const caption = [
+      image.caption ? CaptionFormatter.toHtml(image.caption) : "",
+      credit ? `<span class="credits">${credit}</span>` : "",
+    ].filter(Boolean);
+
+    return [
+      `<figure${formatAttributes({ class: className })}>`,
+      ...picture.map((line) => `  ${line}`),
+      ...(caption.length
+        ? [`  <figcaption>${caption.join(" ")}</figcaption>`]
+        : []),
+      "</figure>",
+    ].join("\n");
+  }
+
+  /**
+   * Render a Markdown image with the caption and credits in the paragraph
+   * below, for renderers that do not allow HTML
+   */
+  static renderMarkdown(
+    image: ImageWithCaption,
+    options: RenderOptions = {}
+  ): string {
+    const transform = ImageUtils.resolveSlideOptions(
+      this.getTransformOptions(options),
+      options.presets
+    );
+    const src = ImageUtils.applyTransform(
+      image.src,
+      transform,
+      options.provider
+    )
+      .replace(/\s/g, "%20")
+      .replace(/\(/g, "%28")
+      .replace(/\)/g, "%29");
+    const alt = escapeMarkdown(
+      options.alt ?? CaptionFormatter.toPlainText(image.caption)
+    );
+
+    if (options.figure === false) return `![${alt}](${src})`;
+
+    // The caption is already Markdown
+    const credit =
+      options.credits === false
+        ? ""
+        : CaptionFormatter.formatCredits(image.metadata, {
+            format: "markdown",
+          });
+    const caption = [image.caption.trim(), credit].filter(Boolean).join(" — ");
+
+    return caption ? `![${alt}](${src})\n\n${caption}` : `![${alt}](${src})`;
+  }
+
+  /**
+   * Slide options without the rendering-only fields
+   */
+  private static getTransformOptions(options: RenderOptions): RenderOptions {
+    const transform: RenderOptions = { ...options };
+    delete transform.widths;
+    delete transform.sizes;
+    delete transform.formats;
+    delete transform.alt;
+    delete transform.figure;
+    delete transform.credits;
+    delete transform.className;
+    delete transform.provider;
+    delete transform.presets;
+    return transform;
+  }
+
+  private static getWidths(
+    transform: TransformOptions,
+    widths: number[] = this.DEFAULT_WIDTHS
+  ): number[] {
+    const max = transform.width;
+    const candidates = max
+      ? [...widths.filter((width) => width < max), max]
+      : widths;
+    return Array.from(new Set(candidates)).sort((a, b) => a - b);
+  }
+
+  /**
+   * Options for one srcset candidate, scaling the height with the width
+   */
+  private static getVariant(
+    transform: TransformOptions,
+    width: number,
+    format?: string
+  ): TransformOptions {
+    const variant: TransformOptions = { ...transform, width };
+    delete variant.dpr;
+    if (transform.height) {
+      if (transform.width) {
+        variant.height = Math.round(
+          (transform.height * width) / transform.width
+        );
+      } else {
+        delete variant.height;
+      }
+    }
+    if (format) variant.format = format as TransformOptions["format"];
+    return variant;
+  }
+
+  private static getDimensions(transform: TransformOptions): {
+    width?: number;
+    height?: number;
+  } {
+    const { width } = transform;
+    const ratio = parseRatio(transform.aspectRatio);
+    const height =
+      transform.height ??
+      (width && ratio ? Math.round(width / ratio) : undefined);
+    return { width, height };
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Dataset JSON Schema
+ *
+ * Mirrors schema/dataset-schema.json so the validator can be bundled without
+ * a JSON loader. Keep both in sync when the format changes.
+ */
+
+import { JSONSchema } from "../types";
+
+export const DATASET_SCHEMA: JSONSchema = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  title: "Image Dataset Schema",
+  description: "Schema for image dataset with metadata and versioning",
+  type: "object",
+  required: ["metadata", "images"],
+  properties: {
+    metadata: {
+      type: "object",
+      required: ["version", "createdAt", "updatedAt"],
+      properties: {
+        version: {
+          type: "string",
+          pattern: "^v\\d{4}-\\d{2}-\\d{2}T\\d{2}-\\d{2}-\\d{2}-\\d{3}Z$",
+          description: "Version string in format vYYYY-MM-DDTHH-MM-SS-sssZ",
+        },
+        createdAt: {
+          type: "string",
+          format: "date-time",
+          description: "ISO 8601 date-time string",
+        },
+        updatedAt: {
+          type: "string",
+          format: "date-time",
+          description: "ISO 8601 date-time string",
+        },
+        description: {
+          type: "string",
+          description: "Human-readable description of the dataset",
+        },
+        tags: {
+          type: "array",
+          items: {
+            type: "string",
+          },
+          description: "Array of tags for the dataset",
+        },
+        schemaVersion: {
+          type: "string",
+          description: "Schema version for compatibility",
+        },
+        presets: {
+          type: "object",
+          patternProperties: {
+            "^[a-zA-Z0-9_-]+$": {
+              type: "object",
+            },
+          },
+          additionalProperties: false,
+          description:
+            "Named transform presets, optionally extending another preset",
+        },
+      },
+    },
+    images: {
+      type: "object",
+      patternProperties: {
+        "^[a-zA-Z0-9_-]+$": {
+          type: "object",
+          required: ["src", "caption"],
+          properties: {
+            src: {
+              type: "string",
+              format: "uri",
+              description: "URL to the image",
+            },
+            caption: {
+              type: "string",
+              description: "Caption or description of the image",
+            },
+            metadata: {
+              type: "object",
+              properties: {
+                artist: {
+                  type: "string",
+                  description: "Artist name",
+                },
+                year: {
+                  oneOf: [{ type: "string" }, { type: "number" }],
+                  description: "Year of creation",
+                },
+                medium: {
+                  type: "string",
+                  description: "Medium or technique used",
+                },
+                dimensions: {
+                  type: "string",
+                  description: "Physical dimensions",
+                },
+                collection: {
+                  type: "string",
+                  description: "Collection or museum",
+                },
+                location: {
+                  type: "string",
+                  description: "Geographic location",
+                },
+              },
+              additionalProperties: true,
+              description: "Additional metadata about the image",
+            },
+            tags: {
+              type: "array",
+              items: {
+                type: "string",
+              },
+              description: "Array of tags for categorization",
+            },
+            cloudinaryTransforms: {
+              type: "object",
+              patternProperties: {
+                "^[a-zA-Z0-9_-]+$": {
+                  type: "string",
+                },
+              },
+              description: "Named Cloudinary transformations",
+            },
+            technical: {
+              type: "object",
+              required: [
+                "width",
+                "height",
+                "aspectRatio",
+                "format",
+                "bytes",
+                "hash",
+                "inspectedAt",
+              ],
+              properties: {
+                width: { type: "integer", description: "Width in pixels" },
+                height: { type: "integer", description: "Height in pixels" },
+                aspectRatio: {
+                  type: "number",
+                  description: "Width divided by height",
+                },
+                format: {
+                  type: "string",
+                  pattern: "^(jpeg|png|webp|gif|avif)$",
+                  description: "Image file format",
+                },
+                bytes: { type: "integer", description: "File size in bytes" },
+                hash: {
+                  type: "string",
+                  pattern: "^sha256:[0-9a-f]{64}$",
+                  description: "SHA-256 of the file contents",
+                },
+                perceptualHash: {
+                  type: "string",
+                  pattern: "^[0-9a-f]{16}$",
+                  description: "64-bit difference hash",
+                },
+                inspectedAt: {
+                  type: "string",
+                  format: "date-time",
+                  description: "When the file was inspected",
+                },
+              },
+              additionalProperties: false,
+              description: "Pixel size, format and hashes of the image file",
+            },
+          },
+        },
+      },
+      additionalProperties: false,
+      description: "Collection of images indexed by ID",
+    },
+  },
+};
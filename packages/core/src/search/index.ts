@@ -0,0 +1,378 @@
+/**
+ * Inverted full-text index over image captions, metadata and tags
+ */
+
+import {
+  FieldMatch,
+  ImageData,
+  Normalizer,
+  SearchField,
+  SearchHit,
+  SearchIndexOptions,
+  SearchQueryOptions,
+} from "../types";
+import { TextNormalizer } from "../normalize";
+import { CaptionFormatter } from "../caption";
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+interface IndexedField {
+  text: string;
+  tokens: string[];
+}
+
+type IndexedDocument = Partial<Record<SearchField, IndexedField>>;
+
+interface TermCandidate {
+  token: string;
+  weight: number;
+}
+
+export class SearchIndex {
+  /**
+   * Default relative importance of each field
+   */
+  private static readonly DEFAULT_WEIGHTS: Record<SearchField, number> = {
+    caption: 1,
+    artist: 3,
+    medium: 1.5,
+    collection: 1.5,
+    tags: 2,
+  };
+
+  /**
+   * Score multipliers for inexact matches
+   */
+  private static readonly PREFIX_WEIGHT = 0.6;
+  private static readonly FUZZY_WEIGHT = 0.4;
+
+  // token → image ID → field → term frequency
+  private postings = new Map<string, Map<string, Map<SearchField, number>>>();
+  private documents = new Map<string, IndexedDocument>();
+  private vocabulary: string[] | null = null;
+  private weights: Record<SearchField, number>;
+  private highlightMarkers: { pre: string; post: string };
+  private normalizer: Normalizer;
+
+  constructor(options: SearchIndexOptions = {}) {
+    this.weights = { ...SearchIndex.DEFAULT_WEIGHTS, ...options.weights };
+    this.normalizer =
+      options.normalizer || ((text) => TextNormalizer.normalize(text));
+    this.highlightMarkers = options.highlight || {
+      pre: "<mark>",
+      post: "</mark>",
+    };
+  }
+
+  /**
+   * Build an index over a dataset's images
+   */
+  static fromImages(
+    images: Record<string, ImageData>,
+    options: SearchIndexOptions = {}
+  ): SearchIndex {
+    const index = new SearchIndex(options);
+    Object.entries(images).forEach(([id, image]) => index.add(id, image));
+    return index;
+  }
+
+  /**
+   * Normalize text and split it into word tokens
+   */
+  static tokenize(
+    text: string,
+    normalizer: Normalizer = (value) => TextNormalizer.normalize(value)
+  ): string[] {
+    return normalizer(text).match(/[\p{L}\p{M}\p{N}]+/gu) || [];
+  }
+
+  /**
+   * Levenshtein distance between two strings, giving up once it exceeds
+   * `max` (returns max + 1 in that case)
+   */
+  static editDistance(a: string, b: string, max = Infinity): number {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      let rowMin = i;
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        current[j] = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + cost
+        );
+        rowMin = Math.min(rowMin, current[j]);
+      }
+      if (rowMin > max) return max + 1;
+      previous = current;
+    }
+
+    return previous[b.length];
+  }
+
+  /**
+   * Number of indexed images
+   */
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Index an image, replacing any previous entry with the same ID
+   */
+  add(id: string, image: ImageData): void {
+    this.remove(id);
+
+    const document = this.extractFields(image);
+    this.documents.set(id, document);
+
+    (Object.keys(document) as SearchField[]).forEach((field) => {
+      document[field]?.tokens.forEach((token) => {
+        let byImage = this.postings.get(token);
+        if (!byImage) {
+          byImage = new Map();
+          this.postings.set(token, byImage);
+          this.vocabulary = null;
+        }
+
+        let byField = byImage.get(id);
+        if (!byField) {
+          byField = new Map();
+          byImage.set(id, byField);
+        }
+        byField.set(field, (byField.get(field) || 0) + 1);
+      });
+    });
+  }
+
+  /**
+   * Remove an image from the index
+   */
+  remove(id: string): boolean {
+    const document = this.documents.get(id);
+    if (!document) return false;
+
+    Object.values(document).forEach((field) => {
+      field?.tokens.forEach((token) => {
+        const byImage = this.postings.get(token);
+        byImage?.delete(id);
+        if (byImage && byImage.size === 0) {
+          this.postings.delete(token);
+          this.vocabulary = null;
+        }
+      });
+    });
+
+    this.documents.delete(id);
+    return true;
+  }
+
+  /**
+   * Remove every image from the index
+   */
+  clear(): void {
+    this.postings.clear();
+    this.documents.clear();
+    this.vocabulary = null;
+  }
+
+  /**
+   * Search the index, returning hits ordered by relevance
+   */
+  search(query: string, options: SearchQueryOptions = {}): SearchHit[] {
+    const terms = Array.from(
+      new Set(SearchIndex.tokenize(query, this.normalizer))
+    );
+    if (!terms.length) return [];
+
+    const { prefix = true, fuzzy = true, operator = "and" } = options;
+    const scores = new Map<string, number>();
+    const matchedTerms = new Map<string, Map<SearchField, Set<string>>>();
+    const matchCounts = new Map<string, number>();
+
+    terms.forEach((term) => {
+      // Best score per image for this query term
+      const termScores = new Map<string, number>();
+
+      this.expandTerm(term, prefix, fuzzy).forEach(({ token, weight }) => {
+        const byImage = this.postings.get(token);
+        if (!byImage) return;
+
+        const idf = Math.log(1 + this.documents.size / byImage.size);
+        byImage.forEach((byField, id) => {
+          let score = 0;
+          byField.forEach((frequency, field) => {
+            score += this.weights[field] * frequency * idf * weight;
+            this.recordMatch(matchedTerms, id, field, token);
+          });
+          termScores.set(id, Math.max(termScores.get(id) || 0, score));
+        });
+      });
+
+      termScores.forEach((score, id) => {
+        scores.set(id, (scores.get(id) || 0) + score);
+        matchCounts.set(id, (matchCounts.get(id) || 0) + 1);
+      });
+    });
+
+    const hits: SearchHit[] = [];
+    scores.forEach((score, id) => {
+      if (operator === "and" && matchCounts.get(id) !== terms.length) return;
+      hits.push({
+        id,
+        score,
+        matches: this.buildMatches(id, matchedTerms.get(id)),
+      });
+    });
+
+    hits.sort((a, b) => b.score - a.score);
+    return hits.slice(0, options.limit);
+  }
+
+  /**
+   * Indexed tokens that a query term matches, with their match weight
+   */
+  private expandTerm(
+    term: string,
+    prefix: boolean,
+    fuzzy: boolean
+  ): TermCandidate[] {
+    const candidates = new Map<string, number>();
+    if (this.postings.has(term)) {
+      candidates.set(term, 1);
+    }
+
+    if (prefix) {
+      this.prefixTokens(term).forEach((token) => {
+        if (!candidates.has(token)) {
+          candidates.set(token, SearchIndex.PREFIX_WEIGHT);
+        }
+      });
+    }
+
+    const maxDistance = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+    if (fuzzy && maxDistance > 0) {
+      this.getVocabulary().forEach((token) => {
+        if (candidates.has(token)) return;
+        const distance = SearchIndex.editDistance(term, token, maxDistance);
+        if (distance <= maxDistance) {
+          candidates.set(token, SearchIndex.FUZZY_WEIGHT / distance);
+        }
+      });
+    }
+
+    return Array.from(candidates, ([token, weight]) => ({ token, weight }));
+  }
+
+  /**
+   * Binary search the sorted vocabulary for tokens starting with a prefix
+   */
+  private prefixTokens(prefix: string): string[] {
+    const vocabulary = this.getVocabulary();
+    let low = 0;
+    let high = vocabulary.length;
+
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (vocabulary[mid] < prefix) low = mid + 1;
+      else high = mid;
+    }
+
+    const tokens: string[] = [];
+    for (let i = low; i < vocabulary.length; i++) {
+      if (!vocabulary[i].startsWith(prefix)) break;
+      tokens.push(vocabulary[i]);
+    }
+    return tokens;
+  }
+
+  private getVocabulary(): string[] {
+    if (!this.vocabulary) {
+      this.vocabulary = Array.from(this.postings.keys()).sort();
+    }
+    return this.vocabulary;
+  }
+
+  private extractFields(image: ImageData): IndexedDocument {
+    const document: IndexedDocument = {};
+    const set = (field: SearchField, value: unknown) => {
+      if (value === undefined || value === null || value === "") return;
+      const text = String(value);
+      document[field] = {
+        text,
+        tokens: SearchIndex.tokenize(text, this.normalizer),
+      };
+    };
+
+    set("caption", CaptionFormatter.toPlainText(image.caption || ""));
+    set("artist", image.metadata?.artist);
+    set("medium", image.metadata?.medium);
+    set("collection", image.metadata?.collection);
+    if (image.tags?.length) {
+      set("tags", image.tags.join(", "));
+    }
+
+    return document;
+  }
+
+  private recordMatch(
+    matchedTerms: Map<string, Map<SearchField, Set<string>>>,
+    id: string,
+    field: SearchField,
+    token: string
+  ): void {
+    let byField = matchedTerms.get(id);
+    if (!byField) {
+      byField = new Map();
+      matchedTerms.set(id, byField);
+    }
+
+    let tokens = byField.get(field);
+    if (!tokens) {
+      tokens = new Set();
+      byField.set(field, tokens);
+    }
+    tokens.add(token);
+  }
+
+  private buildMatches(
+    id: string,
+    matched: Map<SearchField, Set<string>> | undefined
+  ): FieldMatch[] {
+    const document = this.documents.get(id);
+    if (!document || !matched) return [];
+
+    return Array.from(matched, ([field, tokens]) => ({
+      field,
+      terms: Array.from(tokens),
+      highlight: this.highlight(document[field]?.text || "", tokens),
+    }));
+  }
+
+  /**
+   * HTML-escaped field text with the markers around matched words
+   */
+  private highlight(text: string, tokens: Set<string>): string {
+    const { pre, post } = this.highlightMarkers;
+    // Joiners are kept inside words so they highlight as the indexed token
+    return text.replace(
+      /([\p{L}\p{M}\p{N}\u200c\u200d]+)|[^\p{L}\p{M}\p{N}\u200c\u200d]+/gu,
+      (chunk, word?: string) =>
+        word &&
+        SearchIndex.tokenize(word, this.normalizer).some((token) =>
+          tokens.has(token)
+        )
+          ? `${pre}${escapeHtml(word)}${post}`
+          : escapeHtml(chunk)
+    );
+  }
+}
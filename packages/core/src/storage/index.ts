@@ -0,0 +1,280 @@
+/**
+ * Storage adapters for loading and saving datasets: JSON files, memory and
+ * SQLite. Backends are passed in, so core stays free of Node dependencies.
+ */
+
+import {
+  FileStorageOptions,
+  ImageData,
+  ImageDataset,
+  SqliteDatabase,
+  SqliteStorageOptions,
+  StorageAdapter,
+  StorageFileSystem,
+} from "../types";
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function errorCode(error: unknown): string | undefined {
+  const { code } = (error ?? {}) as { code?: unknown };
+  return typeof code === "string" ? code : undefined;
+}
+
+/**
+ * Thrown when a file stays locked by another writer for too long
+ */
+export class StorageLockError extends Error {
+  readonly path: string;
+
+  constructor(path: string) {
+    super(`Timed out waiting for the lock on ${path}`);
+    this.name = "StorageLockError";
+    this.path = path;
+  }
+}
+
+/**
+ * Datasets as JSON files. Writes go to a temporary file that is renamed over
+ * the target, so readers never see a partial file, and writers take a
+ * `<path>.lock` file so concurrent saves do not interleave.
+ *
+ * @example new FileStorage(await import("fs/promises"))
+ */
+export class FileStorage implements StorageAdapter {
+  static readonly DEFAULT_LOCK_TIMEOUT = 5000;
+  static readonly DEFAULT_STALE_LOCK_AGE = 30000;
+  static readonly DEFAULT_RETRY_DELAY = 50;
+
+  private options: Required<FileStorageOptions>;
+
+  constructor(private fs: StorageFileSystem, options: FileStorageOptions = {}) {
+    this.options = {
+      lockTimeout: FileStorage.DEFAULT_LOCK_TIMEOUT,
+      staleLockAge: FileStorage.DEFAULT_STALE_LOCK_AGE,
+      retryDelay: FileStorage.DEFAULT_RETRY_DELAY,
+      ...options,
+    };
+  }
+
+  async read(path: string): Promise<unknown> {
+    return JSON.parse(await this.fs.readFile(path, "utf-8"));
+  }
+
+  async write(path: string, dataset: ImageDataset): Promise<void> {
+    const temporary = `${path}.${Date.now().toString(36)}${Math.random()
+      .toString(36)
+      .slice(2, 8)}.tmp`;
+
+    await this.withLock(path, async () => {
+      try {
+        await this.fs.writeFile(
+          temporary,
+          JSON.stringify(dataset, null, 2) + "\n"
+        );
+        await this.fs.rename(temporary, path);
+      } catch (error) {
+        await this.fs.unlink(temporary).catch(() => undefined);
+        throw error;
+      }
+    });
+  }
+
+  async exists(path: string): Promise<boolean> {
+    try {
+      await this.fs.stat(path);
+      return true;
+    } catch (error) {
+      if (errorCode(error) === "ENOENT") return false;
+      throw error;
+    }
+  }
+
+  /**
+   * Run a task while holding the lock file for a path. Locks older than
+   * `staleLockAge` are taken over, since their writer most likely crashed.
+   */
+  async withLock<T>(path: string, task: () => Promise<T>): Promise<T> {
+    const lock = `${path}.lock`;
+    const started = Date.now();
+
+    for (;;) {
+      try {
+        await this.fs.writeFile(lock, new Date().toISOString(), {
+          flag: "wx",
+        });
+        break;
+      } catch (error) {
+        if (errorCode(error) !== "EEXIST") throw error;
+      }
+
+      const age = await this.fs
+        .stat(lock)
+        .then(({ mtimeMs }) => Date.now() - mtimeMs)
+        .catch(() => 0);
+      if (age > this.options.staleLockAge) {
+        await this.fs.unlink(lock).catch(() => undefined);
+      } else if (Date.now() - started >= this.options.lockTimeout) {
+        throw new StorageLockError(path);
+      } else {
+        await sleep(this.options.retryDelay);
+      }
+    }
+
+    try {
+      return await task();
+    } finally {
+      await this.fs.unlink(lock).catch(() => undefined);
+    }
+  }
+}
+
+/**
+ * Datasets kept in memory, e.g. for tests and previews. Stored copies are
+ * independent of the datasets passed in and returned.
+ */
+export class MemoryStorage implements StorageAdapter {
+  private entries = new Map<string, string>();
+
+  constructor(datasets: Record<string, ImageDataset> = {}) {
+    Object.entries(datasets).forEach(([path, dataset]) =>
+      this.entries.set(path, JSON.stringify(dataset))
+    );
+  }
+
+  async read(path: string): Promise<unknown> {
+    const entry = this.entries.get(path);
+    if (entry === undefined) throw new Error(`No dataset at "${path}"`);
+    return JSON.parse(entry);
+  }
+
+  async write(path: string, dataset: ImageDataset): Promise<void> {
+    this.entries.set(path, JSON.stringify(dataset));
+  }
+
+  async exists(path: string): Promise<boolean> {
+    return this.entries.has(path);
+  }
+
+  getPaths(): string[] {
+    return Array.from(this.entries.keys());
+  }
+}
+
+/**
+ * Datasets in an SQLite database with one row per image, so large datasets
+ * need not live in one JSON file. Each save runs in a single transaction and
+ * only writes the rows of images that were added, changed, moved or removed.
+ * Paths name datasets within the database.
+ */
+export class SqliteStorage implements StorageAdapter {
+  static readonly DEFAULT_TABLE_PREFIX = "idm_";
+
+  private datasetsTable: string;
+  private imagesTable: string;
+  private ready = false;
+
+  constructor(private db: SqliteDatabase, options: SqliteStorageOptions = {}) {
+    const prefix = options.tablePrefix ?? SqliteStorage.DEFAULT_TABLE_PREFIX;
+    if (!/^\w*$/.test(prefix)) {
+      throw new Error(`Invalid table prefix "${prefix}"`);
+    }
+    this.datasetsTable = `${prefix}datasets`;
+    this.imagesTable = `${prefix}images`;
+  }
+
+  async read(path: string): Promise<unknown> {
+    this.createTables();
+    const row = this.db
+      .prepare(`SELECT data FROM ${this.datasetsTable} WHERE path = ?`)
+      .get(path) as { data: string } | undefined;
+    if (!row) throw new Error(`No dataset at "${path}"`);
+
+    const rows = this.db
+      .prepare(
+        `SELECT id, data FROM ${this.imagesTable} WHERE path = ? ORDER BY position`
+      )
+      .all(path) as { id: string; data: string }[];
+    const images: Record<string, ImageData> = {};
+    rows.forEach(({ id, data }) => {
+      images[id] = JSON.parse(data);
+    });
+
+    return { ...JSON.parse(row.data), images };
+  }
+
+  async write(path: string, dataset: ImageDataset): Promise<void> {
+    this.createTables();
+    const { images, ...rest } = dataset;
+
+    this.db.exec("BEGIN");
+    try {
+      this.db
+        .prepare(
+          `INSERT OR REPLACE INTO ${this.datasetsTable} (path, data) VALUES (?, ?)`
+        )
+        .run(path, JSON.stringify(rest));
+
+      const stored = new Map(
+        (
+          this.db
+            .prepare(
+              `SELECT id, position, data FROM ${this.imagesTable} WHERE path = ?`
+            )
+            .all(path) as { id: string; position: number; data: string }[]
+        ).map((row) => [row.id, row])
+      );
+      const saveImage = this.db.prepare(
+        `INSERT OR REPLACE INTO ${this.imagesTable} (path, id, position, data) VALUES (?, ?, ?, ?)`
+      );
+      const deleteImage = this.db.prepare(
+        `DELETE FROM ${this.imagesTable} WHERE path = ? AND id = ?`
+      );
+
+      // Positions only need to keep the order, so stored rows keep theirs
+      // while they still increase and new or moved images go after them
+      let position = -1;
+      Object.entries(images).forEach(([id, image]) => {
+        const data = JSON.stringify(image);
+        const row = stored.get(id);
+        stored.delete(id);
+
+        if (row && row.position > position) {
+          position = row.position;
+          if (row.data === data) return;
+        } else {
+          position++;
+        }
+        saveImage.run(path, id, position, data);
+      });
+      stored.forEach((_, id) => deleteImage.run(path, id));
+
+      this.db.exec("COMMIT");
+    } catch (error) {
+      this.db.exec("ROLLBACK");
+      throw error;
+    }
+  }
+
+  async exists(path: string): Promise<boolean> {
+    this.createTables();
+    return Boolean(
+      this.db
+        .prepare(`SELECT 1 FROM ${this.datasetsTable} WHERE path = ?`)
+        .get(path)
+    );
+  }
+
+  private createTables(): void {
+    if (this.ready) return;
+    this.db.exec(
+      `CREATE TABLE IF NOT EXISTS ${this.datasetsTable} (` +
+        "path TEXT PRIMARY KEY, data TEXT NOT NULL);" +
+        `CREATE TABLE IF NOT EXISTS ${this.imagesTable} (` +
+        "path TEXT NOT NULL, id TEXT NOT NULL, position INTEGER NOT NULL, " +
+        "data TEXT NOT NULL, PRIMARY KEY (path, id));"
+    );
+    this.ready = true;
+  }
+}
@@ -21,6 +21,29 @@ export interface ImageData {
   metadata?: ImageMetadata;
   tags?: string[];
   cloudinaryTransforms?: CloudinaryTransforms;
+  /** Facts about the image file itself, filled in by enrichment */
+  technical?: TechnicalMetadata;
+}
+
+export type ImageFormat = "jpeg" | "png" | "webp" | "gif" | "avif";
+
+/**
+ * Pixel size, format and hashes read from an image file, as opposed to the
+ * physical `metadata.dimensions` of the artwork
+ */
+export interface TechnicalMetadata {
+  width: number;
+  height: number;
+  /** width / height, rounded to four decimals */
+  aspectRatio: number;
+  format: ImageFormat;
+  /** File size in bytes */
+  bytes: number;
+  /** Content hash, "sha256:<hex>" */
+  hash: string;
+  /** 64-bit difference hash as 16 hex digits, when the pixels could be decoded */
+  perceptualHash?: string;
+  inspectedAt: string;
 }
 
 export interface DatasetMetadata {
@@ -30,6 +53,8 @@ export interface DatasetMetadata {
   description?: string;
   tags?: string[];
   schemaVersion?: string;
+  /** Named transform presets for this dataset's images */
+  presets?: Record<string, TransformPreset>;
 }
 
 export interface ImageDataset {
@@ -45,33 +70,1016 @@ export interface SearchOptions {
   year?: string | number;
   collection?: string;
   limit?: number;
+  /** Match query terms as word prefixes (default true) */
+  prefix?: boolean;
+  /** Tolerate typos in query terms (default true) */
+  fuzzy?: boolean;
+  /** Require all query terms ("and", default) or any of them ("or") */
+  operator?: "and" | "or";
+  /** Require any of `tags` ("any", default) or all of them ("all") */
+  tagMode?: "any" | "all";
+  /** "relevance" (default) or a field such as "year"; prefix "-" to reverse */
+  sort?: string;
+  /** Number of results to skip before `limit` is applied */
+  offset?: number;
+  /**
+   * Throw QuerySyntaxError for queries that do not parse, instead of
+   * searching for their words literally (default false)
+   */
+  strict?: boolean;
 }
 
 export interface TransformOptions {
   width?: number;
   height?: number;
   quality?: "auto" | number;
-  format?: "auto" | "webp" | "jpg" | "png";
+  format?: "auto" | "webp" | "avif" | "jpg" | "png";
   crop?: "scale" | "fill" | "fit" | "crop";
   gravity?: "auto" | "face" | "center" | "north" | "south" | "east" | "west";
+  /** Width to height ratio, as a number (1.5) or "16:9" */
+  aspectRatio?: number | string;
+  /** Device pixel ratio, 0.1 to 5 */
+  dpr?: "auto" | number;
+  /** Corner radius in pixels; "max" for a circle or ellipse */
+  radius?: "max" | number;
+  /** Padding and transparency color: a name, "#rrggbb" or "auto" */
+  background?: string;
+  /** Clockwise rotation in degrees */
+  rotate?: number;
+  effects?: TransformEffects;
+  /** Captions or watermarks drawn over the image, in order */
+  overlays?: TransformOverlay[];
+}
+
+/**
+ * Image effects; `true` uses the provider's default strength
+ */
+export interface TransformEffects {
+  grayscale?: boolean;
+  /** 1 to 100 */
+  sepia?: boolean | number;
+  /** 1 to 2000 */
+  blur?: boolean | number;
+  /** 1 to 2000 */
+  sharpen?: boolean | number;
+}
+
+export type OverlayGravity =
+  | "center"
+  | "north"
+  | "south"
+  | "east"
+  | "west"
+  | "north_east"
+  | "north_west"
+  | "south_east"
+  | "south_west";
+
+export interface OverlayPlacement {
+  gravity?: OverlayGravity;
+  /** Offset from the gravity edge in pixels */
+  x?: number;
+  y?: number;
+  /** 0 to 100 */
+  opacity?: number;
+}
+
+export interface TextOverlay extends OverlayPlacement {
+  text: string;
+  /** Defaults to Arial */
+  fontFamily?: string;
+  /** Defaults to 32 */
+  fontSize?: number;
+  fontWeight?: "normal" | "bold";
+  color?: string;
+  background?: string;
+}
+
+export interface ImageOverlay extends OverlayPlacement {
+  /** Public ID of the image to draw, e.g. "logos/watermark" */
+  image: string;
+  width?: number;
+}
+
+export type TransformOverlay = TextOverlay | ImageOverlay;
+
+/**
+ * Built-in preset names; registered and dataset presets add their own
+ */
+export type PresetName =
+  | "thumbnail"
+  | "hero"
+  | "fullscreen"
+  | "medium"
+  | (string & Record<never, never>);
+
+/**
+ * Transform options stored under a name. Options are merged over the preset
+ * named in `extends`, or over a lower-level preset of the same name
+ * (dataset presets over registered ones, registered over built-ins).
+ */
+export interface TransformPreset extends TransformOptions {
+  extends?: PresetName;
 }
 
 export interface SlideImageOptions extends TransformOptions {
-  preset?: "thumbnail" | "hero" | "fullscreen" | "medium";
+  preset?: PresetName;
   lazy?: boolean;
 }
 
 export interface ImageWithCaption {
   id: string;
   src: string;
+  /** Caption as written, possibly with inline Markdown */
   caption: string;
+  /** Caption rendered to safe HTML */
+  captionHtml?: string;
+  /** Caption without markup, for alt text */
+  captionText?: string;
   metadata?: ImageMetadata;
 }
 
+export interface CreditOptions {
+  /** Metadata fields in order (default artist, title, year, medium, dimensions) */
+  fields?: string[];
+  /** "text" (default), or "html"/"markdown" with the title italicized */
+  format?: "text" | "html" | "markdown";
+  /** Default ", " */
+  separator?: string;
+}
+
+/**
+ * Options for rendering responsive `<img>`/`<picture>` markup
+ */
+export interface RenderOptions extends SlideImageOptions {
+  /** Candidate widths for `srcset` (default 480 to 1920, capped at `width`) */
+  widths?: number[];
+  /** `sizes` attribute (default "100vw") */
+  sizes?: string;
+  /** Formats offered as `<source>` elements, best first (default avif, webp) */
+  formats?: ("avif" | "webp")[];
+  /** Alt text (default: the caption) */
+  alt?: string;
+  /** Wrap in `<figure>` with a `<figcaption>` (default true) */
+  figure?: boolean;
+  /** Add credits from the image metadata to the figcaption (default true) */
+  credits?: boolean;
+  /** Class for the outermost element */
+  className?: string;
+  /** Image CDN used for variants; detected from the URL if omitted */
+  provider?: string | ImageProvider;
+  /** Presets to resolve `preset` against, e.g. a dataset's */
+  presets?: Record<string, TransformPreset>;
+}
+
 export interface DatasetManagerOptions {
+  /** Where `save()` writes by default; set by `DatasetManager.load` */
   datasetPath?: string;
+  /** Backend for `DatasetManager.load` and `save()` */
+  storage?: StorageAdapter;
   cacheEnabled?: boolean;
+  /**
+   * Named transform strings used for images whose `cloudinaryTransforms`
+   * lack the name, before falling back to presets
+   */
   defaultTransforms?: CloudinaryTransforms;
+  /** Reject datasets that violate the schema instead of sanitizing them */
+  strict?: boolean;
+  /** Record every change made through the manager into this history */
+  history?: VersionHistoryRecorder;
+  /** Text normalizer used by search, filters and artist/tag deduplication */
+  normalizer?: Normalizer;
+  /** Image CDN used for transforms; detected from each image URL if omitted */
+  provider?: string | ImageProvider;
 }
 
 export type ImageSearchResult = ImageData & { id: string };
+
+/**
+ * Subset of JSON Schema (draft-07) understood by the dataset validator
+ */
+export interface JSONSchema {
+  $schema?: string;
+  title?: string;
+  description?: string;
+  type?: JSONSchemaType | JSONSchemaType[];
+  required?: string[];
+  properties?: Record<string, JSONSchema>;
+  patternProperties?: Record<string, JSONSchema>;
+  additionalProperties?: boolean | JSONSchema;
+  items?: JSONSchema;
+  pattern?: string;
+  format?: string;
+  oneOf?: JSONSchema[];
+}
+
+export type JSONSchemaType =
+  | "object"
+  | "array"
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "null";
+
+export type ValidationRule =
+  | "type"
+  | "required"
+  | "pattern"
+  | "format"
+  | "additionalProperties"
+  | "oneOf";
+
+export interface ValidationError {
+  /** JSON pointer (RFC 6901) to the offending value */
+  path: string;
+  rule: ValidationRule;
+  message: string;
+  value?: unknown;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  errors: ValidationError[];
+}
+
+export interface VersionChangeSet {
+  metadata: DatasetMetadata;
+  /** Images added or modified since the previous version */
+  upserted: Record<string, ImageData>;
+  removed: string[];
+}
+
+export interface VersionHistoryEntry {
+  version: string;
+  timestamp: string;
+  message?: string;
+  /** Full dataset, stored for the first version and periodically after */
+  snapshot?: ImageDataset;
+  /** Changes relative to the previous entry */
+  changes?: VersionChangeSet;
+}
+
+export interface DatasetHistory {
+  entries: VersionHistoryEntry[];
+}
+
+export interface VersionSummary {
+  version: string;
+  timestamp: string;
+  message?: string;
+  imageCount: number;
+  kind: "snapshot" | "changes";
+}
+
+export interface VersionHistoryOptions {
+  /** Store a full snapshot every N versions (default 10) */
+  snapshotInterval?: number;
+}
+
+export interface VersionHistoryRecorder {
+  has(version: string): boolean;
+  record(dataset: ImageDataset, message?: string): VersionHistoryEntry | null;
+}
+
+export type ChangeKind = "added" | "removed" | "changed";
+
+export interface FieldChange {
+  /** JSON pointer from the dataset root, e.g. /images/foo/metadata/year */
+  path: string;
+  /** Top-level field of the image or dataset metadata that changed */
+  field: string;
+  /** Key inside `metadata` or `cloudinaryTransforms`, when applicable */
+  key?: string;
+  kind: ChangeKind;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface ImageChange {
+  id: string;
+  changes: FieldChange[];
+}
+
+export interface DatasetDiffResult {
+  from: string;
+  to: string;
+  metadata: FieldChange[];
+  added: ImageSearchResult[];
+  removed: ImageSearchResult[];
+  modified: ImageChange[];
+}
+
+export interface JSONPatchOperation {
+  op: "add" | "remove" | "replace";
+  path: string;
+  value?: unknown;
+}
+
+export type MergeStrategy = "ours" | "theirs";
+
+export interface MergeOptions {
+  /** Side whose value is kept for conflicting changes (default "ours") */
+  strategy?: MergeStrategy;
+}
+
+export interface MergeConflict {
+  /** JSON pointer from the dataset root */
+  path: string;
+  imageId?: string;
+  /** "modify" when both sides changed a value, "delete" when one removed it */
+  kind: "modify" | "delete";
+  base?: unknown;
+  ours?: unknown;
+  theirs?: unknown;
+  /** Value written to the merged dataset */
+  resolved?: unknown;
+}
+
+export interface MergeResult {
+  dataset: ImageDataset;
+  conflicts: MergeConflict[];
+}
+
+export interface SchemaMigration {
+  /** Schema version the migration applies to */
+  from: string;
+  /** Schema version the migration produces */
+  to: string;
+  description?: string;
+  /** Transform raw dataset JSON; receives a copy that may be mutated */
+  migrate(dataset: any): any;
+}
+
+export interface MigrateOptions {
+  /** Target schema version (defaults to the latest known version) */
+  to?: string;
+}
+
+export interface MigrationResult {
+  dataset: any;
+  from: string;
+  to: string;
+  applied: SchemaMigration[];
+}
+
+export type SearchField =
+  | "caption"
+  | "artist"
+  | "medium"
+  | "collection"
+  | "tags";
+
+export interface SearchIndexOptions {
+  /** Relative weight of each indexed field */
+  weights?: Partial<Record<SearchField, number>>;
+  /** Applied to indexed text and queries before tokenizing */
+  normalizer?: Normalizer;
+  /** Markers wrapped around matched words in highlights */
+  highlight?: { pre: string; post: string };
+}
+
+export interface SearchQueryOptions {
+  prefix?: boolean;
+  fuzzy?: boolean;
+  operator?: "and" | "or";
+  limit?: number;
+}
+
+export interface FieldMatch {
+  field: SearchField;
+  /** Indexed terms that matched the query */
+  terms: string[];
+  /** HTML-escaped field text with matched words wrapped in highlight markers */
+  highlight: string;
+}
+
+export interface SearchHit {
+  id: string;
+  score: number;
+  matches: FieldMatch[];
+}
+
+export type RankedSearchResult = ImageSearchResult & {
+  score: number;
+  matches: FieldMatch[];
+};
+
+/**
+ * Maps text to the form used for matching
+ */
+export type Normalizer = (text: string) => string;
+
+export interface NormalizeOptions {
+  /** Lowercase the text (default true) */
+  lowercase?: boolean;
+  /** Strip accents and Arabic diacritics (default true) */
+  diacritics?: boolean;
+  /** Unify Arabic letter variants with Persian ones (default true) */
+  persian?: boolean;
+  /** Fold Persian and Arabic-Indic digits to ASCII (default true) */
+  digits?: boolean;
+  /** Remove zero-width non-joiners, replace them with spaces, or keep them */
+  zwnj?: "remove" | "space" | "keep";
+}
+
+/**
+ * Parsed search query, as produced by DatasetQuery.parse
+ */
+export type QueryNode =
+  | QueryAndNode
+  | QueryOrNode
+  | QueryNotNode
+  | QueryTermNode
+  | QueryRangeNode
+  | QueryExistsNode;
+
+export interface QueryAndNode {
+  type: "and";
+  children: QueryNode[];
+}
+
+export interface QueryOrNode {
+  type: "or";
+  children: QueryNode[];
+}
+
+export interface QueryNotNode {
+  type: "not";
+  child: QueryNode;
+}
+
+export interface QueryTermNode {
+  type: "term";
+  /** Field path such as "tags" or "metadata.artist"; free text when omitted */
+  field?: string;
+  value: string;
+  /** Quoted value, matched as an exact phrase */
+  phrase?: boolean;
+}
+
+export interface QueryRangeNode {
+  type: "range";
+  field: string;
+  min?: number;
+  max?: number;
+  minExclusive?: boolean;
+  maxExclusive?: boolean;
+}
+
+export interface QueryExistsNode {
+  type: "exists";
+  field: string;
+}
+
+export interface QueryParseOptions {
+  /** How terms without an explicit AND/OR are combined (default "and") */
+  operator?: "and" | "or";
+}
+
+export interface QueryContext {
+  normalizer?: Normalizer;
+  /** Match a free-text term; defaults to a substring match over all fields */
+  matchText?: (image: ImageSearchResult, term: QueryTermNode) => boolean;
+}
+
+export type FacetField = "tags" | "artist" | "medium" | "collection" | "decade";
+
+export interface FacetCount {
+  /** First spelling seen among values that normalize alike */
+  value: string;
+  count: number;
+}
+
+export type FacetCounts = Record<FacetField, FacetCount[]>;
+
+export interface FacetOptions {
+  /** Facets to compute (default all) */
+  fields?: FacetField[];
+  /** Keep only the most frequent values of each facet */
+  limit?: number;
+  /** Drop values seen fewer times than this (default 1) */
+  minCount?: number;
+  normalizer?: Normalizer;
+}
+
+export type CoverageField =
+  | "artist"
+  | "year"
+  | "medium"
+  | "dimensions"
+  | "collection"
+  | "tags";
+
+export interface FieldCoverage {
+  present: number;
+  /** IDs of images missing the field */
+  missing: string[];
+}
+
+export interface DatasetStats {
+  version: string;
+  imageCount: number;
+  coverage: Record<CoverageField, FieldCoverage>;
+  tags: {
+    distinct: number;
+    untagged: number;
+    averagePerImage: number;
+  };
+  facets: FacetCounts;
+}
+
+/**
+ * Image CDN or proxy that can resize and convert images via their URL
+ */
+export interface ImageProvider {
+  name: string;
+  /** Whether a URL is served by this provider */
+  matches(url: string): boolean;
+  /** Provider-native transform string, e.g. "w_300,c_fill" for Cloudinary */
+  buildTransformString(options: TransformOptions): string;
+  /** Apply a native transform string to a URL, merging existing transforms */
+  applyTransform(url: string, transform: string): string;
+}
+
+export interface ProxyProviderOptions {
+  /** Server origin that source images are routed through */
+  baseUrl: string;
+}
+
+/**
+ * One step of a Cloudinary transformation chain, e.g. { c: "fill", w: "300" }
+ */
+export type CloudinaryTransformStep = Record<string, string>;
+
+/**
+ * A Cloudinary delivery URL decomposed into its parts
+ */
+export interface CloudinaryUrlParts {
+  /** Protocol and host, e.g. "https://res.cloudinary.com" */
+  origin: string;
+  cloudName?: string;
+  /** "image", "video" or "raw" */
+  resourceType: string;
+  /** "upload", "fetch", "private", ... */
+  deliveryType: string;
+  /** URL signature segment (s--…--), invalidated by any transform change */
+  signature?: string;
+  transformations: CloudinaryTransformStep[];
+  /** Version number without the "v" prefix */
+  version?: string;
+  /** Public ID including folders, without the extension */
+  publicId: string;
+  /** File extension, which selects the delivered format */
+  format?: string;
+  /** Query string including the leading "?" */
+  query?: string;
+}
+
+export interface PreloadOptions {
+  /** Requests in flight at once (default 6) */
+  concurrency?: number;
+  /** Milliseconds before a request is aborted (default 10000) */
+  timeout?: number;
+  /** Extra attempts after network errors, timeouts, 429 and 5xx (default 1) */
+  retries?: number;
+  /** Milliseconds before the first retry, doubled for each next one (default 250) */
+  retryDelay?: number;
+  /** HEAD only checks a URL; GET also downloads it (default "GET") */
+  method?: "GET" | "HEAD";
+  /** Fetch implementation, defaults to the global one */
+  fetch?: typeof fetch;
+  /** Called as each URL finishes */
+  onProgress?: (result: PreloadResult, done: number, total: number) => void;
+}
+
+/**
+ * Outcome of loading one URL
+ */
+export interface PreloadResult {
+  url: string;
+  /** Image ID when the URL came from a dataset */
+  id?: string;
+  /** 2xx response with an image (or unspecified) content type */
+  ok: boolean;
+  /** HTTP status of the last attempt, absent on network errors */
+  status?: number;
+  contentType?: string;
+  /** Content-Length, or the downloaded size for GET requests without one */
+  bytes?: number;
+  /** Milliseconds taken by the last attempt */
+  latency: number;
+  attempts: number;
+  error?: string;
+}
+
+/**
+ * Format and pixel size read from an image header
+ */
+export interface ImageHeader {
+  format: ImageFormat;
+  width: number;
+  height: number;
+}
+
+/**
+ * Decoded pixels in RGBA order, the layout of a canvas ImageData
+ */
+export interface PixelData {
+  width: number;
+  height: number;
+  data: Uint8Array | Uint8ClampedArray;
+}
+
+/**
+ * Decodes image bytes to pixels; null when the format is not supported
+ */
+export type ImageDecoder = (
+  bytes: Uint8Array,
+  header: ImageHeader
+) => Promise<PixelData | null> | PixelData | null;
+
+export interface InspectOptions {
+  /** Decoder for perceptual hashing; PNG is decoded without one */
+  decode?: ImageDecoder;
+}
+
+export interface EnrichOptions extends InspectOptions {
+  /** Images to inspect (default all) */
+  ids?: string[];
+  /** Inspect images that already have technical metadata (default false) */
+  force?: boolean;
+  /** Images inspected at once (default 4) */
+  concurrency?: number;
+  /** Milliseconds before a download is aborted (default 30000) */
+  timeout?: number;
+  /** Fetch implementation, defaults to the global one */
+  fetch?: typeof fetch;
+  /** Read an image's bytes, e.g. from a local file; null fetches `src` */
+  load?: (image: ImageData, id: string) => Promise<Uint8Array | null>;
+  /** Called as each image finishes */
+  onProgress?: (result: EnrichResult, done: number, total: number) => void;
+}
+
+/**
+ * Outcome of inspecting one image
+ */
+export interface EnrichResult {
+  id: string;
+  ok: boolean;
+  /** False when the image already had technical metadata and was skipped */
+  inspected: boolean;
+  technical?: TechnicalMetadata;
+  error?: string;
+}
+
+/**
+ * How two images were found to be duplicates: the same normalized `src`,
+ * Cloudinary public ID or content hash, or a close perceptual hash
+ */
+export type DuplicateCriterion = "src" | "publicId" | "hash" | "perceptual";
+
+export interface DuplicateOptions {
+  /** Criteria to match on (default all) */
+  by?: DuplicateCriterion[];
+  /** Most differing perceptual-hash bits for a match (default 6) */
+  threshold?: number;
+  /** Images to compare (default all) */
+  ids?: string[];
+}
+
+export interface DuplicateMatch {
+  a: string;
+  b: string;
+  criterion: DuplicateCriterion;
+  /** Differing perceptual-hash bits, for perceptual matches */
+  distance?: number;
+}
+
+export interface DuplicateGroup {
+  /** Image the others are merged into */
+  canonical: string;
+  /** Every image in the group, in dataset order */
+  ids: string[];
+  matches: DuplicateMatch[];
+}
+
+export interface DuplicateMergeResult {
+  canonical: string;
+  removed: string[];
+}
+
+/**
+ * What to do with imported images whose ID already exists: keep the
+ * existing image, replace it, merge the imported fields into it, import
+ * under a new ID, or reject the import
+ */
+export type ImportConflictPolicy =
+  | "skip"
+  | "overwrite"
+  | "merge"
+  | "rename"
+  | "error";
+
+/**
+ * Column (or JSON key) to image field: "id", "src", "caption", "tags",
+ * "metadata.<name>" or "cloudinaryTransforms.<name>"; "" ignores a column
+ */
+export type ImportMapping = Record<string, string>;
+
+export interface ImportOptions {
+  mapping?: ImportMapping;
+  /** Keep columns missing from the mapping as metadata (default true) */
+  unmappedAsMetadata?: boolean;
+  /** Separator for tag lists (default "," or ";") */
+  tagSeparator?: string | RegExp;
+}
+
+export interface DelimitedImportOptions extends ImportOptions {
+  /** Field delimiter, e.g. "\t" for TSV (default ",") */
+  delimiter?: string;
+}
+
+export interface FileImportOptions {
+  /** URL the files will be served from; the file name is appended */
+  baseUrl?: string;
+  /** Turn file names that are not valid IDs into ones (default false) */
+  slugify?: boolean;
+}
+
+/**
+ * An image file to import, e.g. from a directory listing
+ */
+export interface ImportFile {
+  name: string;
+  /** Source URL when `baseUrl` is not used, e.g. a file: URL */
+  url?: string;
+}
+
+export interface ImportIssue {
+  /** Where the problem is, e.g. "row 4", "line 2" or a file name */
+  source: string;
+  reason: string;
+}
+
+export interface ImportResult {
+  images: Record<string, ImageData>;
+  /** Records that were not imported */
+  issues: ImportIssue[];
+}
+
+export interface ImportSummary {
+  added: string[];
+  updated: string[];
+  skipped: string[];
+  /** Imported ID to the ID it was stored under */
+  renamed: Record<string, string>;
+}
+
+export type ExportFormat = "iiif" | "csv" | "jsonl" | "jsonld" | "bibtex";
+
+/**
+ * What exporters accept: a whole dataset or search results
+ */
+export type ExportSource = ImageDataset | ImageSearchResult[];
+
+export interface ExportOptions {
+  /** Base URL of the manifest, canvas and artwork IDs; required for IIIF */
+  baseUrl?: string;
+  /** Manifest label; defaults to the dataset description */
+  label?: string;
+  /** BCP 47 language of captions and labels (default "none") */
+  language?: string;
+  /** CSV field delimiter (default ",") */
+  delimiter?: string;
+}
+
+/** IIIF language map, e.g. { en: ["A Rooster"] } */
+export type IIIFLanguageMap = Record<string, string[]>;
+
+export interface IIIFMetadataEntry {
+  label: IIIFLanguageMap;
+  value: IIIFLanguageMap;
+}
+
+export interface IIIFImageBody {
+  id: string;
+  type: "Image";
+  format?: string;
+  width?: number;
+  height?: number;
+}
+
+export interface IIIFAnnotation {
+  id: string;
+  type: "Annotation";
+  motivation: "painting";
+  body: IIIFImageBody;
+  target: string;
+}
+
+export interface IIIFAnnotationPage {
+  id: string;
+  type: "AnnotationPage";
+  items: IIIFAnnotation[];
+}
+
+export interface IIIFCanvas {
+  id: string;
+  type: "Canvas";
+  label: IIIFLanguageMap;
+  width: number;
+  height: number;
+  summary?: IIIFLanguageMap;
+  metadata?: IIIFMetadataEntry[];
+  items: IIIFAnnotationPage[];
+}
+
+/**
+ * IIIF Presentation API 3.0 manifest
+ */
+export interface IIIFManifest {
+  "@context": string;
+  id: string;
+  type: "Manifest";
+  label: IIIFLanguageMap;
+  summary?: IIIFLanguageMap;
+  metadata?: IIIFMetadataEntry[];
+  items: IIIFCanvas[];
+}
+
+/**
+ * schema.org JSON-LD graph of VisualArtwork nodes
+ */
+export interface JsonLdDocument {
+  "@context": Record<string, string>;
+  "@graph": Record<string, unknown>[];
+}
+
+export interface GalleryOptions {
+  /** Site title (default: the dataset description) */
+  title?: string;
+  /** Preset for grid thumbnails (default "thumbnail") */
+  thumbnailPreset?: PresetName;
+  /** Preset for the image on detail pages (default "hero") */
+  detailPreset?: PresetName;
+  /** Language of the pages (default "en") */
+  lang?: string;
+}
+
+/**
+ * A file of a generated site, with a path relative to the site root
+ */
+export interface GalleryFile {
+  path: string;
+  content: string;
+}
+
+/**
+ * Prebuilt search index shipped with a gallery: normalized tokens map to
+ * positions in `ids`
+ */
+export interface GallerySearchIndex {
+  ids: string[];
+  tokens: Record<string, number[]>;
+}
+
+/**
+ * An HTTP request as seen by DatasetApi, independent of any server library
+ */
+export interface ApiRequest {
+  method: string;
+  /** Path with query string, e.g. "/datasets/art/search?q=rooster" */
+  url: string;
+  headers?: Record<string, string | string[] | undefined>;
+  /** Parsed JSON body of POST, PUT and PATCH requests */
+  body?: unknown;
+}
+
+export interface ApiResponse {
+  status: number;
+  headers: Record<string, string>;
+  /** JSON body; absent for 304 responses, HEAD requests and redirects */
+  body?: unknown;
+}
+
+export interface ApiOptions {
+  /** Access-Control-Allow-Origin value, or false for no CORS headers (default "*") */
+  cors?: string | false;
+  /** Page size when `limit` is not given (default 20) */
+  defaultLimit?: number;
+  /** Largest accepted `limit` (default 100) */
+  maxLimit?: number;
+  /** Bearer tokens allowed to write, mapped to the identity they act as */
+  tokens?: Record<string, string>;
+  /**
+   * Called after each write, e.g. to save the dataset and append the audit
+   * entry; if it throws, the change is rolled back and the request fails
+   */
+  onChange?: (change: ApiChange) => void;
+}
+
+export type ApiAction = "create" | "update" | "delete" | "tag";
+
+export interface ApiAuditEntry {
+  timestamp: string;
+  /** Identity of the token that made the change */
+  identity: string;
+  dataset: string;
+  action: ApiAction;
+  ids: string[];
+  previousVersion: string;
+  version: string;
+  message?: string;
+}
+
+export interface ApiChange {
+  /** Name the dataset is served under */
+  name: string;
+  dataset: ImageDataset;
+  audit: ApiAuditEntry;
+}
+
+/**
+ * Body of a bulk tag operation: images chosen by ID or by search query
+ */
+export interface ApiTagOperation {
+  ids?: string[];
+  query?: string;
+  add?: string[];
+  remove?: string[];
+  message?: string;
+}
+
+export interface ApiDatasetSummary {
+  name: string;
+  version: string;
+  updatedAt: string;
+  description?: string;
+  imageCount: number;
+}
+
+export interface ApiPage<T> {
+  total: number;
+  offset: number;
+  limit: number;
+  results: T[];
+}
+
+/**
+ * Where datasets are loaded from and saved to. Paths are whatever the
+ * adapter understands: file paths, keys or dataset names.
+ */
+export interface StorageAdapter {
+  /** Raw dataset data, which may need migrating */
+  read(path: string): Promise<unknown>;
+  write(path: string, dataset: ImageDataset): Promise<void>;
+  exists(path: string): Promise<boolean>;
+}
+
+/**
+ * The parts of Node's `fs/promises` used by FileStorage
+ */
+export interface StorageFileSystem {
+  readFile(path: string, encoding: "utf-8"): Promise<string>;
+  writeFile(
+    path: string,
+    data: string,
+    options?: { flag?: string }
+  ): Promise<void>;
+  rename(oldPath: string, newPath: string): Promise<void>;
+  unlink(path: string): Promise<void>;
+  stat(path: string): Promise<{ mtimeMs: number }>;
+}
+
+export interface FileStorageOptions {
+  /** Milliseconds to wait for another writer's lock (default 5000) */
+  lockTimeout?: number;
+  /** Milliseconds after which a lock is assumed abandoned (default 30000) */
+  staleLockAge?: number;
+  /** Milliseconds between attempts to take the lock (default 50) */
+  retryDelay?: number;
+}
+
+/**
+ * A prepared statement; better-sqlite3 and node:sqlite both fit
+ */
+export interface SqliteStatement {
+  run(...params: unknown[]): unknown;
+  get(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+/**
+ * A synchronous SQLite connection, e.g. `new Database(file)` from
+ * better-sqlite3 or `new DatabaseSync(file)` from node:sqlite
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqliteStatement;
+}
+
+export interface SqliteStorageOptions {
+  /** Prefix for the storage tables (default "idm_") */
+  tablePrefix?: string;
+}
@@ -6,11 +6,152 @@ import {
   TransformOptions,
   SlideImageOptions,
   CloudinaryTransforms,
+  ImageProvider,
+  TransformOverlay,
+  TransformPreset,
+  PresetName,
 } from "../types";
+import { ProviderRegistry } from "../providers";
+import { CloudinaryUrl } from "../cloudinary";
+
+export class TransformValidationError extends Error {
+  constructor(public readonly option: string, message: string) {
+    super(`Invalid transform option "${option}": ${message}`);
+    this.name = "TransformValidationError";
+  }
+}
+
+const COLOR_PATTERN = /^(#[0-9a-f]{3}|#[0-9a-f]{6}|[a-z]+)$/i;
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function ifDefined(value: unknown, fn: () => void): void {
+  if (value !== undefined) fn();
+}
+
+function checkRange(
+  option: string,
+  value: unknown,
+  min: number,
+  max: number,
+  allowed: unknown[] = []
+): void {
+  if (allowed.includes(value)) return;
+  if (!isNumber(value) || value < min || value > max) {
+    const choices = allowed.map((choice) => `${JSON.stringify(choice)}, `);
+    throw new TransformValidationError(
+      option,
+      `expected ${choices.join("")}a number from ${min} to ${max}`
+    );
+  }
+}
+
+function checkOneOf(option: string, value: unknown, allowed: unknown[]): void {
+  if (!allowed.includes(value)) {
+    throw new TransformValidationError(
+      option,
+      `expected one of ${allowed.map((v) => JSON.stringify(v)).join(", ")}`
+    );
+  }
+}
+
+function checkColor(option: string, value: unknown, auto = false): void {
+  if (auto && value === "auto") return;
+  if (typeof value !== "string" || !COLOR_PATTERN.test(value)) {
+    throw new TransformValidationError(
+      option,
+      `expected a color name or "#rrggbb"${auto ? ' or "auto"' : ""}`
+    );
+  }
+}
+
+function validateOverlay(overlay: TransformOverlay, index: number): void {
+  const prefix = `overlays[${index}]`;
+
+  if ("text" in overlay) {
+    if (typeof overlay.text !== "string" || !overlay.text.trim()) {
+      throw new TransformValidationError(
+        `${prefix}.text`,
+        "expected a non-empty string"
+      );
+    }
+    ifDefined(overlay.fontFamily, () => {
+      if (!/^[\w -]+$/.test(overlay.fontFamily as string)) {
+        throw new TransformValidationError(
+          `${prefix}.fontFamily`,
+          "expected letters, digits, spaces or dashes"
+        );
+      }
+    });
+    ifDefined(overlay.fontSize, () =>
+      checkRange(`${prefix}.fontSize`, overlay.fontSize, 1, 1000)
+    );
+    ifDefined(overlay.fontWeight, () =>
+      checkOneOf(`${prefix}.fontWeight`, overlay.fontWeight, ["normal", "bold"])
+    );
+    ifDefined(overlay.color, () =>
+      checkColor(`${prefix}.color`, overlay.color)
+    );
+    ifDefined(overlay.background, () =>
+      checkColor(`${prefix}.background`, overlay.background)
+    );
+  } else if ("image" in overlay) {
+    if (typeof overlay.image !== "string" || !overlay.image.trim()) {
+      throw new TransformValidationError(
+        `${prefix}.image`,
+        "expected a non-empty public ID"
+      );
+    }
+    ifDefined(overlay.width, () =>
+      checkRange(`${prefix}.width`, overlay.width, 1, Infinity)
+    );
+  } else {
+    throw new TransformValidationError(prefix, 'expected "text" or "image"');
+  }
+
+  ifDefined(overlay.gravity, () =>
+    checkOneOf(`${prefix}.gravity`, overlay.gravity, [
+      "center",
+      "north",
+      "south",
+      "east",
+      "west",
+      "north_east",
+      "north_west",
+      "south_east",
+      "south_west",
+    ])
+  );
+  ifDefined(overlay.x, () =>
+    checkRange(`${prefix}.x`, overlay.x, -Infinity, Infinity)
+  );
+  ifDefined(overlay.y, () =>
+    checkRange(`${prefix}.y`, overlay.y, -Infinity, Infinity)
+  );
+  ifDefined(overlay.opacity, () =>
+    checkRange(`${prefix}.opacity`, overlay.opacity, 0, 100)
+  );
+}
+
+/**
+ * Merge transform options, combining effects rather than replacing them
+ */
+function mergeTransformOptions<T extends TransformOptions>(
+  base: TransformOptions,
+  overrides: T
+): T {
+  const merged = { ...base, ...overrides };
+  if (base.effects && overrides.effects) {
+    merged.effects = { ...base.effects, ...overrides.effects };
+  }
+  return merged;
+}
 
 export class ImageUtils {
   /**
-   * Predefined transform presets for common use cases
+   * Built-in transform presets for common use cases
    */
   private static readonly PRESETS: Record<string, TransformOptions> = {
     thumbnail: {
@@ -44,57 +185,230 @@ export class ImageUtils {
   };
 
   /**
-   * Build Cloudinary transformation string from options
+   * Presets registered at runtime, layered over the built-ins
    */
-  static buildTransformString(options: TransformOptions): string {
-    const transforms: string[] = [];
+  private static registeredPresets: Map<string, TransformPreset> = new Map();
 
-    if (options.width) transforms.push(`w_${options.width}`);
-    if (options.height) transforms.push(`h_${options.height}`);
-    if (options.crop) transforms.push(`c_${options.crop}`);
-    if (options.quality) transforms.push(`q_${options.quality}`);
-    if (options.format) transforms.push(`f_${options.format}`);
-    if (options.gravity) transforms.push(`g_${options.gravity}`);
+  /**
+   * Build a provider transformation string from options (Cloudinary by
+   * default). Throws TransformValidationError for invalid options.
+   */
+  static buildTransformString(
+    options: TransformOptions,
+    provider: string | ImageProvider = "cloudinary"
+  ): string {
+    const resolved =
+      typeof provider === "string" ? ProviderRegistry.get(provider) : provider;
+    this.validateTransformOptions(options);
+    return resolved.buildTransformString(options);
+  }
 
-    return transforms.join(",");
+  /**
+   * Check transform options, which often come from dataset JSON, against
+   * their types and ranges; throws TransformValidationError
+   */
+  static validateTransformOptions(options: TransformOptions): void {
+    ifDefined(options.width, () =>
+      checkRange("width", options.width, 1, Infinity)
+    );
+    ifDefined(options.height, () =>
+      checkRange("height", options.height, 1, Infinity)
+    );
+    ifDefined(options.quality, () =>
+      checkRange("quality", options.quality, 1, 100, ["auto"])
+    );
+    ifDefined(options.format, () =>
+      checkOneOf("format", options.format, [
+        "auto",
+        "webp",
+        "avif",
+        "jpg",
+        "png",
+      ])
+    );
+    ifDefined(options.crop, () =>
+      checkOneOf("crop", options.crop, ["scale", "fill", "fit", "crop"])
+    );
+    ifDefined(options.gravity, () =>
+      checkOneOf("gravity", options.gravity, [
+        "auto",
+        "face",
+        "center",
+        "north",
+        "south",
+        "east",
+        "west",
+      ])
+    );
+    ifDefined(options.aspectRatio, () => {
+      const ratio = options.aspectRatio;
+      const valid =
+        typeof ratio === "string"
+          ? /^\d+(\.\d+)?:\d+(\.\d+)?$/.test(ratio) &&
+            ratio.split(":").every((part) => parseFloat(part) > 0)
+          : isNumber(ratio) && ratio > 0;
+      if (!valid) {
+        throw new TransformValidationError(
+          "aspectRatio",
+          'expected a positive number or "width:height"'
+        );
+      }
+    });
+    ifDefined(options.dpr, () =>
+      checkRange("dpr", options.dpr, 0.1, 5, ["auto"])
+    );
+    ifDefined(options.radius, () =>
+      checkRange("radius", options.radius, 0, Infinity, ["max"])
+    );
+    ifDefined(options.background, () =>
+      checkColor("background", options.background, true)
+    );
+    ifDefined(options.rotate, () =>
+      checkRange("rotate", options.rotate, -360, 360)
+    );
+    ifDefined(options.effects, () => {
+      const effects = options.effects;
+      if (!effects || typeof effects !== "object") {
+        throw new TransformValidationError("effects", "expected an object");
+      }
+      ifDefined(effects.grayscale, () =>
+        checkOneOf("effects.grayscale", effects.grayscale, [true, false])
+      );
+      ifDefined(effects.sepia, () =>
+        checkRange("effects.sepia", effects.sepia, 1, 100, [true, false])
+      );
+      ifDefined(effects.blur, () =>
+        checkRange("effects.blur", effects.blur, 1, 2000, [true, false])
+      );
+      ifDefined(effects.sharpen, () =>
+        checkRange("effects.sharpen", effects.sharpen, 1, 2000, [true, false])
+      );
+    });
+    ifDefined(options.overlays, () => {
+      if (!Array.isArray(options.overlays)) {
+        throw new TransformValidationError("overlays", "expected an array");
+      }
+      options.overlays.forEach((overlay, index) => {
+        if (!overlay || typeof overlay !== "object") {
+          throw new TransformValidationError(
+            `overlays[${index}]`,
+            "expected an object"
+          );
+        }
+        validateOverlay(overlay, index);
+      });
+    });
   }
 
   /**
-   * Apply transformation to Cloudinary URL
+   * Apply transformation to an image URL. The provider is detected from the
+   * URL unless given; URLs no provider serves are returned unchanged.
    */
   static applyTransform(
     url: string,
-    options: TransformOptions | string
+    options: TransformOptions | string,
+    provider?: string | ImageProvider
   ): string {
-    if (!this.isCloudinaryUrl(url)) {
-      return url; // Return original URL if not Cloudinary
+    const resolved = ProviderRegistry.resolve(url, provider);
+    if (!resolved) {
+      return url; // Return original URL if no provider serves it
     }
 
+    if (typeof options !== "string") this.validateTransformOptions(options);
+
     const transformString =
       typeof options === "string"
         ? options
-        : this.buildTransformString(options);
+        : resolved.buildTransformString(options);
 
     if (!transformString) return url;
 
-    // Insert transformation into Cloudinary URL
-    const parts = url.split("/upload/");
-    if (parts.length !== 2) return url;
-
-    const [base, path] = parts;
-    const existingTransforms = path.split("/")[0];
-
-    // Check if there are existing transforms
-    if (existingTransforms && !existingTransforms.includes(".")) {
-      // Merge with existing transforms
-      return `${base}/upload/${existingTransforms},${transformString}/${path
-        .split("/")
-        .slice(1)
-        .join("/")}`;
-    } else {
-      // Add new transforms
-      return `${base}/upload/${transformString}/${path}`;
-    }
+    return resolved.applyTransform(url, transformString);
+  }
+
+  /**
+   * Register a preset at runtime, replacing any registered preset of the
+   * same name. Built-ins of the same name are inherited, not removed.
+   */
+  static registerPreset(name: string, preset: TransformPreset): void {
+    this.validateTransformOptions(preset);
+    this.registeredPresets.set(name, { ...preset });
+  }
+
+  /**
+   * Remove a registered preset; returns false if it was not registered
+   */
+  static unregisterPreset(name: string): boolean {
+    return this.registeredPresets.delete(name);
+  }
+
+  /**
+   * Names of the built-in, registered and given dataset presets
+   */
+  static listPresets(presets: Record<string, TransformPreset> = {}): string[] {
+    return Array.from(
+      new Set([
+        ...Object.keys(this.PRESETS),
+        ...this.registeredPresets.keys(),
+        ...Object.keys(presets),
+      ])
+    );
+  }
+
+  /**
+   * Resolve a preset and everything it inherits into transform options.
+   * `presets` (usually a dataset's) take precedence over registered
+   * presets, which take precedence over built-ins. Returns null for
+   * unknown names.
+   */
+  static resolvePreset(
+    name: PresetName,
+    presets: Record<string, TransformPreset> = {}
+  ): TransformOptions | null {
+    const levels: Record<string, TransformPreset>[] = [
+      presets,
+      Object.fromEntries(this.registeredPresets),
+      this.PRESETS,
+    ];
+
+    const resolve = (
+      presetName: string,
+      start: number,
+      chain: string[]
+    ): TransformOptions | null => {
+      const index = levels.findIndex(
+        (level, i) =>
+          i >= start && Object.prototype.hasOwnProperty.call(level, presetName)
+      );
+      if (index === -1) return null;
+
+      const key = `${index}:${presetName}`;
+      if (chain.includes(key)) {
+        throw new Error(`Preset "${name}" has a circular "extends" chain`);
+      }
+
+      const { extends: parentName, ...own } = levels[index][presetName];
+      let parent: TransformOptions | null;
+      if (parentName === undefined) {
+        // A preset shadowing a lower-level one of the same name inherits it
+        parent = resolve(presetName, index + 1, [...chain, key]);
+      } else {
+        parent = resolve(
+          parentName,
+          parentName === presetName ? index + 1 : 0,
+          [...chain, key]
+        );
+        if (!parent) {
+          throw new Error(
+            `Preset "${presetName}" extends unknown preset "${parentName}"`
+          );
+        }
+      }
+
+      return parent ? mergeTransformOptions(parent, own) : own;
+    };
+
+    return resolve(name, 0, []);
   }
 
   /**
@@ -102,49 +416,72 @@ export class ImageUtils {
    */
   static applyPreset(
     url: string,
-    preset: keyof typeof ImageUtils.PRESETS
+    preset: PresetName,
+    provider?: string | ImageProvider,
+    presets?: Record<string, TransformPreset>
   ): string {
-    const presetOptions = this.PRESETS[preset];
+    const presetOptions = this.resolvePreset(preset, presets);
     if (!presetOptions) {
       console.warn(`Unknown preset: ${preset}`);
       return url;
     }
-    return this.applyTransform(url, presetOptions);
+    return this.applyTransform(url, presetOptions, provider);
   }
 
   /**
    * Apply slide-specific transformations
    */
-  static applySlideTransform(url: string, options: SlideImageOptions): string {
-    if (options.preset) {
-      const presetOptions = { ...this.PRESETS[options.preset], ...options };
-      delete presetOptions.preset;
-      return this.applyTransform(url, presetOptions);
-    }
-    return this.applyTransform(url, options);
+  static applySlideTransform(
+    url: string,
+    options: SlideImageOptions,
+    provider?: string | ImageProvider,
+    presets?: Record<string, TransformPreset>
+  ): string {
+    return this.applyTransform(
+      url,
+      this.resolveSlideOptions(options, presets),
+      provider
+    );
+  }
+
+  /**
+   * Merge slide options over the preset they name, leaving plain transform
+   * options
+   */
+  static resolveSlideOptions(
+    options: SlideImageOptions,
+    presets?: Record<string, TransformPreset>
+  ): TransformOptions {
+    const transform: SlideImageOptions = { ...options };
+    delete transform.preset;
+    delete transform.lazy;
+
+    if (!options.preset) return transform;
+    return mergeTransformOptions(
+      this.resolvePreset(options.preset, presets) || {},
+      transform
+    );
   }
 
   /**
    * Check if URL is a Cloudinary URL
    */
   static isCloudinaryUrl(url: string): boolean {
-    return url.includes("cloudinary.com") && url.includes("/upload/");
+    return ProviderRegistry.get("cloudinary").matches(url);
   }
 
   /**
-   * Extract image ID from Cloudinary URL
+   * Name of the provider serving a URL, or null
+   */
+  static detectProvider(url: string): string | null {
+    return ProviderRegistry.detect(url)?.name || null;
+  }
+
+  /**
+   * Extract the public ID (including folders) from a Cloudinary URL
    */
   static extractImageId(url: string): string | null {
-    try {
-      const parts = url.split("/");
-      const uploadIndex = parts.findIndex((part) => part === "upload");
-      if (uploadIndex === -1) return null;
-
-      const imagePart = parts[parts.length - 1];
-      return imagePart.split(".")[0];
-    } catch {
-      return null;
-    }
+    return CloudinaryUrl.parse(url)?.publicId ?? null;
   }
 
   /**
@@ -164,6 +501,8 @@ export class ImageUtils {
         typeof data.cloudinaryTransforms === "object"
           ? data.cloudinaryTransforms
           : {},
+      ...(data.technical &&
+        typeof data.technical === "object" && { technical: data.technical }),
     };
   }
 
@@ -172,17 +511,22 @@ export class ImageUtils {
    */
   static generateSrcSet(
     url: string,
-    breakpoints: number[] = [480, 768, 1024, 1440, 1920]
+    breakpoints: number[] = [480, 768, 1024, 1440, 1920],
+    provider?: string | ImageProvider
   ): string {
-    if (!this.isCloudinaryUrl(url)) return "";
+    if (!ProviderRegistry.resolve(url, provider)) return "";
 
     return breakpoints
       .map((width) => {
-        const transformedUrl = this.applyTransform(url, {
-          width,
-          quality: "auto",
-          format: "auto",
-        });
+        const transformedUrl = this.applyTransform(
+          url,
+          {
+            width,
+            quality: "auto",
+            format: "auto",
+          },
+          provider
+        );
         return `${transformedUrl} ${width}w`;
       })
       .join(", ");
@@ -0,0 +1,262 @@
+/**
+ * Schema validation for image datasets
+ */
+
+import {
+  ImageDataset,
+  JSONSchema,
+  JSONSchemaType,
+  ValidationError,
+  ValidationResult,
+} from "../types";
+import { DATASET_SCHEMA } from "../schema";
+
+/**
+ * Thrown when a dataset fails validation in strict mode
+ */
+export class DatasetValidationError extends Error {
+  readonly errors: ValidationError[];
+
+  constructor(errors: ValidationError[]) {
+    const details = errors
+      .map((error) => `  - ${DatasetValidator.formatError(error)}`)
+      .join("\n");
+    super(
+      `Invalid dataset: ${errors.length} validation error${
+        errors.length === 1 ? "" : "s"
+      }\n${details}`
+    );
+    this.name = "DatasetValidationError";
+    this.errors = errors;
+  }
+}
+
+export class DatasetValidator {
+  /**
+   * Validate data against the dataset schema, collecting every violation
+   */
+  static validate(
+    data: unknown,
+    schema: JSONSchema = DATASET_SCHEMA
+  ): ValidationResult {
+    const errors: ValidationError[] = [];
+    this.validateNode(data, schema, "", errors);
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Throw a DatasetValidationError if data does not match the schema
+   */
+  static assertValid(
+    data: unknown,
+    schema: JSONSchema = DATASET_SCHEMA
+  ): asserts data is ImageDataset {
+    const { valid, errors } = this.validate(data, schema);
+    if (!valid) {
+      throw new DatasetValidationError(errors);
+    }
+  }
+
+  /**
+   * Format a validation error as a single human-readable line
+   */
+  static formatError(error: ValidationError): string {
+    return `${error.path || "/"}: ${error.message}`;
+  }
+
+  /**
+   * Escape a property name for use as a JSON pointer segment
+   */
+  static toPointerSegment(key: string): string {
+    return key.replace(/~/g, "~0").replace(/\//g, "~1");
+  }
+
+  private static validateNode(
+    value: unknown,
+    schema: JSONSchema,
+    path: string,
+    errors: ValidationError[]
+  ): void {
+    if (schema.oneOf) {
+      const matches = schema.oneOf.filter(
+        (option) => this.validate(value, option).valid
+      ).length;
+      if (matches !== 1) {
+        errors.push({
+          path,
+          rule: "oneOf",
+          message: `must match exactly one of: ${schema.oneOf
+            .map((option) => this.describeSchema(option))
+            .join(", ")}`,
+          value,
+        });
+        return;
+      }
+    }
+
+    if (schema.type) {
+      const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (!types.some((type) => this.matchesType(value, type))) {
+        errors.push({
+          path,
+          rule: "type",
+          message: `must be ${types.join(" or ")}, got ${this.typeOf(value)}`,
+          value,
+        });
+        // Nested rules are meaningless once the type is wrong
+        return;
+      }
+    }
+
+    if (typeof value === "string") {
+      if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+        errors.push({
+          path,
+          rule: "pattern",
+          message: `must match pattern ${schema.pattern}`,
+          value,
+        });
+      }
+
+      if (schema.format && !this.matchesFormat(value, schema.format)) {
+        errors.push({
+          path,
+          rule: "format",
+          message: `must be a valid ${schema.format}`,
+          value,
+        });
+      }
+    }
+
+    const itemSchema = schema.items;
+    if (Array.isArray(value) && itemSchema) {
+      value.forEach((item, index) => {
+        this.validateNode(item, itemSchema, `${path}/${index}`, errors);
+      });
+    }
+
+    if (this.matchesType(value, "object")) {
+      this.validateObject(
+        value as Record<string, unknown>,
+        schema,
+        path,
+        errors
+      );
+    }
+  }
+
+  private static validateObject(
+    value: Record<string, unknown>,
+    schema: JSONSchema,
+    path: string,
+    errors: ValidationError[]
+  ): void {
+    schema.required?.forEach((key) => {
+      if (!(key in value)) {
+        errors.push({
+          path: `${path}/${this.toPointerSegment(key)}`,
+          rule: "required",
+          message: `missing required property "${key}"`,
+        });
+      }
+    });
+
+    const patterns = Object.entries(schema.patternProperties || {}).map(
+      ([pattern, subschema]) => ({
+        regex: new RegExp(pattern),
+        pattern,
+        subschema,
+      })
+    );
+
+    Object.entries(value).forEach(([key, child]) => {
+      const childPath = `${path}/${this.toPointerSegment(key)}`;
+      let matched = false;
+
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        matched = true;
+        this.validateNode(child, propertySchema, childPath, errors);
+      }
+
+      patterns.forEach(({ regex, subschema }) => {
+        if (regex.test(key)) {
+          matched = true;
+          this.validateNode(child, subschema, childPath, errors);
+        }
+      });
+
+      if (matched || schema.additionalProperties === undefined) return;
+
+      if (schema.additionalProperties === false) {
+        const allowed = patterns.map(({ pattern }) => pattern);
+        errors.push({
+          path: childPath,
+          rule: "additionalProperties",
+          message: allowed.length
+            ? `property name "${key}" must match ${allowed.join(" or ")}`
+            : `unexpected property "${key}"`,
+          value: key,
+        });
+      } else if (typeof schema.additionalProperties === "object") {
+        this.validateNode(
+          child,
+          schema.additionalProperties,
+          childPath,
+          errors
+        );
+      }
+    });
+  }
+
+  private static matchesType(value: unknown, type: JSONSchemaType): boolean {
+    switch (type) {
+      case "object":
+        return (
+          typeof value === "object" && value !== null && !Array.isArray(value)
+        );
+      case "array":
+        return Array.isArray(value);
+      case "number":
+        return typeof value === "number" && Number.isFinite(value);
+      case "integer":
+        return Number.isInteger(value);
+      case "null":
+        return value === null;
+      default:
+        return typeof value === type;
+    }
+  }
+
+  private static matchesFormat(value: string, format: string): boolean {
+    switch (format) {
+      case "uri":
+        try {
+          new URL(value);
+          return true;
+        } catch {
+          return false;
+        }
+      case "date-time":
+        return (
+          /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i.test(
+            value
+          ) && !isNaN(Date.parse(value))
+        );
+      default:
+        // Unknown formats are annotations only
+        return true;
+    }
+  }
+
+  private static typeOf(value: unknown): string {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    return typeof value;
+  }
+
+  private static describeSchema(schema: JSONSchema): string {
+    if (!schema.type) return "schema";
+    return Array.isArray(schema.type) ? schema.type.join("|") : schema.type;
+  }
+}
@@ -2,22 +2,29 @@
  * Version management utilities for dataset versioning
  */
 
-export class VersionManager {
-  private static readonly SCHEMA_VERSION = "1.0.0";
+import { MigrationRegistry } from "../migration";
 
+export class VersionManager {
   /**
-   * Generate a new dataset version string
+   * Generate a new dataset version string, optionally guaranteed to sort
+   * after a previous version (versions have millisecond resolution)
    */
-  static generateVersion(): string {
-    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  static generateVersion(after?: string): string {
+    let time = Date.now();
+    const previous = after ? this.parseVersion(after) : null;
+    if (previous && !isNaN(previous.getTime()) && previous.getTime() >= time) {
+      time = previous.getTime() + 1;
+    }
+
+    const timestamp = new Date(time).toISOString().replace(/[:.]/g, "-");
     return `v${timestamp}`;
   }
 
   /**
-   * Get current schema version
+   * Get current schema version, including any registered migrations
    */
   static getSchemaVersion(): string {
-    return this.SCHEMA_VERSION;
+    return MigrationRegistry.getLatestVersion();
   }
 
   /**
@@ -58,12 +65,13 @@ export class VersionManager {
   }
 
   /**
-   * Check if version is compatible with current schema
+   * Check if a dataset schema version can be loaded, either directly or
+   * through registered migrations
    */
-  static isCompatible(version: string): boolean {
-    // For now, all versions are compatible
-    // This can be extended for breaking changes
-    return true;
+  static isCompatible(schemaVersion: string): boolean {
+    return (
+      MigrationRegistry.getPath(schemaVersion, this.getSchemaVersion()) !== null
+    );
   }
 
   /**
@@ -75,7 +83,7 @@ export class VersionManager {
       version: this.generateVersion(),
       createdAt: now,
       updatedAt: now,
-      schemaVersion: this.SCHEMA_VERSION,
+      schemaVersion: this.getSchemaVersion(),
       description,
       tags,
     };
@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import type { ImageDataset } from "@kavehrafie/image-dataset-manager";
+
+const configs: Record<string, unknown> = {};
+
+vi.mock("@slidev/client", () => ({
+  useSlideContext: () => ({ $slidev: { configs } }),
+}));
+
+function createDataset(caption: string): ImageDataset {
+  return {
+    metadata: {
+      version: "1.0.0",
+      created: "2024-01-01T00:00:00.000Z",
+      updated: "2024-01-01T00:00:00.000Z",
+    },
+    images: {
+      khorus_jangi: { src: "https://example.com/khorus.png", caption },
+    },
+  } as ImageDataset;
+}
+
+// The composable keeps its datasets at module level, so each test gets a
+// fresh copy
+async function loadComposable() {
+  vi.resetModules();
+  return import("../composables/useDataset");
+}
+
+describe("useDataset", () => {
+  beforeEach(() => {
+    delete configs.imageDataset;
+  });
+
+  test("should report missing and unknown datasets", async () => {
+    const { getDatasetManager, registerDataset } = await loadComposable();
+
+    expect(() => getDatasetManager()).toThrow("No datasets found");
+    registerDataset("modern", createDataset("Khorus Jangi"));
+    expect(() => getDatasetManager("classic")).toThrow(
+      'Unknown dataset "classic" (available: modern)'
+    );
+  });
+
+  test("should fall back to the first dataset and cache managers", async () => {
+    const { getDatasetManager, registerDataset } = await loadComposable();
+
+    registerDataset("modern", createDataset("Khorus Jangi"));
+    registerDataset("classic", createDataset("Qajar tile"));
+
+    const manager = getDatasetManager();
+    expect(manager.getImage("khorus_jangi")?.caption).toBe("Khorus Jangi");
+    expect(getDatasetManager("modern")).toBe(manager);
+
+    registerDataset("modern", createDataset("Khorus Jangi, 1949"));
+    expect(getDatasetManager("modern")).not.toBe(manager);
+    expect(getDatasetManager().getImage("khorus_jangi")?.caption).toBe(
+      "Khorus Jangi, 1949"
+    );
+  });
+
+  test("should pass configured options to new managers", async () => {
+    const { configureDatasets, getDatasetManager, registerDataset } =
+      await loadComposable();
+    const { DatasetManager } = await import(
+      "@kavehrafie/image-dataset-manager"
+    );
+    const fromJSON = vi.spyOn(DatasetManager, "fromJSON");
+
+    registerDataset("modern", createDataset("Khorus Jangi"));
+    const before = getDatasetManager("modern");
+    configureDatasets({ defaultTransforms: { thumbnail: "w_200" } });
+
+    expect(getDatasetManager("modern")).not.toBe(before);
+    expect(fromJSON).toHaveBeenLastCalledWith(expect.anything(), {
+      defaultTransforms: { thumbnail: "w_200" },
+    });
+    fromJSON.mockRestore();
+  });
+
+  test("should prefer the prop over the imageDataset headmatter", async () => {
+    const { registerDataset, useDataset } = await loadComposable();
+    registerDataset("modern", createDataset("Khorus Jangi"));
+    registerDataset("classic", createDataset("Qajar tile"));
+
+    configs.imageDataset = "classic";
+    const caption = (name?: string) =>
+      useDataset(() => name).value.getImage("khorus_jangi")?.caption;
+
+    expect(caption()).toBe("Qajar tile");
+    expect(caption("modern")).toBe("Khorus Jangi");
+  });
+});
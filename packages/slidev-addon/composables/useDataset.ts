@@ -0,0 +1,91 @@
+/**
+ * Dataset loading for the Slidev addon
+ */
+
+import { computed } from "vue";
+import type { ComputedRef } from "vue";
+import { useSlideContext } from "@slidev/client";
+import { DatasetManager } from "@kavehrafie/image-dataset-manager";
+import type {
+  DatasetManagerOptions,
+  ImageDataset,
+} from "@kavehrafie/image-dataset-manager";
+
+/**
+ * Dataset files in the deck's data/datasets/ folder, as created by `idm init`
+ */
+const files = import.meta.glob<ImageDataset>("/data/datasets/*.json", {
+  eager: true,
+  import: "default",
+});
+
+const datasets = new Map<string, ImageDataset>(
+  Object.entries(files).map(([path, dataset]) => [
+    path.replace(/^.*\/|\.json$/g, ""),
+    dataset,
+  ])
+);
+const managers = new Map<string, DatasetManager>();
+let managerOptions: DatasetManagerOptions = {};
+
+/**
+ * Headmatter options read by the addon
+ */
+export interface ImageDatasetConfig {
+  /** Dataset used when a component does not name one */
+  imageDataset?: string;
+}
+
+/**
+ * Make a dataset available under a name, e.g. one installed from npm
+ */
+export function registerDataset(name: string, dataset: ImageDataset): void {
+  datasets.set(name, dataset);
+  managers.delete(name);
+}
+
+/**
+ * Options for every DatasetManager the addon creates, such as `provider`
+ * or `defaultTransforms`
+ */
+export function configureDatasets(options: DatasetManagerOptions): void {
+  managerOptions = options;
+  managers.clear();
+}
+
+/**
+ * Manager for a named dataset, or the first one available
+ */
+export function getDatasetManager(name?: string): DatasetManager {
+  const key = name || datasets.keys().next().value;
+  const dataset = key ? datasets.get(key) : undefined;
+
+  if (!key || !dataset) {
+    throw new Error(
+      name
+        ? `Unknown dataset "${name}" (available: ${
+            Array.from(datasets.keys()).join(", ") || "none"
+          })`
+        : "No datasets found: add JSON files to data/datasets/ or call registerDataset"
+    );
+  }
+
+  if (!managers.has(key)) {
+    managers.set(key, DatasetManager.fromJSON(dataset, managerOptions));
+  }
+  return managers.get(key) as DatasetManager;
+}
+
+/**
+ * Manager for the dataset named by a component prop, falling back to the
+ * `imageDataset` headmatter option
+ */
+export function useDataset(
+  name: () => string | undefined = () => undefined
+): ComputedRef<DatasetManager> {
+  const { $slidev } = useSlideContext();
+  const configs = $slidev.configs as typeof $slidev.configs &
+    ImageDatasetConfig;
+
+  return computed(() => getDatasetManager(name() || configs.imageDataset));
+}
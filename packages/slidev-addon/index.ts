@@ -0,0 +1,14 @@
+/**
+ * Slidev addon for image datasets
+ *
+ * Components and layouts are registered by Slidev from the addon folders;
+ * these exports are for a deck's own setup files and components.
+ */
+
+export {
+  registerDataset,
+  configureDatasets,
+  getDatasetManager,
+  useDataset,
+} from "./composables/useDataset";
+export type { ImageDatasetConfig } from "./composables/useDataset";